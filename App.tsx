@@ -16,9 +16,12 @@ import Transactions from './pages/Transactions';
 import Quotes from './pages/Quotes';
 import DeliveryNotes from './pages/DeliveryNotes';
 import SystemLogs from './pages/SystemLogs';
+import Approvals from './pages/Approvals';
+import RecycleBin from './pages/RecycleBin';
 import { ViewState } from './types';
 import { ToastCenter } from './components/ui/Toast';
 import { useAppContext } from './contexts/AppContext';
+import { LoginScreen } from './components/auth/LoginScreen';
 
 // Helper to extract query params for legacy components
 const LegacyWrapper = ({ Component, onNavigate }: { Component: React.FC<any>, onNavigate: (view: ViewState, params?: any) => void }) => {
@@ -34,12 +37,15 @@ const LegacyWrapper = ({ Component, onNavigate }: { Component: React.FC<any>, on
 };
 
 const App = () => {
-  const { toggleTheme, settings } = useAppContext();
+  const { toggleTheme, settings, isAuthReady, isAuthenticated, isLocked } = useAppContext();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
   const navigate = useNavigate();
   const location = useLocation();
 
+  // Desktop shell: the application menu asks for a route
+  useEffect(() => window.erpDesktop?.onNavigate(path => navigate(path)), [navigate]);
+
   // Determine current view for Sidebar highlighting
   const getCurrentView = (): ViewState => {
     const path = location.pathname;
@@ -53,8 +59,10 @@ const App = () => {
     if (path.startsWith('/partners')) return 'PARTNERS';
     if (path.startsWith('/debts')) return 'DEBTS';
     if (path.startsWith('/transactions')) return 'TRANSACTIONS';
+    if (path.startsWith('/approvals')) return 'APPROVALS';
     if (path.startsWith('/reports')) return 'REPORTS';
     if (path.startsWith('/logs')) return 'SYSTEM_LOGS';
+    if (path.startsWith('/recycle-bin')) return 'RECYCLE_BIN';
     if (path.startsWith('/settings')) return 'SETTINGS';
     return 'DASHBOARD';
   };
@@ -76,8 +84,10 @@ const App = () => {
       case 'PARTNERS': path = `/partners${query}`; break;
       case 'DEBTS': path = `/debts${query}`; break;
       case 'TRANSACTIONS': path = `/transactions${query}`; break;
+      case 'APPROVALS': path = '/approvals'; break;
       case 'REPORTS': path = '/reports'; break;
       case 'SYSTEM_LOGS': path = '/logs'; break;
+      case 'RECYCLE_BIN': path = '/recycle-bin'; break;
       case 'SETTINGS': path = '/settings'; break;
       default: path = '/';
     }
@@ -86,6 +96,16 @@ const App = () => {
     setIsMobileMenuOpen(false); 
   };
 
+  if (!isAuthReady) return null;
+  if (!isAuthenticated || isLocked) {
+    return (
+      <>
+        <LoginScreen />
+        <ToastCenter />
+      </>
+    );
+  }
+
   return (
     <div className="flex h-screen w-full bg-background-light dark:bg-background-dark text-slate-900 dark:text-slate-100 transition-colors duration-200 overflow-hidden relative font-sans">
       
@@ -136,9 +156,11 @@ const App = () => {
             <Route path="/partners" element={<LegacyWrapper Component={Partners} onNavigate={handleNavigate} />} />
             <Route path="/debts" element={<Debts />} />
             <Route path="/transactions" element={<LegacyWrapper Component={Transactions} onNavigate={handleNavigate} />} />
+            <Route path="/approvals" element={<Approvals />} />
             
             <Route path="/reports" element={<Reports onNavigate={handleNavigate} />} />
             <Route path="/logs" element={<SystemLogs />} />
+            <Route path="/recycle-bin" element={<RecycleBin />} />
             <Route path="/settings" element={<Settings />} />
             
             <Route path="*" element={<Navigate to="/" replace />} />
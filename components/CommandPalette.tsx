@@ -18,7 +18,9 @@ const QUICK_ACTIONS = [
     { id: 'act-partners', title: 'Đối tác', subtitle: 'Khách hàng & Nhà cung cấp', icon: 'groups', view: 'PARTNERS' as ViewState, type: 'ACTION' },
     { id: 'act-debts', title: 'Công nợ', subtitle: 'Phải thu & Phải trả', icon: 'account_balance_wallet', view: 'DEBTS' as ViewState, type: 'ACTION' },
     { id: 'act-transactions', title: 'Sổ quỹ', subtitle: 'Thu chi tiền mặt', icon: 'payments', view: 'TRANSACTIONS' as ViewState, type: 'ACTION' },
+    { id: 'act-approvals', title: 'Phê duyệt', subtitle: 'Yêu cầu chờ duyệt', icon: 'approval', view: 'APPROVALS' as ViewState, type: 'ACTION' },
     { id: 'act-reports', title: 'Báo cáo', subtitle: 'Hiệu quả kinh doanh', icon: 'donut_large', view: 'REPORTS' as ViewState, type: 'ACTION' },
+    { id: 'act-recycle-bin', title: 'Thùng rác', subtitle: 'Khôi phục dữ liệu đã xóa', icon: 'delete', view: 'RECYCLE_BIN' as ViewState, type: 'ACTION' },
     { id: 'act-settings', title: 'Cài đặt', subtitle: 'Cấu hình hệ thống', icon: 'settings', view: 'SETTINGS' as ViewState, type: 'ACTION' },
 ];
 
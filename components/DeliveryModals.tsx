@@ -146,7 +146,6 @@ export const CreateDeliveryModal: React.FC<CreateDeliveryModalProps> = ({ isOpen
 
         setIsSubmitting(true);
         const payload = {
-            code: `PGH-${Date.now().toString().slice(-6)}`,
             date: formatInputDate(date),
             customerName,
             address,
@@ -1,7 +1,7 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../services/db';
-import { ImportOrder, ImportItem, Partner, Product, PartnerType } from '../types';
+import { ImportOrder, ImportItem, Partner, Product, PartnerType, LandedCost, LandedCostMethod } from '../types';
 import { useAppContext } from '../contexts/AppContext';
 import { removeVietnameseTones, formatInputDate, formatCurrency, getCurrentDate } from '../utils/helpers';
 import { parseInvoiceImage } from '../services/ai';
@@ -11,6 +11,7 @@ import { FormField, FormInput, FormSelect, FormTextarea } from './ui/Form';
 import { PrintPreviewModal as GenericPrintModal } from './print/PrintPreviewModal';
 import { WAREHOUSE_NAMES } from '../constants/options';
 import { InlineNumberEdit } from './ui/InlineNumberEdit';
+import { allocateLandedCost, getLandedCostTotal } from '../services/costing';
 
 interface CreateImportModalProps {
     isOpen: boolean;
@@ -90,7 +91,6 @@ export const CreateImportModal: React.FC<CreateImportModalProps> = ({ isOpen, on
         setIsSubmitting(true);
         try {
             await createImportOrder({
-                code: `PN-${Date.now().toString().slice(-6)}`,
                 supplierId: selectedSupplier.id, supplierName: selectedSupplier.name,
                 date: formatInputDate(importDate), total: totalAmount, status: status,
                 invoiceNo: invoiceNo, warehouse: warehouse, items: items,
@@ -328,17 +328,17 @@ export const PrintImportModal: React.FC<{ isOpen: boolean, onClose: () => void,
 
 export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void, importOrder: ImportOrder | null }> = ({ isOpen, onClose, importOrder }) => {
     const { addReceivingNote, showNotification } = useAppContext();
-    const [items, setItems] = useState<{ id: string, quantity: number, max: number, name: string }[]>([]);
+    const [items, setItems] = useState<{ id: string, quantity: number, max: number, name: string, sku: string, price: number }[]>([]);
     const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
     const [notes, setNotes] = useState('');
-    const [landedCost, setLandedCost] = useState(0);
+    const [landedCost, setLandedCost] = useState<LandedCost>({ freight: 0, duty: 0, other: 0, method: 'value', manualSplit: {} });
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     useEffect(() => {
         if (isOpen && importOrder) {
             setDate(new Date().toISOString().slice(0, 10));
             setNotes('');
-            setLandedCost(0);
+            setLandedCost({ freight: 0, duty: 0, other: 0, method: 'value', manualSplit: {} });
             
             const mapped = importOrder.items.map(i => {
                 const received = i.receivedQuantity || 0;
@@ -346,6 +346,8 @@ export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void,
                 return {
                     id: i.id,
                     name: i.productName,
+                    sku: i.sku,
+                    price: i.price,
                     quantity: remaining, 
                     max: remaining
                 };
@@ -359,6 +361,18 @@ export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void,
         setItems(prev => prev.map(i => i.id === id ? { ...i, quantity: qty } : i));
     };
 
+    const landedTotal = getLandedCostTotal(landedCost);
+
+    // Live preview of the landed unit cost per line
+    const costPreview = useMemo(() => {
+        const lines = items.filter(i => i.quantity > 0).map(i => ({ id: i.id, sku: i.sku, productName: i.name, quantity: i.quantity, importPrice: i.price, total: i.quantity * i.price }));
+        try {
+            return new Map(allocateLandedCost(lines, landedCost).map(l => [l.id, l]));
+        } catch {
+            return null; // Manual split does not add up yet
+        }
+    }, [items, landedCost]);
+
     const handleSubmit = async () => {
         if (!importOrder) return;
         const validItems = items.filter(i => i.quantity > 0);
@@ -378,7 +392,7 @@ export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void,
                 importOrder.id,
                 validItems.map(i => ({ id: i.id, quantity: i.quantity })),
                 { date: formatInputDate(date), notes },
-                landedCost
+                landedTotal > 0 ? landedCost : undefined
             );
             onClose();
         } catch (e: any) {
@@ -409,14 +423,31 @@ export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void,
                     <FormField label="Ngày nhập">
                         <FormInput type="date" value={date} onChange={e => setDate(e.target.value)} />
                     </FormField>
-                    <FormField label="Chi phí vận chuyển/khác (Nếu có)">
-                        <div className="relative">
-                            <FormInput type="number" value={landedCost === 0 ? '' : landedCost} onChange={e => setLandedCost(Number(e.target.value))} placeholder="0" className="pr-12" />
-                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">VND</span>
-                        </div>
-                        <p className="text-[10px] text-slate-500 mt-1">Sẽ được phân bổ vào giá vốn sản phẩm.</p>
+                    <FormField label="Phân bổ chi phí theo">
+                        <FormSelect value={landedCost.method} onChange={e => setLandedCost(prev => ({ ...prev, method: e.target.value as LandedCostMethod }))}>
+                            <option value="value">Giá trị hàng</option>
+                            <option value="quantity">Số lượng</option>
+                            <option value="manual">Nhập thủ công</option>
+                        </FormSelect>
                     </FormField>
                 </div>
+                <div className="grid grid-cols-3 gap-4">
+                    {([['freight', 'Vận chuyển'], ['duty', 'Thuế nhập khẩu'], ['other', 'Chi phí khác']] as const).map(([key, label]) => (
+                        <FormField key={key} label={label}>
+                            <div className="relative">
+                                <FormInput type="number" value={landedCost[key] === 0 ? '' : landedCost[key]} onChange={e => setLandedCost(prev => ({ ...prev, [key]: Number(e.target.value) }))} placeholder="0" className="pr-12" />
+                                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">VND</span>
+                            </div>
+                        </FormField>
+                    ))}
+                </div>
+                {landedTotal > 0 && (
+                    <p className={`text-[10px] ${costPreview ? 'text-slate-500' : 'text-red-500 font-bold'}`}>
+                        {costPreview
+                            ? `Tổng ${formatCurrency(landedTotal)} sẽ được phân bổ vào giá vốn sản phẩm.`
+                            : `Tổng phân bổ thủ công phải bằng ${formatCurrency(landedTotal)}.`}
+                    </p>
+                )}
                 <FormField label="Ghi chú">
                     <FormTextarea value={notes} onChange={e => setNotes(e.target.value)} placeholder="VD: Hàng về đợt 1..." rows={2} />
                 </FormField>
@@ -428,6 +459,8 @@ export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void,
                                 <th className="px-4 py-2 text-left">Sản phẩm</th>
                                 <th className="px-4 py-2 text-center w-24">Còn lại</th>
                                 <th className="px-4 py-2 text-center w-32">Thực nhận</th>
+                                {landedTotal > 0 && landedCost.method === 'manual' && <th className="px-4 py-2 text-right w-36">Phân bổ</th>}
+                                {landedTotal > 0 && <th className="px-4 py-2 text-right w-32">Giá vốn/ĐV</th>}
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100 dark:divide-slate-700 bg-white dark:bg-slate-900">
@@ -445,9 +478,25 @@ export const ReceiveItemsModal: React.FC<{ isOpen: boolean, onClose: () => void,
                                             className="border border-blue-200 bg-blue-50 text-blue-700 rounded font-bold"
                                         />
                                     </td>
+                                    {landedTotal > 0 && landedCost.method === 'manual' && (
+                                        <td className="px-4 py-2">
+                                            <InlineNumberEdit 
+                                                value={landedCost.manualSplit?.[item.id] || 0} 
+                                                onChange={v => setLandedCost(prev => ({ ...prev, manualSplit: { ...prev.manualSplit, [item.id]: v } }))} 
+                                                min={0}
+                                                align="right"
+                                                className="border border-slate-200 rounded"
+                                            />
+                                        </td>
+                                    )}
+                                    {landedTotal > 0 && (
+                                        <td className="px-4 py-2 text-right text-xs font-bold text-slate-600 dark:text-slate-300">
+                                            {costPreview?.get(item.id) ? formatCurrency(Math.round(costPreview.get(item.id)!.finalUnitCost!)) : '---'}
+                                        </td>
+                                    )}
                                 </tr>
                             ))}
-                            {items.length === 0 && <tr><td colSpan={3} className="p-4 text-center text-slate-500 italic">Đã nhập đủ hàng.</td></tr>}
+                            {items.length === 0 && <tr><td colSpan={5} className="p-4 text-center text-slate-500 italic">Đã nhập đủ hàng.</td></tr>}
                         </tbody>
                     </table>
                 </div>
@@ -462,22 +511,30 @@ export const CreatePurchaseReturnModal: React.FC<{ isOpen: boolean, onClose: ()
     const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
     const [notes, setNotes] = useState('');
     const [method, setMethod] = useState('debt_deduction');
+    const [excessMethod, setExcessMethod] = useState<'cash' | 'transfer'>('transfer');
     const [isSubmitting, setIsSubmitting] = useState(false);
 
+    const previousReturns = useLiveQuery(
+        () => importOrder ? db.purchaseReturnNotes.where('importCode').equals(importOrder.code).toArray() : [],
+        [importOrder?.code]
+    );
+
     useEffect(() => {
-        if (isOpen && importOrder) {
+        if (isOpen && importOrder && previousReturns) {
             setDate(new Date().toISOString().slice(0, 10));
             setNotes('');
+            const received = (i: ImportItem) => i.receivedQuantity ?? (importOrder.status === 'Received' || importOrder.status === 'Completed' ? i.quantity : 0);
+            const returned = (id: string) => previousReturns.reduce((sum, n) => sum + n.items.filter(i => i.id === id).reduce((q, i) => q + i.quantity, 0), 0);
             const mapped = importOrder.items.map(i => ({
                 id: i.id,
                 name: i.productName,
                 quantity: 0,
-                max: i.receivedQuantity || i.quantity, // Can only return what was received
+                max: Math.max(0, received(i) - returned(i.id)), // Can only return what was received and not sent back yet
                 price: i.price
             }));
             setItems(mapped);
         }
-    }, [isOpen, importOrder]);
+    }, [isOpen, importOrder, previousReturns]);
 
     const handleQuantityChange = (id: string, qty: number) => {
         setItems(prev => prev.map(i => i.id === id ? { ...i, quantity: qty } : i));
@@ -499,6 +556,7 @@ export const CreatePurchaseReturnModal: React.FC<{ isOpen: boolean, onClose: ()
                 items: validItems,
                 refundAmount,
                 method,
+                excessMethod,
                 notes,
                 date: formatInputDate(date)
             });
@@ -539,6 +597,14 @@ export const CreatePurchaseReturnModal: React.FC<{ isOpen: boolean, onClose: ()
                             <option value="transfer">Nhận chuyển khoản</option>
                         </FormSelect>
                     </FormField>
+                    {method === 'debt_deduction' && (
+                        <FormField label="Phần vượt công nợ còn lại">
+                            <FormSelect value={excessMethod} onChange={e => setExcessMethod(e.target.value as 'cash' | 'transfer')}>
+                                <option value="transfer">Nhận chuyển khoản</option>
+                                <option value="cash">Nhận tiền mặt</option>
+                            </FormSelect>
+                        </FormField>
+                    )}
                 </div>
                 
                 <FormField label="Lý do trả hàng">
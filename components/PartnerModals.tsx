@@ -202,14 +202,26 @@ export const CreatePartnerModal: React.FC<CreatePartnerModalProps> = ({ isOpen,
                                     placeholder="email@example.com" 
                                 />
                             </FormField>
-                            <FormField label="Hạn mức nợ">
-                                <FormInput 
-                                    type="number"
-                                    value={formData.debtLimit || ''} 
-                                    onChange={e => setFormData({...formData, debtLimit: Number(e.target.value)})} 
-                                    placeholder="0" 
-                                />
-                            </FormField>
+                            {formData.type === PartnerType.Supplier ? (
+                                <FormField label="Hạn thanh toán (ngày)">
+                                    <FormInput 
+                                        type="number"
+                                        min={0}
+                                        value={formData.paymentTermDays ?? ''} 
+                                        onChange={e => setFormData({...formData, paymentTermDays: e.target.value === '' ? undefined : Number(e.target.value)})} 
+                                        placeholder="Mặc định theo cài đặt" 
+                                    />
+                                </FormField>
+                            ) : (
+                                <FormField label="Hạn mức nợ">
+                                    <FormInput 
+                                        type="number"
+                                        value={formData.debtLimit || ''} 
+                                        onChange={e => setFormData({...formData, debtLimit: Number(e.target.value)})} 
+                                        placeholder="0" 
+                                    />
+                                </FormField>
+                            )}
                         </div>
                     </div>
                 </div>
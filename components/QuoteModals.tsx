@@ -4,7 +4,7 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../services/db';
 import { Quote, QuoteItem, Partner, Product, PartnerType } from '../types';
 import { useAppContext } from '../contexts/AppContext';
-import { formatCurrency, removeVietnameseTones, formatInputDate as formatDateDDMM, parseDate } from '../utils/helpers';
+import { formatCurrency, removeVietnameseTones, formatInputDate as formatDateDDMM, parseDate, calcAvailableStock } from '../utils/helpers';
 import { Button, SearchInput } from './ui/Primitives';
 import { Modal } from './ui/Modal';
 import { FormField, FormInput, FormSelect, FormTextarea } from './ui/Form';
@@ -27,7 +27,7 @@ interface CreateQuoteModalProps {
 }
 
 export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onClose, mode, initialData }) => {
-    const { createQuote, updateQuote, showNotification } = useAppContext();
+    const { createQuote, updateQuote, showNotification, can } = useAppContext();
 
     // Data Fetching
     const products = useLiveQuery(() => db.products.filter(p => !p.isDeleted).toArray()) || [];
@@ -69,12 +69,8 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
                 setCustomerId(initialData.customerId);
                 setCustomerSearch(initialData.customerName);
             } else {
-                // Generate default code for new quote: BG-YYYYMM-XXXX
-                const now = new Date();
-                const randomPart = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-                const defaultCode = `BG-${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}-${randomPart}`;
-                
-                setCode(defaultCode);
+                // Left blank so the numbering service issues the next code on save
+                setCode('');
                 setCustomerName('');
                 setPhone('');
                 setAddress('');
@@ -111,6 +107,21 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
         ).slice(0, 5);
     }, [customerSearch, partners]);
 
+    // Available stock for a line, counting back what this quote already holds
+    const getAvailableFor = (productId: string) => {
+        const p = products.find(x => x.id === productId);
+        if (!p) return Infinity;
+        const ownHold = initialData?.items.find(i => i.id === productId)?.reservedQuantity || 0;
+        return calcAvailableStock(p.stock, (p.stockReserved || 0) - ownHold);
+    };
+
+    const warnIfShort = (productId: string, quantity: number) => {
+        const available = getAvailableFor(productId);
+        if (quantity > available) {
+            showNotification(`Số lượng ${quantity} vượt quá tồn khả dụng (${available}). Báo giá vẫn được lập nhưng có thể không đủ hàng.`, 'warning');
+        }
+    };
+
     // Handlers
     const handleSelectCustomer = (p: Partner) => {
         setCustomerId(p.id);
@@ -122,6 +133,7 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
     };
 
     const handleAddItem = (product: Product) => {
+        warnIfShort(product.id, (items.find(i => i.id === product.id)?.quantity || 0) + 1);
         setItems(prev => {
             const existing = prev.find(i => i.id === product.id);
             if (existing) {
@@ -141,6 +153,7 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
     };
 
     const updateItem = (id: string, updates: Partial<QuoteItem>) => {
+        if (updates.quantity !== undefined) warnIfShort(id, updates.quantity);
         setItems(prev => prev.map(i => {
             if (i.id === id) {
                 const newItem = { ...i, ...updates };
@@ -163,13 +176,13 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
 
     const handleSubmit = async () => {
         if (isSubmitting) return;
-        if (!code) { showNotification('Vui lòng nhập mã báo giá', 'error'); return; }
+        if (!code && mode === 'edit') { showNotification('Vui lòng nhập mã báo giá', 'error'); return; }
         if (!customerName) { showNotification('Vui lòng nhập tên khách hàng', 'error'); return; }
         if (items.length === 0) { showNotification('Vui lòng chọn ít nhất 1 sản phẩm', 'error'); return; }
 
         setIsSubmitting(true);
         const payload = {
-            code, // User edited code or auto-generated
+            code, // Blank on create: issued by the numbering service
             customerName, phone, address,
             date: formatDateDDMM(date),
             validUntil: formatDateDDMM(validUntil),
@@ -245,11 +258,11 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
                     {/* Header Inputs */}
                     <div className="grid grid-cols-2 gap-4 mb-4 shrink-0">
                         {/* Quote Code Field */}
-                        <FormField label="Mã báo giá" required>
+                        <FormField label="Mã báo giá" required={mode === 'edit'}>
                             <FormInput 
                                 value={code} 
                                 onChange={e => setCode(e.target.value)} 
-                                placeholder="BG-..." 
+                                placeholder="Tự động đánh số" 
                                 className="font-mono font-bold text-blue-600 uppercase"
                             />
                         </FormField>
@@ -299,12 +312,15 @@ export const CreateQuoteModal: React.FC<CreateQuoteModalProps> = ({ isOpen, onCl
                                         <td className="px-3 py-2">
                                             <div className="font-bold text-slate-900 dark:text-white truncate max-w-[150px]">{item.productName}</div>
                                             <div className="text-[10px] font-mono text-slate-500">{item.sku}</div>
+                                            {item.quantity > getAvailableFor(item.id) && (
+                                                <div className="text-[10px] font-bold text-orange-600 flex items-center gap-0.5"><span className="material-symbols-outlined text-[12px]">warning</span> Khả dụng: {getAvailableFor(item.id)}</div>
+                                            )}
                                         </td>
                                         <td className="px-2 py-2 text-center">
                                             <InlineNumberEdit value={item.quantity} onChange={v => updateItem(item.id, { quantity: v })} min={1} align="center" className="bg-white dark:bg-slate-700 rounded border border-slate-300 dark:border-slate-600 py-0.5 font-bold" />
                                         </td>
                                         <td className="px-2 py-2 text-right">
-                                            <InlineNumberEdit value={item.price} onChange={v => updateItem(item.id, { price: v })} min={0} align="right" className="bg-white dark:bg-slate-700 rounded border border-slate-300 dark:border-slate-600 py-0.5" />
+                                            <InlineNumberEdit value={item.price} onChange={v => updateItem(item.id, { price: v })} min={0} disabled={!can('price.override')} align="right" className="bg-white dark:bg-slate-700 rounded border border-slate-300 dark:border-slate-600 py-0.5" />
                                         </td>
                                         <td className="px-3 py-2 text-right font-black text-slate-900 dark:text-white">{formatCurrency(item.total)}</td>
                                         <td className="px-1 py-2 text-center"><button onClick={() => removeItem(item.id)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100"><span className="material-symbols-outlined text-[16px]">close</span></button></td>
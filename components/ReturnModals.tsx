@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Order, ReturnNote } from '../types';
+import { useAppContext } from '../contexts/AppContext';
+import { formatInputDate, formatCurrency } from '../utils/helpers';
+import { Button } from './ui/Primitives';
+import { Modal } from './ui/Modal';
+import { FormField, FormInput, FormSelect, FormTextarea } from './ui/Form';
+import { InlineNumberEdit } from './ui/InlineNumberEdit';
+
+interface CreateReturnModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    order: Order | null;
+}
+
+export const CreateReturnModal: React.FC<CreateReturnModalProps> = ({ isOpen, onClose, order }) => {
+    const { addReturnNote, showNotification } = useAppContext();
+    const [items, setItems] = useState<{ id: string, name: string, sku: string, quantity: number, sold: number, max: number, price: number }[]>([]);
+    const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+    const [notes, setNotes] = useState('');
+    const [method, setMethod] = useState<ReturnNote['method']>('cash');
+    const [refundAmount, setRefundAmount] = useState(0);
+    const [refundTouched, setRefundTouched] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const outstanding = order ? Math.max(0, order.total - (order.returnedAmount || 0) - (order.amountPaid || 0)) : 0;
+    // Share of discount and VAT carried by each unit of list price
+    const priceRatio = order && order.subtotal > 0 ? order.total / order.subtotal : 1;
+
+    useEffect(() => {
+        if (isOpen && order) {
+            setDate(new Date().toISOString().slice(0, 10));
+            setNotes('');
+            setMethod(outstanding > 0 ? 'debt_deduction' : 'cash');
+            setRefundAmount(0);
+            setRefundTouched(false);
+            setItems(order.items.map(i => ({
+                id: i.id,
+                name: i.productName,
+                sku: i.sku,
+                quantity: 0,
+                sold: i.quantity,
+                max: i.quantity - (i.returnedQuantity || 0),
+                price: i.price
+            })));
+        }
+    }, [isOpen, order]);
+
+    const returnValue = items.reduce((sum, i) => sum + i.quantity * i.price, 0);
+
+    useEffect(() => {
+        if (!refundTouched) setRefundAmount(Math.round(returnValue * priceRatio));
+    }, [returnValue, priceRatio, refundTouched]);
+
+    const handleQuantityChange = (id: string, qty: number) => {
+        setItems(prev => prev.map(i => i.id === id ? { ...i, quantity: qty } : i));
+    };
+
+    const handleSubmit = async () => {
+        if (!order) return;
+        const validItems = items.filter(i => i.quantity > 0);
+        if (validItems.length === 0) {
+            showNotification('Vui lòng chọn số lượng trả hàng', 'error');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await addReturnNote({
+                orderId: order.id,
+                items: validItems.map(i => ({ id: i.id, quantity: i.quantity })),
+                refundAmount,
+                method,
+                notes,
+                date: formatInputDate(date)
+            });
+            onClose();
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (!isOpen || !order) return null;
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`Khách Trả Hàng - ${order.code}`}
+            size="lg"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>Hủy</Button>
+                    <Button variant="danger" onClick={handleSubmit} loading={isSubmitting} icon="assignment_return">Xác nhận trả hàng</Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                    <FormField label="Ngày trả">
+                        <FormInput type="date" value={date} onChange={e => setDate(e.target.value)} />
+                    </FormField>
+                    <FormField label="Hình thức hoàn tiền">
+                        <FormSelect value={method} onChange={e => setMethod(e.target.value as ReturnNote['method'])}>
+                            <option value="debt_deduction" disabled={outstanding <= 0}>Trừ công nợ ({formatCurrency(outstanding)})</option>
+                            <option value="cash">Hoàn tiền mặt</option>
+                            <option value="transfer">Hoàn chuyển khoản</option>
+                        </FormSelect>
+                    </FormField>
+                    <FormField label="Số tiền hoàn">
+                        <FormInput type="number" min={0} value={refundAmount} onChange={e => { setRefundTouched(true); setRefundAmount(Math.max(0, Number(e.target.value) || 0)); }} />
+                    </FormField>
+                </div>
+
+                <FormField label="Lý do trả hàng">
+                    <FormTextarea value={notes} onChange={e => setNotes(e.target.value)} placeholder="Hàng lỗi, khách đổi ý..." rows={2} />
+                </FormField>
+
+                <div className="border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden mt-4">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-500 uppercase border-b border-slate-200 dark:border-slate-700">
+                            <tr>
+                                <th className="px-4 py-2 text-left">Sản phẩm</th>
+                                <th className="px-4 py-2 text-center w-20">Đã bán</th>
+                                <th className="px-4 py-2 text-center w-20">Đã trả</th>
+                                <th className="px-4 py-2 text-center w-32">Trả lại</th>
+                                <th className="px-4 py-2 text-right w-32">Thành tiền</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-700 bg-white dark:bg-slate-900">
+                            {items.map(item => (
+                                <tr key={item.id} className={item.max <= 0 ? 'opacity-50' : ''}>
+                                    <td className="px-4 py-2">
+                                        <div className="font-medium text-slate-900 dark:text-white">{item.name}</div>
+                                        <div className="text-[10px] text-slate-400 font-mono">{item.sku}</div>
+                                    </td>
+                                    <td className="px-4 py-2 text-center text-slate-500">{item.sold}</td>
+                                    <td className="px-4 py-2 text-center text-slate-500">{item.sold - item.max}</td>
+                                    <td className="px-4 py-2">
+                                        {item.max > 0 ? (
+                                            <InlineNumberEdit
+                                                value={item.quantity}
+                                                onChange={v => handleQuantityChange(item.id, v)}
+                                                max={item.max}
+                                                min={0}
+                                                align="center"
+                                                className="border border-red-200 bg-red-50 text-red-700 rounded font-bold"
+                                            />
+                                        ) : (
+                                            <p className="text-center text-xs text-slate-400">Đã trả hết</p>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-right font-bold text-slate-700 dark:text-slate-300">
+                                        {formatCurrency(item.quantity * item.price)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="bg-slate-50 dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700">
+                            <tr>
+                                <td colSpan={4} className="px-4 py-2 text-right font-bold text-slate-500 uppercase">Giá trị hàng trả</td>
+                                <td className="px-4 py-2 text-right font-bold text-slate-700 dark:text-slate-300">{formatCurrency(returnValue)}</td>
+                            </tr>
+                            <tr>
+                                <td colSpan={4} className="px-4 py-2 text-right font-bold text-slate-500 uppercase">Hoàn lại khách (sau CK/VAT)</td>
+                                <td className="px-4 py-2 text-right font-black text-red-600 text-lg">{formatCurrency(refundAmount)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -1,6 +1,10 @@
 
 import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../services/db';
 import { ViewState } from '../types';
+import { useAppContext } from '../contexts/AppContext';
+import { ROLE_LABELS } from '../services/auth';
 
 interface SidebarProps {
   currentView: ViewState;
@@ -36,12 +40,22 @@ const MENU_GROUPS = [
       { id: 'PARTNERS', label: 'Đối tác', icon: 'groups' },
       { id: 'DEBTS', label: 'Công nợ', icon: 'account_balance_wallet' },
       { id: 'TRANSACTIONS', label: 'Sổ quỹ', icon: 'payments' },
+      { id: 'APPROVALS', label: 'Phê duyệt', icon: 'approval' },
+    ]
+  },
+  {
+    label: 'Hệ thống',
+    items: [
+      { id: 'RECYCLE_BIN', label: 'Thùng rác', icon: 'delete' },
     ]
   }
 ];
 
 const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) => {
+  const { currentUser, lockScreen, logout } = useAppContext();
   const isSettingsActive = currentView === 'SETTINGS';
+  const pendingApprovals = useLiveQuery(() => db.approvals.where('status').equals('Pending').count(), []) || 0;
+  const initials = currentUser.name.split(/\s+/).filter(Boolean).slice(-2).map(w => w[0]).join('').toUpperCase();
 
   return (
     <aside 
@@ -118,6 +132,9 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) => {
                       </span>
                       
                       {/* Badge */}
+                      {item.id === 'APPROVALS' && pendingApprovals > 0 && (
+                        <span className="relative z-10 min-w-[20px] px-1.5 py-0.5 rounded-full text-[10px] font-black text-center bg-amber-400 text-white">{pendingApprovals}</span>
+                      )}
                       {(item as any).badge && (
                         <span className={`relative z-10 px-1.5 py-0.5 rounded text-[9px] font-black tracking-widest border ${
                             isActive 
@@ -151,12 +168,12 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) => {
                   ? 'bg-[#4A86BF]/10 text-[#4A86BF] ring-[#4A86BF]/20 dark:bg-[#38bdf8]/10 dark:text-[#38bdf8] dark:ring-[#38bdf8]/20'
                   : 'bg-white/20 text-white ring-white/20 dark:bg-slate-700 dark:ring-slate-600'
               }`}>
-                  XQ
+                  {initials}
               </div>
               
               <div className="flex-1 min-w-0">
-                  <p className={`text-sm font-bold truncate ${isSettingsActive ? 'text-[#4A86BF] dark:text-[#38bdf8]' : 'text-white'}`}>Xun Quý</p>
-                  <p className={`text-[11px] font-medium truncate ${isSettingsActive ? 'text-[#4A86BF]/70 dark:text-[#38bdf8]/70' : 'text-blue-50 dark:text-slate-400'}`}>Quản trị viên</p>
+                  <p className={`text-sm font-bold truncate ${isSettingsActive ? 'text-[#4A86BF] dark:text-[#38bdf8]' : 'text-white'}`}>{currentUser.name}</p>
+                  <p className={`text-[11px] font-medium truncate ${isSettingsActive ? 'text-[#4A86BF]/70 dark:text-[#38bdf8]/70' : 'text-blue-50 dark:text-slate-400'}`}>{ROLE_LABELS[currentUser.role]}</p>
               </div>
               
               <span className={`sidebar-icon settings-icon material-symbols-outlined text-[20px] ${
@@ -165,6 +182,14 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onChangeView }) => {
                   : 'text-blue-100 dark:text-slate-500 group-hover:text-white'
               }`}>settings</span>
           </div>
+          <div className="flex gap-2 mt-2">
+              <button onClick={lockScreen} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[11px] font-bold text-blue-50 dark:text-slate-400 hover:bg-white/10 dark:hover:bg-slate-800 transition-colors">
+                  <span className="material-symbols-outlined text-[16px]">lock</span>Khóa màn hình
+              </button>
+              <button onClick={logout} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[11px] font-bold text-blue-50 dark:text-slate-400 hover:bg-white/10 dark:hover:bg-slate-800 transition-colors">
+                  <span className="material-symbols-outlined text-[16px]">logout</span>Đăng xuất
+              </button>
+          </div>
       </div>
     </aside>
   );
@@ -66,12 +66,14 @@ const Topbar: React.FC<TopbarProps> = ({ isDarkMode, toggleTheme, onNavigate, cu
           case 'DEBTS': return { title: 'Công Nợ', icon: 'account_balance_wallet' };
           case 'IMPORTS': return { title: 'Nhập Hàng', icon: 'move_to_inbox' };
           case 'TRANSACTIONS': return { title: 'Sổ Quỹ', icon: 'payments' };
+          case 'APPROVALS': return { title: 'Phê Duyệt', icon: 'approval' };
           case 'REPORTS': return { title: 'Báo Cáo', icon: 'donut_large' };
           case 'SETTINGS': return { title: 'Cài Đặt', icon: 'tune' };
           case 'QUOTES': return { title: 'Báo Giá', icon: 'request_quote' };
           case 'DELIVERY_NOTES': return { title: 'Vận Chuyển', icon: 'local_shipping' };
           case 'AUDIT_LOGS': return { title: 'Nhật Ký', icon: 'history' };
           case 'SYSTEM_LOGS': return { title: 'Hệ Thống', icon: 'terminal' };
+          case 'RECYCLE_BIN': return { title: 'Thùng Rác', icon: 'delete' };
           default: return { title: 'Tổng Quan', icon: 'dashboard' };
       }
   };
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../contexts/AppContext';
+import { LockableType } from '../services/locking';
+import { Button } from './ui/Primitives';
+import { Modal } from './ui/Modal';
+import { FormField, FormTextarea } from './ui/Form';
+
+interface UnlockDocumentModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    type: LockableType;
+    id: string | null;
+    code?: string;
+}
+
+export const UnlockDocumentModal: React.FC<UnlockDocumentModalProps> = ({ isOpen, onClose, type, id, code }) => {
+    const { unlockDocument, showNotification } = useAppContext();
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setReason('');
+    }, [isOpen]);
+
+    const handleSubmit = async () => {
+        if (!id) return;
+        setIsSubmitting(true);
+        try {
+            await unlockDocument(type, id, reason);
+            onClose();
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`Mở khóa chứng từ ${code || ''}`}
+            size="md"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>Hủy</Button>
+                    <Button variant="danger" onClick={handleSubmit} loading={isSubmitting} disabled={!reason.trim()} icon="lock_open">Mở khóa</Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <p className="text-sm text-slate-500">Chứng từ đã khóa sổ. Việc mở khóa sẽ được ghi vào nhật ký hệ thống cùng lý do.</p>
+                <FormField label="Lý do mở khóa" required>
+                    <FormTextarea value={reason} onChange={e => setReason(e.target.value)} placeholder="Điều chỉnh sai sót hóa đơn..." rows={3} autoFocus />
+                </FormField>
+            </div>
+        </Modal>
+    );
+};
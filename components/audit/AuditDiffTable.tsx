@@ -0,0 +1,65 @@
+import React from 'react';
+import { AuditFieldChange, AuditItemChange } from '../../types';
+import { formatAuditValue } from '../../services/audit';
+
+const ITEM_ACTION_LABELS: Record<AuditItemChange['action'], { label: string; color: string }> = {
+    AddItem: { label: 'Thêm dòng', color: 'text-emerald-700 bg-emerald-100 dark:bg-emerald-900/30' },
+    RemoveItem: { label: 'Xóa dòng', color: 'text-red-700 bg-red-100 dark:bg-red-900/30' },
+    Update: { label: 'Sửa dòng', color: 'text-blue-700 bg-blue-100 dark:bg-blue-900/30' },
+};
+
+interface AuditDiffTableProps {
+    changes: AuditFieldChange[];
+    items?: AuditItemChange[];
+}
+
+export const AuditDiffTable: React.FC<AuditDiffTableProps> = ({ changes, items = [] }) => {
+    const renderValue = (value: any) => value !== undefined && value !== null
+        ? formatAuditValue(value)
+        : <span className="italic opacity-50">null</span>;
+
+    return (
+        <div className="bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+            <table className="w-full text-sm text-left">
+                <thead className="bg-slate-100 dark:bg-slate-800 text-[10px] font-bold uppercase text-slate-500">
+                    <tr>
+                        <th className="px-4 py-2 w-1/4">Trường dữ liệu</th>
+                        <th className="px-4 py-2 w-1/3">Giá trị cũ</th>
+                        <th className="px-4 py-2 w-1/3">Giá trị mới</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                    {changes.map((change, idx) => (
+                        <tr key={idx} className="hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-colors">
+                            <td className="px-4 py-3 font-mono text-xs font-bold text-slate-600 dark:text-slate-400">{change.field}</td>
+                            <td className="px-4 py-3 text-red-600 dark:text-red-400 line-through decoration-red-300 text-xs break-all">{renderValue(change.before)}</td>
+                            <td className="px-4 py-3 text-emerald-600 dark:text-emerald-400 font-bold text-xs break-all">{renderValue(change.after)}</td>
+                        </tr>
+                    ))}
+                    {items.map(item => (
+                        <React.Fragment key={`${item.action}-${item.key}`}>
+                            <tr className="bg-white/60 dark:bg-slate-800/30">
+                                <td colSpan={3} className="px-4 py-2">
+                                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase mr-2 ${ITEM_ACTION_LABELS[item.action].color}`}>{ITEM_ACTION_LABELS[item.action].label}</span>
+                                    <span className="font-mono text-xs font-bold text-slate-700 dark:text-slate-300">{item.label}</span>
+                                    {item.action !== 'Update' && (
+                                        <span className="text-xs text-slate-500 ml-2">
+                                            {(item.after || item.before)?.productName} · SL {(item.after || item.before)?.quantity ?? '—'}
+                                        </span>
+                                    )}
+                                </td>
+                            </tr>
+                            {item.fields?.map((change, idx) => (
+                                <tr key={idx} className="hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-colors">
+                                    <td className="px-4 py-2 pl-8 font-mono text-xs text-slate-500">{change.field}</td>
+                                    <td className="px-4 py-2 text-red-600 dark:text-red-400 line-through decoration-red-300 text-xs break-all">{renderValue(change.before)}</td>
+                                    <td className="px-4 py-2 text-emerald-600 dark:text-emerald-400 font-bold text-xs break-all">{renderValue(change.after)}</td>
+                                </tr>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
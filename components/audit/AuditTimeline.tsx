@@ -1,7 +1,11 @@
 
-import React from 'react';
-import { AuditLog, AuditAction } from '../../types';
+import React, { useState } from 'react';
+import { AuditLog, AuditAction, AuditFieldChange, AuditItemChange } from '../../types';
 import { formatRelativeTime } from '../../utils/helpers';
+import { getAuditDiff, formatAuditValue } from '../../services/audit';
+import { isRestorableLog, RESTORE_TARGETS } from '../../services/restore';
+import { useAppContext } from '../../contexts/AppContext';
+import { RestoreVersionModal } from './RestoreVersionModal';
 
 interface AuditTimelineProps {
     logs: AuditLog[];
@@ -18,9 +22,21 @@ const ACTION_CONFIG: Record<string, { icon: string; color: string; label: string
     Payment: { icon: 'payments', color: 'text-teal-600 bg-teal-50 dark:bg-teal-900/20', label: 'Thanh toán' },
     Adjust: { icon: 'tune', color: 'text-indigo-600 bg-indigo-50 dark:bg-indigo-900/20', label: 'Điều chỉnh' },
     Lock: { icon: 'lock', color: 'text-gray-600 bg-gray-100', label: 'Khóa' },
+    Approve: { icon: 'task_alt', color: 'text-emerald-600 bg-emerald-50 dark:bg-emerald-900/20', label: 'Phê duyệt' },
+    Reject: { icon: 'block', color: 'text-red-600 bg-red-50 dark:bg-red-900/20', label: 'Từ chối' },
+    Restore: { icon: 'restore', color: 'text-lime-600 bg-lime-50 dark:bg-lime-900/20', label: 'Khôi phục' },
+};
+
+const ITEM_ACTION_BADGE: Record<AuditItemChange['action'], { label: string; color: string }> = {
+    AddItem: { label: 'Thêm', color: 'text-emerald-600 bg-emerald-50 dark:bg-emerald-900/20' },
+    RemoveItem: { label: 'Xóa', color: 'text-red-600 bg-red-50 dark:bg-red-900/20' },
+    Update: { label: 'Sửa', color: 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' },
 };
 
 export const AuditTimeline: React.FC<AuditTimelineProps> = ({ logs, className = '', onOpenRef }) => {
+    const { can } = useAppContext();
+    const [restoring, setRestoring] = useState<AuditLog | null>(null);
+
     if (!logs || logs.length === 0) {
         return (
             <div className="flex flex-col items-center justify-center py-12 text-slate-400">
@@ -37,22 +53,35 @@ export const AuditTimeline: React.FC<AuditTimelineProps> = ({ logs, className =
                 
                 // Diff rendering helper
                 const renderDiff = () => {
-                    if (!log.before || !log.after) return null;
-                    const keys = Object.keys(log.after);
-                    const changes = keys.filter(k => JSON.stringify(log.before[k]) !== JSON.stringify(log.after[k]));
-                    
-                    if (changes.length === 0) return null;
+                    const diff = getAuditDiff(log);
+                    if (!diff) return null;
+
+                    const renderChange = (change: AuditFieldChange, idx: number) => (
+                        <div key={idx} className="flex items-center text-[10px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 px-2 py-1 rounded-md max-w-full">
+                            <span className="font-bold text-slate-500 mr-1 uppercase">{change.field}:</span>
+                            <span className="line-through text-slate-400 mr-1 truncate">{formatAuditValue(change.before)}</span>
+                            <span className="material-symbols-outlined text-[10px] text-slate-300 mx-0.5">arrow_forward</span>
+                            <span className="font-bold text-slate-700 dark:text-slate-200 truncate">{formatAuditValue(change.after)}</span>
+                        </div>
+                    );
 
                     return (
-                        <div className="flex flex-wrap gap-2 mt-1.5">
-                            {changes.map((key, idx) => (
-                                <div key={idx} className="flex items-center text-[10px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 px-2 py-1 rounded-md">
-                                    <span className="font-bold text-slate-500 mr-1 uppercase">{key}:</span>
-                                    <span className="line-through text-slate-400 mr-1">{String(log.before[key])}</span>
-                                    <span className="material-symbols-outlined text-[10px] text-slate-300 mx-0.5">arrow_forward</span>
-                                    <span className="font-bold text-slate-700 dark:text-slate-200">{String(log.after[key])}</span>
-                                </div>
-                            ))}
+                        <div className="space-y-1.5 mt-1.5">
+                            {diff.fields.length > 0 && (
+                                <div className="flex flex-wrap gap-2">{diff.fields.map(renderChange)}</div>
+                            )}
+                            {diff.items.map(item => {
+                                const badge = ITEM_ACTION_BADGE[item.action];
+                                const line = item.after || item.before;
+                                return (
+                                    <div key={`${item.action}-${item.key}`} className="flex flex-wrap items-center gap-2">
+                                        <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded uppercase ${badge.color}`}>{badge.label}</span>
+                                        <span className="text-[11px] font-mono font-bold text-slate-600 dark:text-slate-300">{item.label}</span>
+                                        {line?.quantity !== undefined && <span className="text-[10px] text-slate-500">SL {line.quantity}</span>}
+                                        {item.fields?.map(renderChange)}
+                                    </div>
+                                );
+                            })}
                         </div>
                     );
                 };
@@ -85,6 +114,12 @@ export const AuditTimeline: React.FC<AuditTimelineProps> = ({ logs, className =
                             {/* Diff */}
                             {renderDiff()}
 
+                            {isRestorableLog(log) && can(RESTORE_TARGETS[log.entityType].permission) && (
+                                <button onClick={() => setRestoring(log)} className="self-start flex items-center gap-1 text-[10px] font-bold text-slate-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <span className="material-symbols-outlined text-[12px]">restore</span> Khôi phục phiên bản này
+                                </button>
+                            )}
+
                             {/* Tags */}
                             {log.tags && log.tags.length > 0 && (
                                 <div className="flex gap-1 mt-1">
@@ -97,6 +132,7 @@ export const AuditTimeline: React.FC<AuditTimelineProps> = ({ logs, className =
                     </div>
                 );
             })}
+            {restoring && <RestoreVersionModal log={restoring} onClose={() => setRestoring(null)} />}
         </div>
     );
 };
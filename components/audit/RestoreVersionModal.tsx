@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { AuditLog } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { buildRestorePreview, RestorePreview, RESTORE_TARGETS } from '../../services/restore';
+import { Button } from '../ui/Primitives';
+import { Modal } from '../ui/Modal';
+import { AuditDiffTable } from './AuditDiffTable';
+
+interface RestoreVersionModalProps {
+    log: AuditLog;
+    onClose: () => void;
+    onRestored?: () => void;
+}
+
+// Previews what rolling back to this entry would change before anything is written
+export const RestoreVersionModal: React.FC<RestoreVersionModalProps> = ({ log, onClose, onRestored }) => {
+    const { settings, restoreAuditVersion, showNotification } = useAppContext();
+    const [preview, setPreview] = useState<RestorePreview | null>(null);
+    const [error, setError] = useState('');
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        setPreview(null);
+        setError('');
+        buildRestorePreview(log, settings).then(setPreview).catch((e: Error) => setError(e.message));
+    }, [log.id]);
+
+    const handleRestore = async () => {
+        setIsRestoring(true);
+        try {
+            await restoreAuditVersion(log.id);
+            onRestored?.();
+            onClose();
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const target = RESTORE_TARGETS[log.entityType];
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title={`Khôi phục ${target?.label || log.entityType}${log.entityCode ? ` ${log.entityCode}` : ''}`}
+            subtitle={`Về phiên bản lúc ${new Date(log.createdAt).toLocaleString('vi-VN')} (${log.createdByName})`}
+            size="lg"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose} disabled={isRestoring}>Hủy</Button>
+                    <Button icon="restore" onClick={handleRestore} loading={isRestoring} disabled={!preview?.diff || isRestoring}>Khôi phục</Button>
+                </>
+            }
+        >
+            {error ? (
+                <p className="text-sm font-bold text-red-600 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 rounded-xl px-4 py-3">{error}</p>
+            ) : !preview ? (
+                <p className="text-sm text-slate-400 italic">Đang so sánh với dữ liệu hiện tại...</p>
+            ) : !preview.diff ? (
+                <p className="text-sm text-slate-400 italic">Phiên bản này trùng với dữ liệu hiện tại.</p>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-xs text-slate-500">Cột trái là dữ liệu hiện tại, cột phải là dữ liệu sau khi khôi phục. Tồn kho, giá vốn và công nợ luôn giữ nguyên.</p>
+                    <AuditDiffTable changes={preview.diff.fields} items={preview.diff.items} />
+                </div>
+            )}
+        </Modal>
+    );
+};
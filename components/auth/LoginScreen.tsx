@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../contexts/AppContext';
+import { Button } from '../ui/Primitives';
+import { FormField, FormInput } from '../ui/Form';
+
+// Covers three states: first run (create the administrator), login, and a locked session
+export const LoginScreen: React.FC = () => {
+    const { settings, hasUsers, isLocked, currentUser, login, logout, unlockScreen, setupAdmin } = useAppContext();
+    const [username, setUsername] = useState('');
+    const [name, setName] = useState('');
+    const [secret, setSecret] = useState('');
+    const [confirmSecret, setConfirmSecret] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const mode = !hasUsers ? 'setup' : isLocked ? 'locked' : 'login';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (mode === 'setup' && secret !== confirmSecret) {
+            setError('Mã PIN nhập lại không khớp.');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            if (mode === 'setup') await setupAdmin({ username, name, secret });
+            else if (mode === 'locked') await unlockScreen(secret);
+            else await login(username, secret);
+        } catch (err: any) {
+            setError(err.message);
+            setSecret('');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="flex h-screen w-full items-center justify-center bg-[#f8fafc] dark:bg-[#0b1121] p-4 font-sans">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-xl p-8 space-y-5">
+                <div className="text-center">
+                    <div className="size-14 mx-auto rounded-2xl bg-[#4A86BF] text-white flex items-center justify-center shadow-lg mb-3">
+                        <span className="material-symbols-outlined text-[28px]">{mode === 'locked' ? 'lock' : mode === 'setup' ? 'admin_panel_settings' : 'login'}</span>
+                    </div>
+                    <h1 className="text-lg font-black text-slate-900 dark:text-white">{settings.general.name}</h1>
+                    <p className="text-sm text-slate-500 mt-1">
+                        {mode === 'setup' && 'Tạo tài khoản quản trị đầu tiên'}
+                        {mode === 'login' && 'Đăng nhập để tiếp tục'}
+                        {mode === 'locked' && `Phiên của ${currentUser.name} đang khóa`}
+                    </p>
+                </div>
+
+                {mode !== 'locked' && (
+                    <FormField label="Tên đăng nhập" required>
+                        <FormInput value={username} onChange={e => setUsername(e.target.value)} autoFocus autoComplete="username" />
+                    </FormField>
+                )}
+                {mode === 'setup' && (
+                    <FormField label="Tên hiển thị">
+                        <FormInput value={name} onChange={e => setName(e.target.value)} placeholder="Nguyễn Văn A" />
+                    </FormField>
+                )}
+                <FormField label="Mã PIN / mật khẩu" required>
+                    <FormInput type="password" value={secret} onChange={e => setSecret(e.target.value)} autoFocus={mode === 'locked'} autoComplete={mode === 'setup' ? 'new-password' : 'current-password'} />
+                </FormField>
+                {mode === 'setup' && (
+                    <FormField label="Nhập lại mã PIN / mật khẩu" required>
+                        <FormInput type="password" value={confirmSecret} onChange={e => setConfirmSecret(e.target.value)} autoComplete="new-password" />
+                    </FormField>
+                )}
+
+                {error && <p className="text-xs font-bold text-red-600 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 rounded-lg px-3 py-2">{error}</p>}
+
+                <Button type="submit" className="w-full" loading={isSubmitting} disabled={!secret || (mode !== 'locked' && !username.trim())} icon={mode === 'locked' ? 'lock_open' : 'login'}>
+                    {mode === 'setup' ? 'Tạo tài khoản' : mode === 'locked' ? 'Mở khóa' : 'Đăng nhập'}
+                </Button>
+                {mode === 'locked' && (
+                    <button type="button" onClick={() => logout()} className="w-full text-xs font-bold text-slate-500 hover:text-blue-600">
+                        Đăng nhập bằng tài khoản khác
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+};
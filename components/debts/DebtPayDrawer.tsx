@@ -15,7 +15,7 @@ interface DebtPayDrawerProps {
 }
 
 export const DebtPayDrawer: React.FC<DebtPayDrawerProps> = ({ debtId, isOpen, onClose }) => {
-    const { addPaymentToDebt, showNotification } = useAppContext();
+    const { addPaymentToDebt, showNotification, can } = useAppContext();
     
     // Use useLiveQuery to get the specific debt record directly from Dexie
     const debt = useLiveQuery(() => debtId ? db.debtRecords.get(debtId) : undefined, [debtId]);
@@ -55,8 +55,8 @@ export const DebtPayDrawer: React.FC<DebtPayDrawerProps> = ({ debtId, isOpen, on
                 date: new Date(date).toLocaleDateString('en-GB') // Format DD/MM/YYYY for consistency
             });
             onClose();
-        } catch (error) {
-            showNotification('Có lỗi xảy ra', 'error');
+        } catch (error: any) {
+            showNotification(error.message || 'Có lỗi xảy ra', 'error');
         } finally {
             setIsSubmitting(false);
         }
@@ -78,7 +78,7 @@ export const DebtPayDrawer: React.FC<DebtPayDrawerProps> = ({ debtId, isOpen, on
                     className="w-full justify-center" 
                     onClick={handleSubmit} 
                     loading={isSubmitting}
-                    disabled={debt.remainingAmount <= 0}
+                    disabled={debt.remainingAmount <= 0 || !can('debts.pay')}
                     icon="check_circle"
                 >
                     Xác nhận thanh toán
@@ -545,7 +545,6 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, ini
         setIsSubmitting(true);
         try {
             await createImportOrder({
-                code: `PN-${Date.now().toString().slice(-6)}`,
                 supplierId: selectedSupplier.id, 
                 supplierName: selectedSupplier.name,
                 date: formatInputDate(importDate),
@@ -558,8 +557,8 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, ini
                 paymentMethod: paymentMethod
             });
             onClose();
-        } catch (error) {
-            showNotification('Có lỗi xảy ra', 'error');
+        } catch (error: any) {
+            showNotification(error.message || 'Có lỗi xảy ra', 'error');
         } finally {
             setIsSubmitting(false);
         }
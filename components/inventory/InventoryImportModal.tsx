@@ -5,7 +5,7 @@ import { Button } from '../ui/Primitives';
 import { FormField, FormSelect } from '../ui/Form';
 import { useAppContext } from '../../contexts/AppContext';
 import { parseCSV, parseExcel, SYSTEM_FIELDS, generateErrorCSV, ImportRowData } from '../../utils/importHelpers';
-import { downloadTextFile, formatCurrency, generateUUID, getCurrentDate } from '../../utils/helpers';
+import { downloadTextFile, formatCurrency, generateUUID, getCurrentDate, pickDesktopFiles } from '../../utils/helpers';
 import { WAREHOUSE_NAMES } from '../../constants/options';
 import { db } from '../../services/db';
 import { Product } from '../../types';
@@ -44,8 +44,19 @@ export const InventoryImportModal: React.FC<InventoryImportModalProps> = ({ isOp
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // --- STEP 1: UPLOAD ---
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
+    const handleChooseFile = async () => {
+        try {
+            const files = await pickDesktopFiles({ name: 'Excel/CSV', extensions: ['csv', 'xlsx', 'xls'] });
+            if (files) readImportFile(files[0]);
+            else fileInputRef.current?.click();
+        } catch (err: any) {
+            showNotification(err.message, 'error');
+        }
+    };
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => readImportFile(e.target.files?.[0]);
+
+    const readImportFile = (file?: File) => {
         if (!file) return;
 
         const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
@@ -236,7 +247,6 @@ export const InventoryImportModal: React.FC<InventoryImportModalProps> = ({ isOp
             const totalVal = importItems.reduce((sum, i) => sum + i.total, 0);
             
             await createImportOrder({
-                code: `IMP-${Date.now()}`,
                 supplierName: `Import File ${batchId.slice(0,6)}`,
                 date: getCurrentDate(),
                 total: totalVal,
@@ -259,10 +269,10 @@ export const InventoryImportModal: React.FC<InventoryImportModalProps> = ({ isOp
         }
     };
 
-    const handleDownloadErrors = () => {
+    const handleDownloadErrors = async () => {
         if (!fileData) return;
         const csvContent = generateErrorCSV(fileData.rows, errors);
-        downloadTextFile(`ImportErrors_${new Date().toISOString().slice(0,10)}.csv`, csvContent);
+        await downloadTextFile(`ImportErrors_${new Date().toISOString().slice(0,10)}.csv`, csvContent);
     };
 
     if (!isOpen) return null;
@@ -325,7 +335,7 @@ export const InventoryImportModal: React.FC<InventoryImportModalProps> = ({ isOp
 
                 {/* STEP 1: UPLOAD */}
                 {step === 'upload' && (
-                    <div className="flex flex-col items-center justify-center p-10 border-2 border-dashed border-slate-300 rounded-2xl bg-slate-50 hover:bg-slate-100 transition-colors cursor-pointer group" onClick={() => fileInputRef.current?.click()}>
+                    <div className="flex flex-col items-center justify-center p-10 border-2 border-dashed border-slate-300 rounded-2xl bg-slate-50 hover:bg-slate-100 transition-colors cursor-pointer group" onClick={handleChooseFile}>
                         <div className="size-16 rounded-full bg-white flex items-center justify-center shadow-sm mb-4 group-hover:scale-110 transition-transform">
                             <span className="material-symbols-outlined text-4xl text-blue-500">cloud_upload</span>
                         </div>
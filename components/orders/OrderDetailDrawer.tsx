@@ -8,6 +8,7 @@ import { Button } from '../ui/Primitives';
 import { DetailSkeleton } from '../ui/Skeleton';
 import StatusBadge from '../StatusBadge';
 import { formatCurrency } from '../../utils/helpers';
+import { emptyMarginTally, marginProfit, tallyOrderMargin } from '../../services/costing';
 import { AuditTimeline } from '../audit/AuditTimeline';
 import { useAppContext } from '../../contexts/AppContext';
 
@@ -24,6 +25,7 @@ interface OrderDetailDrawerProps {
   onAction: (id: string, status: OrderStatus) => void;
   onDelete: (id: string) => void;
   onLock: () => void;
+  onUnlock?: () => void;
   // Data
   relatedDeliveries?: DeliveryNote[];
   relatedReturns?: ReturnNote[];
@@ -31,10 +33,10 @@ interface OrderDetailDrawerProps {
 
 export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
   order, isOpen, isLoading = false, onClose,
-  onPrint, onDelivery, onPayment, onReturn, onAction, onDelete, onLock,
+  onPrint, onDelivery, onPayment, onReturn, onAction, onDelete, onLock, onUnlock,
   relatedDeliveries = [], relatedReturns = []
 }) => {
-  const { confirm } = useAppContext();
+  const { confirm, can, currentUser } = useAppContext();
   const [activeTab, setActiveTab] = useState<'info' | 'history'>('info');
 
   const auditLogs = useLiveQuery(async () => {
@@ -65,9 +67,12 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
   const isCompleted = order.status === 'Completed';
   const isShipping = order.status === 'Shipping';
   const hasDelivery = relatedDeliveries && relatedDeliveries.length > 0;
+  const isFullyReturned = order.fulfillmentStatus === 'Returned';
 
   const amountPaid = order.amountPaid || 0;
-  const remaining = Math.max(0, order.total - amountPaid);
+  const returnedAmount = order.returnedAmount || 0;
+  const margin = tallyOrderMargin(emptyMarginTally(), order);
+  const remaining = Math.max(0, order.total - returnedAmount - amountPaid);
 
   const handleCompleteOrder = async () => {
       const ok = await confirm({
@@ -117,8 +122,8 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
                         {isShipping ? 'Giao thêm' : 'Giao hàng'}
                     </Button>
                 )}
-                {(isCompleted || order.status === 'Shipping') && (
-                    <Button variant="secondary" icon="keyboard_return" onClick={onReturn} className="flex-1 text-red-600 hover:bg-red-50">Trả hàng</Button>
+                {(isCompleted || order.status === 'Shipping') && !isFullyReturned && (
+                    <Button variant="secondary" icon="keyboard_return" onClick={onReturn} disabled={isLocked} className="flex-1 text-red-600 hover:bg-red-50">Trả hàng</Button>
                 )}
             </div>
             {!isCancelled && (
@@ -145,11 +150,15 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
       <div className="flex justify-between items-start mb-6">
           <div className="flex items-center gap-3">
               <StatusBadge status={order.status} entityType="Order" size="md" />
+              {(order.fulfillmentStatus === 'PartiallyReturned' || isFullyReturned) && <StatusBadge status={order.fulfillmentStatus} entityType="Fulfillment" size="md" />}
               {isLocked && <span className="bg-red-50 text-red-600 px-2 py-1 rounded text-[10px] font-bold border border-red-100 flex items-center gap-1"><span className="material-symbols-outlined text-[12px]">lock</span> Đã khóa</span>}
           </div>
           {!isLocked && !isCancelled && (
               <Button variant="ghost" size="sm" onClick={onLock} icon="lock" title="Khóa đơn hàng" className="text-slate-400 hover:text-red-500 hover:bg-red-50">Khóa</Button>
           )}
+          {isLocked && onUnlock && can('documents.lock') && currentUser.role === 'admin' && (
+              <Button variant="ghost" size="sm" onClick={onUnlock} icon="lock_open" title="Mở khóa đơn hàng" className="text-slate-400 hover:text-amber-600 hover:bg-amber-50">Mở khóa</Button>
+          )}
       </div>
 
       {/* Tabs */}
@@ -224,6 +233,28 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
                     </DrawerSection>
                 )}
 
+                {/* 2.6 Related Returns */}
+                {relatedReturns.length > 0 && (
+                    <DrawerSection title="Phiếu trả hàng" action={<span className="text-[10px] font-bold text-red-500">-{formatCurrency(returnedAmount)}</span>}>
+                        <div className="space-y-2">
+                            {relatedReturns.map(rn => (
+                                <div key={rn.id} className="flex justify-between items-center p-3 bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 rounded-xl">
+                                    <div className="flex items-center gap-3">
+                                        <div className="size-8 rounded-lg bg-red-100 dark:bg-red-800 flex items-center justify-center text-red-600 dark:text-red-300">
+                                            <span className="material-symbols-outlined text-[18px]">assignment_return</span>
+                                        </div>
+                                        <div>
+                                            <p className="font-bold text-sm text-slate-900 dark:text-white">{rn.code}</p>
+                                            <p className="text-[10px] text-slate-500">{rn.date} • {rn.items.reduce((sum, i) => sum + i.quantity, 0)} SP • {rn.method === 'debt_deduction' ? 'Trừ công nợ' : rn.method === 'transfer' ? 'Chuyển khoản' : 'Tiền mặt'}</p>
+                                        </div>
+                                    </div>
+                                    <span className="font-bold text-sm text-red-600">{formatCurrency(rn.refundAmount)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </DrawerSection>
+                )}
+
                 {/* 3. Items Table */}
                 <DrawerSection title="Chi tiết đơn hàng" action={<span className="text-[10px] font-bold text-slate-400 bg-slate-100 dark:bg-slate-700 px-2 py-0.5 rounded">{order.items.length} SP</span>}>
                     <div className="rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden bg-white dark:bg-slate-800">
@@ -243,7 +274,10 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
                                             <div className="font-medium text-slate-900 dark:text-white truncate max-w-[180px]" title={item.productName}>{item.productName}</div>
                                             <div className="text-[10px] text-slate-400 font-mono">{item.sku}</div>
                                         </td>
-                                        <td className="px-3 py-2 text-center font-bold">{item.quantity}</td>
+                                        <td className="px-3 py-2 text-center font-bold">
+                                            {item.quantity}
+                                            {!!item.returnedQuantity && <div className="text-[10px] font-bold text-red-500">Trả {item.returnedQuantity}</div>}
+                                        </td>
                                         <td className="px-3 py-2 text-right text-slate-500">{formatCurrency(item.price)}</td>
                                         <td className="px-3 py-2 text-right font-bold text-slate-900 dark:text-white">{formatCurrency(item.total)}</td>
                                     </tr>
@@ -254,13 +288,22 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
                                     <td colSpan={3} className="px-3 py-2 text-right text-xs font-bold text-slate-500 uppercase">Tổng cộng</td>
                                     <td className="px-3 py-2 text-right font-black text-blue-600 text-base">{formatCurrency(order.total)}</td>
                                 </tr>
+                                {order.items.some(i => i.costPrice !== undefined) && (
+                                    <tr>
+                                        <td colSpan={3} className="px-3 py-1 text-right text-[10px] font-bold text-slate-400 uppercase">Lãi gộp (trước VAT)</td>
+                                        <td className="px-3 py-1 text-right text-xs font-bold text-emerald-600">
+                                            {formatCurrency(marginProfit(margin))}
+                                            {margin.uncostedLines > 0 && <div className="text-[10px] font-bold text-amber-500">{margin.uncostedLines} dòng thiếu giá vốn</div>}
+                                        </td>
+                                    </tr>
+                                )}
                             </tfoot>
                         </table>
                     </div>
                 </DrawerSection>
 
                 {/* Danger Zone */}
-                {!isCancelled && (
+                {!isCancelled && !isLocked && can('orders.cancel') && (
                     <div className="mt-8 pt-6 border-t border-slate-200 dark:border-slate-700">
                         <h4 className="text-[10px] font-black text-red-500 uppercase tracking-widest mb-3 flex items-center gap-2">
                             <span className="material-symbols-outlined text-[16px]">warning</span> Khu vực nguy hiểm
@@ -273,7 +316,7 @@ export const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({
                         >
                             Hủy đơn hàng này
                         </Button>
-                        <p className="text-[10px] text-slate-400 mt-2 text-center">Hành động này sẽ hoàn trả tồn kho và hủy công nợ liên quan.</p>
+                        <p className="text-[10px] text-slate-400 mt-2 text-center">Hành động này sẽ hoàn trả tồn kho, hủy công nợ liên quan và hoàn lại số tiền khách đã thanh toán.</p>
                     </div>
                 )}
           </div>
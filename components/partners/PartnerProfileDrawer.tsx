@@ -52,7 +52,7 @@ export const PartnerProfileDrawer: React.FC<Props> = ({ partnerId, isOpen, onClo
     const relatedTransactions = useLiveQuery(async () => {
         if (!partner) return [];
         return db.transactions
-            .filter(t => t.partnerName === partner.name)
+            .filter(t => t.partnerName === partner.name && !t.isDeleted)
             .reverse()
             .limit(50)
             .toArray();
@@ -156,6 +156,15 @@ export const PartnerProfileDrawer: React.FC<Props> = ({ partnerId, isOpen, onClo
             <div className="pb-4 min-h-[300px]">
                 {activeTab === 'overview' && (
                     <div className="space-y-6">
+                        {(partner.creditBalance || 0) > 0 && (
+                            <div className="flex justify-between items-center p-3 bg-emerald-50 dark:bg-emerald-900/10 border border-emerald-100 dark:border-emerald-900/30 rounded-xl">
+                                <span className="text-xs font-bold text-emerald-700 dark:text-emerald-400 flex items-center gap-1">
+                                    <span className="material-symbols-outlined text-[16px]">account_balance_wallet</span>
+                                    Số dư trả trước
+                                </span>
+                                <span className="text-sm font-black text-emerald-700 dark:text-emerald-400">{formatCurrency(partner.creditBalance)}</span>
+                            </div>
+                        )}
                         <DrawerSection title="Ghi chú">
                             <p className="text-sm text-slate-600 dark:text-slate-300 italic bg-slate-50 dark:bg-slate-800 p-3 rounded-lg border border-slate-100 dark:border-slate-700">
                                 Chưa có ghi chú đặc biệt cho đối tác này.
@@ -24,7 +24,8 @@ export const PrintPreviewModal: React.FC<Props> = ({ isOpen, onClose, title, fil
 
     const handlePrint = () => {
         document.title = filename; // Set filename for "Save as PDF"
-        window.print();
+        if (window.erpDesktop) window.erpDesktop.print();
+        else window.print();
     };
 
     const handleDownloadPdf = async () => {
@@ -10,6 +10,7 @@ import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { PrintPreviewModal } from '../print/PrintPreviewModal';
 import { StockCardTemplate } from '../print/Templates';
 import { useAppContext } from '../../contexts/AppContext';
+import { getProductReservations } from '../../services/reservations';
 
 interface Props {
     productId: string | null;
@@ -35,6 +36,14 @@ export const ProductDetailDrawer: React.FC<Props> = ({ productId, isOpen, onClos
         productId ? db.inventoryLogs.where('productId').equals(productId).sortBy('timestamp') : []
     , [productId]);
 
+    const reservations = useLiveQuery(() =>
+        productId ? getProductReservations(productId) : []
+    , [productId]);
+
+    const costHistory = useLiveQuery(() =>
+        productId ? db.costHistory.where('productId').equals(productId).reverse().sortBy('timestamp') : []
+    , [productId]);
+
     // --- LOGIC: Process logs for Chart & Stock Card ---
     // MOVED UP: Must be before conditional return to satisfy React Hooks rules
     const stockData = useMemo(() => {
@@ -149,7 +158,7 @@ export const ProductDetailDrawer: React.FC<Props> = ({ productId, isOpen, onClos
                         <p className="text-xl font-black text-blue-600 dark:text-blue-400">{formatCurrency(product.retailPrice)}</p>
                     </div>
                     <div className="p-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-100 dark:border-slate-700">
-                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Giá vốn</p>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Giá vốn (bình quân)</p>
                         <p className="text-xl font-bold text-slate-700 dark:text-slate-300">{formatCurrency(product.importPrice)}</p>
                     </div>
                 </div>
@@ -214,6 +223,38 @@ export const ProductDetailDrawer: React.FC<Props> = ({ productId, isOpen, onClos
                                 </div>
                             </div>
                         </DrawerSection>
+                        {reservations && reservations.length > 0 && (
+                            <DrawerSection title="Đang giữ hàng cho">
+                                <div className="space-y-2 text-xs">
+                                    {reservations.map(r => (
+                                        <div key={`${r.type}-${r.id}`} className="flex justify-between items-center py-1.5 border-b border-slate-100 dark:border-slate-800">
+                                            <div>
+                                                <span className="font-bold text-slate-700 dark:text-slate-200">{r.code}</span>
+                                                <span className="text-slate-400 ml-2">{r.type === 'Order' ? 'Đơn hàng' : 'Báo giá'} • {r.partnerName} • {r.date}</span>
+                                            </div>
+                                            <span className="font-bold text-orange-600">{r.quantity}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </DrawerSection>
+                        )}
+                        {costHistory && costHistory.length > 0 && (
+                            <DrawerSection title="Lịch sử giá vốn">
+                                <div className="space-y-2 text-xs">
+                                    {costHistory.slice(0, 10).map(c => (
+                                        <div key={c.id} className="flex justify-between items-center py-1.5 border-b border-slate-100 dark:border-slate-800">
+                                            <div>
+                                                <span className="font-bold text-slate-700 dark:text-slate-200">{c.type === 'receipt' ? 'Nhập hàng' : c.type === 'purchase_return' ? 'Trả NCC' : c.type === 'sale_return' ? 'Khách trả' : 'Điều chỉnh'}</span>
+                                                <span className="text-slate-400 ml-2">{c.date} {c.referenceCode && `• ${c.referenceCode}`}</span>
+                                            </div>
+                                            <span className="font-mono text-slate-600 dark:text-slate-300">
+                                                {formatCurrency(c.oldAvgCost)} → <span className="font-bold">{formatCurrency(c.newAvgCost)}</span>
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </DrawerSection>
+                        )}
                     </div>
                 )}
 
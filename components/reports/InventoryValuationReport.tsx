@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { getInventoryValuation, ValuationRow } from '../../services/costLayers';
+import { formatCurrency, parseISOToDate, toCSV, downloadTextFile } from '../../utils/helpers';
+import { Button } from '../ui/Primitives';
+
+interface InventoryValuationReportProps {
+    asOfDate: string; // YYYY-MM-DD, valued at end of day
+}
+
+export const InventoryValuationReport: React.FC<InventoryValuationReportProps> = ({ asOfDate }) => {
+    const [data, setData] = useState<{ rows: ValuationRow[]; totalFifo: number; totalAvg: number } | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setIsLoading(true);
+            const asOf = parseISOToDate(asOfDate) || new Date();
+            asOf.setHours(23, 59, 59, 999);
+            const result = await getInventoryValuation(asOf.getTime());
+            if (!cancelled) {
+                setData(result);
+                setIsLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [asOfDate]);
+
+    const handleExport = async () => {
+        if (!data) return;
+        const rows = data.rows.map(r => ({
+            sku: r.sku, name: r.name, quantity: r.quantity,
+            avgUnitCost: r.avgUnitCost, avgValue: r.avgValue,
+            fifoValue: r.fifoValue, diff: r.fifoValue - r.avgValue
+        }));
+        const headers = [
+            { key: 'sku', label: 'Mã SP' }, { key: 'name', label: 'Tên sản phẩm' }, { key: 'quantity', label: 'Tồn' },
+            { key: 'avgUnitCost', label: 'Giá vốn BQ' }, { key: 'avgValue', label: 'Giá trị BQ' },
+            { key: 'fifoValue', label: 'Giá trị FIFO' }, { key: 'diff', label: 'Chênh lệch' }
+        ];
+        await downloadTextFile(`DinhGiaTonKho_${asOfDate}.csv`, toCSV(rows, headers));
+    };
+
+    const diff = data ? data.totalFifo - data.totalAvg : 0;
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h3 className="font-bold text-slate-900 dark:text-white">Định giá tồn kho: FIFO & Bình quân</h3>
+                    <p className="text-xs text-slate-500 mt-0.5">Tại thời điểm cuối ngày {asOfDate.split('-').reverse().join('/')}</p>
+                </div>
+                <Button variant="outline" size="sm" icon="download" onClick={handleExport} disabled={!data || data.rows.length === 0}>Xuất CSV</Button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-4">
+                <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Bình quân</p>
+                    <p className="text-lg font-black text-slate-900 dark:text-white">{formatCurrency(data?.totalAvg)}</p>
+                </div>
+                <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">FIFO</p>
+                    <p className="text-lg font-black text-slate-900 dark:text-white">{formatCurrency(data?.totalFifo)}</p>
+                </div>
+                <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Chênh lệch (FIFO - BQ)</p>
+                    <p className={`text-lg font-black ${diff >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatCurrency(diff)}</p>
+                </div>
+            </div>
+
+            <div className="max-h-[400px] overflow-y-auto custom-scrollbar border border-slate-100 dark:border-slate-700 rounded-xl">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-900/50 text-[10px] font-bold text-slate-500 uppercase sticky top-0">
+                        <tr>
+                            <th className="px-4 py-2 text-left">Sản phẩm</th>
+                            <th className="px-4 py-2 text-center w-20">Tồn</th>
+                            <th className="px-4 py-2 text-right">Giá trị BQ</th>
+                            <th className="px-4 py-2 text-right">Giá trị FIFO</th>
+                            <th className="px-4 py-2 text-right">Chênh lệch</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {data?.rows.map(r => (
+                            <React.Fragment key={r.productId}>
+                                <tr className="hover:bg-slate-50 dark:hover:bg-slate-700/30 cursor-pointer" onClick={() => setExpandedId(expandedId === r.productId ? null : r.productId)}>
+                                    <td className="px-4 py-2">
+                                        <div className="font-medium text-slate-900 dark:text-white truncate max-w-[240px]" title={r.name}>{r.name}</div>
+                                        <div className="text-[10px] text-slate-400 font-mono">{r.sku} • {r.layers.length} lớp giá</div>
+                                    </td>
+                                    <td className="px-4 py-2 text-center font-bold">{r.quantity}</td>
+                                    <td className="px-4 py-2 text-right">{formatCurrency(r.avgValue)}</td>
+                                    <td className="px-4 py-2 text-right">{formatCurrency(r.fifoValue)}</td>
+                                    <td className={`px-4 py-2 text-right font-bold ${r.fifoValue - r.avgValue >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatCurrency(r.fifoValue - r.avgValue)}</td>
+                                </tr>
+                                {expandedId === r.productId && r.layers.map((l, idx) => (
+                                    <tr key={idx} className="bg-slate-50/50 dark:bg-slate-900/30 text-xs text-slate-500">
+                                        <td className="px-8 py-1.5">{l.date} • {l.source === 'opening' ? 'Tồn đầu' : l.source === 'receipt' ? 'Nhập hàng' : l.source === 'return' ? 'Khách trả' : 'Điều chỉnh'} {l.referenceCode && `• ${l.referenceCode}`}</td>
+                                        <td className="px-4 py-1.5 text-center">{l.remaining}</td>
+                                        <td className="px-4 py-1.5 text-right" colSpan={2}>{formatCurrency(l.unitCost)} / ĐV</td>
+                                        <td className="px-4 py-1.5 text-right">{formatCurrency(l.remaining * l.unitCost)}</td>
+                                    </tr>
+                                ))}
+                            </React.Fragment>
+                        ))}
+                        {!isLoading && data?.rows.length === 0 && (
+                            <tr><td colSpan={5} className="p-6 text-center text-slate-400 text-xs">Không có tồn kho tại thời điểm này</td></tr>
+                        )}
+                        {isLoading && (
+                            <tr><td colSpan={5} className="p-6 text-center text-slate-400 text-xs">Đang tính toán...</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
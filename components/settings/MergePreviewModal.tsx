@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { BackupData } from '../../types';
+import { MergePolicy, MergeResolution, MergeStatus, MergeTable, MergeTablePreview, previewMerge } from '../../services/backup';
+import { Button } from '../ui/Primitives';
+import { FormSelect } from '../ui/Form';
+import { Modal } from '../ui/Modal';
+
+interface MergePreviewModalProps {
+    backup: BackupData;
+    onClose: () => void;
+    onConfirm: (resolution: MergeResolution) => void;
+}
+
+const TABLE_LABELS: Record<MergeTable, string> = {
+    products: 'Sản phẩm', partners: 'Đối tác', orders: 'Đơn hàng', quotes: 'Báo giá', importOrders: 'Phiếu nhập',
+    debtRecords: 'Công nợ', transactions: 'Thu chi', inventoryLogs: 'Thẻ kho', deliveryNotes: 'Phiếu giao hàng',
+    settings: 'Cài đặt', returnNotes: 'Phiếu trả hàng', purchaseReturnNotes: 'Phiếu trả NCC', receivingNotes: 'Phiếu nhận hàng',
+    costHistory: 'Lịch sử giá vốn', costLayers: 'Lớp giá vốn', aiCache: 'Bộ nhớ đệm AI', approvals: 'Yêu cầu duyệt',
+    users: 'Tài khoản',
+};
+
+const STATUS_LABELS: Record<MergeStatus, { label: string; className: string }> = {
+    new: { label: 'Mới', className: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+    identical: { label: 'Giống nhau', className: 'bg-slate-50 text-slate-500 border-slate-200' },
+    newerInBackup: { label: 'Bản sao lưu mới hơn', className: 'bg-blue-50 text-blue-600 border-blue-100' },
+    newerLocally: { label: 'Dữ liệu hiện tại mới hơn', className: 'bg-orange-50 text-orange-600 border-orange-100' },
+};
+
+const POLICY_LABELS: Record<MergePolicy, string> = {
+    newest: 'Giữ bản mới nhất',
+    local: 'Giữ dữ liệu hiện tại',
+    backup: 'Lấy từ bản sao lưu',
+};
+
+const formatTime = (at?: number) => at ? new Date(at).toLocaleString('vi-VN') : '—';
+
+// Dry run of a merge restore: shows how every table compares with the live data and lets each conflict be settled
+export const MergePreviewModal: React.FC<MergePreviewModalProps> = ({ backup, onClose, onConfirm }) => {
+    const [previews, setPreviews] = useState<MergeTablePreview[] | null>(null);
+    const [error, setError] = useState('');
+    const [expanded, setExpanded] = useState<MergeTable | null>(null);
+    const [resolution, setResolution] = useState<MergeResolution>({ policies: {}, decisions: {} });
+
+    useEffect(() => {
+        previewMerge(backup).then(setPreviews).catch(e => setError(e.message || 'Không thể so sánh dữ liệu.'));
+    }, [backup]);
+
+    const setPolicy = (table: MergeTable, policy: MergePolicy) =>
+        setResolution(prev => ({ ...prev, policies: { ...prev.policies, [table]: policy } }));
+
+    const setDecision = (table: MergeTable, key: string, choice: 'local' | 'backup') =>
+        setResolution(prev => ({ ...prev, decisions: { ...prev.decisions, [table]: { ...prev.decisions[table], [key]: choice } } }));
+
+    // Mirrors how the restore settles a conflict, so the toggles show what will actually be kept
+    const resolvedChoice = (table: MergeTable, key: string, status: MergeStatus) => {
+        const decision = resolution.decisions[table]?.[key];
+        if (decision) return decision;
+        const policy = resolution.policies[table] || 'newest';
+        if (policy !== 'newest') return policy;
+        return status === 'newerInBackup' ? 'backup' : 'local';
+    };
+
+    const totalConflicts = (previews || []).reduce((sum, p) => sum + p.conflicts.length, 0);
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title="Hợp nhất bản sao lưu"
+            subtitle={`Bản sao lưu lúc ${formatTime(backup.metadata.exportedAt)}`}
+            size="xl"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Hủy</Button>
+                    <Button icon="merge" onClick={() => onConfirm(resolution)} disabled={!previews}>Hợp nhất</Button>
+                </>
+            }
+        >
+            {error ? (
+                <p className="text-sm font-bold text-red-600 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 rounded-xl px-4 py-3">{error}</p>
+            ) : !previews ? (
+                <p className="text-sm text-slate-500 text-center py-8">Đang so sánh với dữ liệu hiện tại...</p>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-xs text-slate-500">
+                        Bản ghi mới luôn được thêm, bản ghi giống nhau được bỏ qua. {totalConflicts > 0 ? `${totalConflicts} bản ghi khác nhau cần chọn cách xử lý.` : 'Không có bản ghi nào xung đột.'}
+                    </p>
+                    {previews.map(preview => {
+                        const isExpanded = expanded === preview.table;
+                        return (
+                            <div key={preview.table} className="rounded-xl border border-slate-200 dark:border-slate-700">
+                                <div className="p-3 flex flex-wrap items-center gap-3">
+                                    <p className="text-sm font-bold text-slate-800 dark:text-white w-40">{TABLE_LABELS[preview.table]}</p>
+                                    <div className="flex flex-wrap gap-1.5 flex-1">
+                                        {(Object.keys(STATUS_LABELS) as MergeStatus[]).filter(s => preview.counts[s] > 0).map(status => (
+                                            <span key={status} className={`px-2 py-0.5 rounded text-[10px] font-bold border ${STATUS_LABELS[status].className}`}>
+                                                {STATUS_LABELS[status].label}: {preview.counts[status]}
+                                            </span>
+                                        ))}
+                                    </div>
+                                    {preview.conflicts.length > 0 && (
+                                        <>
+                                            <FormSelect
+                                                value={resolution.policies[preview.table] || 'newest'}
+                                                onChange={e => setPolicy(preview.table, e.target.value as MergePolicy)}
+                                                className="w-48"
+                                            >
+                                                {(Object.keys(POLICY_LABELS) as MergePolicy[]).map(p => <option key={p} value={p}>{POLICY_LABELS[p]}</option>)}
+                                            </FormSelect>
+                                            <Button variant="ghost" size="sm" icon={isExpanded ? 'expand_less' : 'expand_more'} onClick={() => setExpanded(isExpanded ? null : preview.table)}>
+                                                Từng bản ghi
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                                {isExpanded && (
+                                    <div className="border-t border-slate-100 dark:border-slate-700/50 max-h-72 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700/50">
+                                        {preview.conflicts.map(record => {
+                                            const choice = resolvedChoice(preview.table, record.key, record.status);
+                                            return (
+                                                <div key={record.key} className="px-3 py-2 flex items-center gap-3">
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{record.label}</p>
+                                                        <p className="text-[10px] text-slate-500">Hiện tại: {formatTime(record.localAt)} · Sao lưu: {formatTime(record.backupAt)}</p>
+                                                    </div>
+                                                    <div className="flex bg-slate-100 dark:bg-slate-800 p-0.5 rounded-lg">
+                                                        {(['local', 'backup'] as const).map(option => (
+                                                            <button
+                                                                key={option}
+                                                                onClick={() => setDecision(preview.table, record.key, option)}
+                                                                className={`px-2.5 py-1 rounded-md text-[11px] font-bold transition-all ${choice === option ? 'bg-white dark:bg-slate-700 shadow text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                                                            >
+                                                                {option === 'local' ? 'Giữ hiện tại' : 'Lấy sao lưu'}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </Modal>
+    );
+};
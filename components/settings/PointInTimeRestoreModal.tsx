@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { BackupData } from '../../types';
+import { composeBackupChain } from '../../services/backup';
+import { Button } from '../ui/Primitives';
+import { Modal } from '../ui/Modal';
+
+interface PointInTimeRestoreModalProps {
+    backups: BackupData[];
+    onClose: () => void;
+    onConfirm: (data: BackupData, acceptUnverifiedHistory: boolean) => void;
+}
+
+const countRows = (backup: BackupData) =>
+    Object.entries(backup.data).reduce((sum, [key, rows]) => sum + (key !== 'auditArchive' && key !== 'tombstones' && Array.isArray(rows) ? rows.length : 0), 0);
+
+const countTombstones = (backup: BackupData) =>
+    Object.values(backup.data.tombstones || {}).reduce((sum, keys) => sum + keys.length, 0);
+
+// Picks the point to roll back to from a set of full and incremental backup files
+export const PointInTimeRestoreModal: React.FC<PointInTimeRestoreModalProps> = ({ backups, onClose, onConfirm }) => {
+    const points = useMemo(() => [...backups].sort((a, b) => b.metadata.exportedAt - a.metadata.exportedAt), [backups]);
+    const [upTo, setUpTo] = useState(points[0]?.metadata.exportedAt ?? 0);
+    const [acceptUnverified, setAcceptUnverified] = useState(false);
+
+    const result = useMemo(() => {
+        try {
+            return { data: composeBackupChain(backups, upTo) };
+        } catch (e: any) {
+            return { error: e.message as string };
+        }
+    }, [backups, upTo]);
+    const unverified = result.data?.metadata.unverifiedAuditLogs || 0;
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title="Khôi phục theo thời điểm"
+            subtitle={`${backups.length} tệp sao lưu`}
+            size="lg"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Hủy</Button>
+                    <Button icon="history" onClick={() => result.data && onConfirm(result.data, acceptUnverified)} disabled={!result.data || (unverified > 0 && !acceptUnverified)}>Khôi phục (Ghi đè)</Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <div className="space-y-2">
+                    {points.map(point => {
+                        const isIncremental = point.metadata.kind === 'incremental';
+                        const isSelected = point.metadata.exportedAt === upTo;
+                        return (
+                            <label key={point.metadata.backupId || point.metadata.exportedAt} className={`p-3 rounded-xl border flex items-center gap-3 cursor-pointer transition-colors ${isSelected ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-slate-300'}`}>
+                                <input type="radio" checked={isSelected} onChange={() => setUpTo(point.metadata.exportedAt)} />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-bold text-slate-800 dark:text-white">{new Date(point.metadata.exportedAt).toLocaleString('vi-VN')}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {isIncremental ? `${countRows(point)} bản ghi thay đổi, ${countTombstones(point)} bản ghi bị xóa` : `${countRows(point)} bản ghi`}
+                                    </p>
+                                </div>
+                                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${isIncremental ? 'bg-slate-50 text-slate-600 border-slate-200' : 'bg-emerald-50 text-emerald-600 border-emerald-100'}`}>
+                                    {isIncremental ? 'Gia tăng' : 'Đầy đủ'}
+                                </span>
+                            </label>
+                        );
+                    })}
+                </div>
+                {result.error ? (
+                    <p className="text-sm font-bold text-red-600 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 rounded-xl px-4 py-3">{result.error}</p>
+                ) : (
+                    <p className="text-xs text-slate-500">Dữ liệu hiện tại sẽ được thay bằng trạng thái lúc {new Date(upTo).toLocaleString('vi-VN')} ({countRows(result.data!)} bản ghi).</p>
+                )}
+                {unverified > 0 && (
+                    <label className="flex items-start gap-2 cursor-pointer">
+                        <input type="checkbox" checked={acceptUnverified} onChange={e => setAcceptUnverified(e.target.checked)} className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500" />
+                        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">{unverified} nhật ký hoạt động từ trước khi có chuỗi băm không thể xác minh. Tôi chấp nhận lịch sử chưa được xác minh; việc khôi phục sẽ được ghi vào nhật ký.</span>
+                    </label>
+                )}
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../services/db';
+import { AppSettings, AppUser, Permission, UserRole } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { ALL_PERMISSIONS, PERMISSION_LABELS, ROLE_LABELS, getRolePermissions } from '../../services/auth';
+import { Button, Badge } from '../ui/Primitives';
+import { Modal } from '../ui/Modal';
+import { FormField, FormInput, FormSelect } from '../ui/Form';
+
+interface UserManagementProps {
+    // Permission matrix and auto-lock go through the normal settings save bar
+    settings: AppSettings;
+    onChange: (security: NonNullable<AppSettings['security']>) => void;
+}
+
+type EditorState =
+    | { mode: 'create' }
+    | { mode: 'secret'; user: AppUser };
+
+export const UserManagement: React.FC<UserManagementProps> = ({ settings, onChange }) => {
+    const { currentUser, can, createUserAccount, updateUserAccount, showNotification } = useAppContext();
+    const users = useLiveQuery(() => db.users.orderBy('username').toArray(), []) || [];
+    const canManage = can('users.manage');
+
+    const [editor, setEditor] = useState<EditorState | null>(null);
+    const [form, setForm] = useState({ username: '', name: '', role: 'staff' as UserRole, secret: '' });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const security = settings.security || {};
+    const staffPermissions = getRolePermissions('staff', settings);
+
+    const openEditor = (state: EditorState) => {
+        setForm({ username: '', name: '', role: 'staff', secret: '' });
+        setEditor(state);
+    };
+
+    const run = async (action: () => Promise<void>) => {
+        try {
+            await action();
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!editor) return;
+        setIsSubmitting(true);
+        try {
+            if (editor.mode === 'create') await createUserAccount(form);
+            else await updateUserAccount(editor.user.id, { secret: form.secret });
+            setEditor(null);
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const toggleStaffPermission = (permission: Permission) => {
+        const next = staffPermissions.includes(permission)
+            ? staffPermissions.filter(p => p !== permission)
+            : [...staffPermissions, permission];
+        onChange({ ...security, rolePermissions: { ...security.rolePermissions, staff: ALL_PERMISSIONS.filter(p => next.includes(p)) } });
+    };
+
+    const self = users.find(u => u.id === currentUser.id);
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField label="Tên hiển thị của bạn">
+                    <FormInput
+                        key={self?.updatedAt}
+                        defaultValue={currentUser.name}
+                        onBlur={e => e.target.value.trim() !== currentUser.name && run(() => updateUserAccount(currentUser.id, { name: e.target.value }))}
+                    />
+                </FormField>
+                <FormField label="Tự động khóa màn hình (phút)">
+                    <FormInput
+                        type="number"
+                        min={0}
+                        value={security.autoLockMinutes ?? 15}
+                        onChange={e => onChange({ ...security, autoLockMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                        disabled={!can('settings.edit')}
+                    />
+                    <p className="text-[10px] text-slate-500 mt-1">Nhập 0 để tắt tự động khóa.</p>
+                </FormField>
+            </div>
+            {self && <Button variant="outline" size="sm" icon="password" onClick={() => openEditor({ mode: 'secret', user: self })}>Đổi mã PIN của tôi</Button>}
+
+            {canManage && (
+                <>
+                    <div>
+                        <div className="flex items-center justify-between mb-3">
+                            <h4 className="text-sm font-bold text-slate-900 dark:text-white">Tài khoản ({users.length})</h4>
+                            <Button size="sm" icon="person_add" onClick={() => openEditor({ mode: 'create' })}>Thêm người dùng</Button>
+                        </div>
+                        <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-xl">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-50 dark:bg-slate-800/50 text-[10px] uppercase text-slate-500">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left">Tài khoản</th>
+                                        <th className="px-4 py-2 text-left">Vai trò</th>
+                                        <th className="px-4 py-2 text-left">Đăng nhập gần nhất</th>
+                                        <th className="px-4 py-2 text-right">Thao tác</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                    {users.map(user => (
+                                        <tr key={user.id} className={user.isActive ? '' : 'opacity-50'}>
+                                            <td className="px-4 py-2">
+                                                <p className="font-bold text-slate-900 dark:text-white">{user.name}</p>
+                                                <p className="text-xs font-mono text-slate-500">{user.username}</p>
+                                            </td>
+                                            <td className="px-4 py-2">
+                                                <FormSelect value={user.role} onChange={e => run(() => updateUserAccount(user.id, { role: e.target.value as UserRole }))} className="py-1 text-xs">
+                                                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                                </FormSelect>
+                                            </td>
+                                            <td className="px-4 py-2 text-xs text-slate-500">
+                                                {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString('vi-VN') : '---'}
+                                                {!user.isActive && <Badge variant="neutral" className="ml-2">Đã khóa</Badge>}
+                                            </td>
+                                            <td className="px-4 py-2 text-right whitespace-nowrap">
+                                                <Button variant="ghost" size="sm" icon="password" onClick={() => openEditor({ mode: 'secret', user })}>Đặt PIN</Button>
+                                                {user.id !== currentUser.id && (
+                                                    <Button variant="ghost" size="sm" icon={user.isActive ? 'block' : 'check_circle'} onClick={() => run(() => updateUserAccount(user.id, { isActive: !user.isActive }))}>
+                                                        {user.isActive ? 'Khóa' : 'Mở'}
+                                                    </Button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-1">Phân quyền</h4>
+                        <p className="text-xs text-slate-500 mb-3">Quản trị viên luôn có toàn quyền. Quyền của nhân viên được lưu cùng cài đặt.</p>
+                        <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-xl">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-50 dark:bg-slate-800/50 text-[10px] uppercase text-slate-500">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left">Quyền</th>
+                                        <th className="px-4 py-2 text-center w-32">{ROLE_LABELS.admin}</th>
+                                        <th className="px-4 py-2 text-center w-32">{ROLE_LABELS.staff}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                    {ALL_PERMISSIONS.map(permission => (
+                                        <tr key={permission}>
+                                            <td className="px-4 py-2 text-slate-700 dark:text-slate-300">{PERMISSION_LABELS[permission]}</td>
+                                            <td className="px-4 py-2 text-center"><input type="checkbox" checked disabled className="rounded" /></td>
+                                            <td className="px-4 py-2 text-center">
+                                                <input type="checkbox" checked={staffPermissions.includes(permission)} onChange={() => toggleStaffPermission(permission)} disabled={!can('settings.edit')} className="rounded text-blue-600" />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            {editor && (
+                <Modal
+                    isOpen
+                    onClose={() => setEditor(null)}
+                    title={editor.mode === 'create' ? 'Thêm người dùng' : `Đặt mã PIN cho ${editor.user.username}`}
+                    size="sm"
+                    footer={
+                        <>
+                            <Button variant="secondary" onClick={() => setEditor(null)} disabled={isSubmitting}>Hủy</Button>
+                            <Button onClick={handleSubmit} loading={isSubmitting} disabled={!form.secret || (editor.mode === 'create' && !form.username.trim())} icon="save">Lưu</Button>
+                        </>
+                    }
+                >
+                    <div className="space-y-4">
+                        {editor.mode === 'create' && (
+                            <>
+                                <FormField label="Tên đăng nhập" required>
+                                    <FormInput value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} autoFocus />
+                                </FormField>
+                                <FormField label="Tên hiển thị">
+                                    <FormInput value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+                                </FormField>
+                                <FormField label="Vai trò">
+                                    <FormSelect value={form.role} onChange={e => setForm({ ...form, role: e.target.value as UserRole })}>
+                                        {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                    </FormSelect>
+                                </FormField>
+                            </>
+                        )}
+                        <FormField label="Mã PIN / mật khẩu" required>
+                            <FormInput type="password" value={form.secret} onChange={e => setForm({ ...form, secret: e.target.value })} autoComplete="new-password" autoFocus={editor.mode === 'secret'} />
+                        </FormField>
+                    </div>
+                </Modal>
+            )}
+        </div>
+    );
+};
@@ -4,5 +4,26 @@ declare module 'jspdf';
 declare namespace NodeJS {
   interface ProcessEnv {
     API_KEY: string;
+    APP_VERSION: string;
   }
 }
+
+// Bridge exposed by electron/preload.cjs; absent when the app runs in a browser
+interface DesktopFileFilter {
+  name: string;
+  extensions: string[];
+}
+
+interface DesktopBridge {
+  isDesktop: true;
+  saveFile: (options: { defaultName: string; data: ArrayBuffer; filters?: DesktopFileFilter[] }) => Promise<{ canceled: boolean; filePath?: string }>;
+  // Empty when the dialog is cancelled
+  openFile: (options?: { filters?: DesktopFileFilter[]; multiple?: boolean }) => Promise<{ name: string; data: Uint8Array<ArrayBuffer> }[]>;
+  print: (options?: { silent?: boolean; landscape?: boolean }) => Promise<boolean>;
+  getAppPaths: () => Promise<{ userData: string; documents: string; downloads: string; logs: string; appVersion: string }>;
+  onNavigate: (callback: (path: string) => void) => () => void;
+}
+
+interface Window {
+  erpDesktop?: DesktopBridge;
+}
@@ -0,0 +1,256 @@
+const { app, BrowserWindow, Menu, dialog, ipcMain, screen, shell } = require('electron');
+const path = require('path');
+const fs = require('fs');
+
+// Desktop shell: one window over the Vite build in `dist` (built with the './' base), or over the
+// dev server when ELECTRON_START_URL is set by `npm run electron:dev`.
+
+const DEV_URL = process.env.ELECTRON_START_URL;
+const INDEX_HTML = path.join(__dirname, '..', 'dist', 'index.html');
+const WINDOW_STATE_FILE = path.join(app.getPath('userData'), 'window-state.json');
+const DEFAULT_BOUNDS = { width: 1440, height: 900 };
+
+let mainWindow = null;
+
+// --- Single instance ---
+// IndexedDB is shared by every window of the profile; a second process writing the same store
+// alongside this one can corrupt it, so a second launch only brings the existing window forward.
+const hasInstanceLock = app.requestSingleInstanceLock();
+if (!hasInstanceLock) app.quit();
+
+app.on('second-instance', () => {
+  if (!mainWindow) return;
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.focus();
+});
+
+// --- Window state ---
+
+const readWindowState = () => {
+  try {
+    const state = JSON.parse(fs.readFileSync(WINDOW_STATE_FILE, 'utf-8'));
+    // A monitor may have been unplugged since; saved bounds must still land on a visible display
+    const visible = screen.getAllDisplays().some(({ workArea }) =>
+      state.x >= workArea.x && state.y >= workArea.y &&
+      state.x + Math.min(state.width, 200) <= workArea.x + workArea.width &&
+      state.y + Math.min(state.height, 200) <= workArea.y + workArea.height);
+    return visible ? state : { ...DEFAULT_BOUNDS, isMaximized: state.isMaximized };
+  } catch {
+    return DEFAULT_BOUNDS;
+  }
+};
+
+const saveWindowState = (win) => {
+  try {
+    const bounds = win.getNormalBounds();
+    fs.writeFileSync(WINDOW_STATE_FILE, JSON.stringify({ ...bounds, isMaximized: win.isMaximized() }));
+  } catch (error) {
+    console.error('Failed to save window state:', error);
+  }
+};
+
+// --- Application menu ---
+// Paths match the routes declared in App.tsx; the renderer navigates its HashRouter on request
+
+const ROUTES = [
+  { label: 'Tổng quan', path: '/', accelerator: 'CmdOrCtrl+1' },
+  { label: 'Bán hàng (POS)', path: '/pos', accelerator: 'CmdOrCtrl+2' },
+  { label: 'Đơn hàng', path: '/orders', accelerator: 'CmdOrCtrl+3' },
+  { label: 'Báo giá', path: '/quotes', accelerator: 'CmdOrCtrl+4' },
+  { type: 'separator' },
+  { label: 'Kho hàng', path: '/inventory', accelerator: 'CmdOrCtrl+5' },
+  { label: 'Nhập hàng', path: '/imports', accelerator: 'CmdOrCtrl+6' },
+  { label: 'Giao hàng', path: '/deliveries', accelerator: 'CmdOrCtrl+7' },
+  { type: 'separator' },
+  { label: 'Đối tác', path: '/partners', accelerator: 'CmdOrCtrl+8' },
+  { label: 'Công nợ', path: '/debts', accelerator: 'CmdOrCtrl+9' },
+  { label: 'Sổ quỹ', path: '/transactions' },
+  { label: 'Phê duyệt', path: '/approvals' },
+  { type: 'separator' },
+  { label: 'Báo cáo', path: '/reports' },
+  { label: 'Nhật ký hệ thống', path: '/logs' },
+  { label: 'Thùng rác', path: '/recycle-bin' },
+];
+
+const navigate = (routePath) => {
+  if (!mainWindow) return;
+  mainWindow.webContents.send('app:navigate', routePath);
+  mainWindow.focus();
+};
+
+const buildMenu = () => Menu.buildFromTemplate([
+  ...(process.platform === 'darwin' ? [{ role: 'appMenu' }] : []),
+  {
+    label: 'Tệp',
+    submenu: [
+      { label: 'In...', accelerator: 'CmdOrCtrl+P', click: () => mainWindow?.webContents.print({ printBackground: true }) },
+      { type: 'separator' },
+      { label: 'Cài đặt', accelerator: 'CmdOrCtrl+,', click: () => navigate('/settings') },
+      { type: 'separator' },
+      { label: 'Thoát', role: 'quit' },
+    ],
+  },
+  {
+    label: 'Sửa',
+    submenu: [
+      { label: 'Hoàn tác', role: 'undo' },
+      { label: 'Làm lại', role: 'redo' },
+      { type: 'separator' },
+      { label: 'Cắt', role: 'cut' },
+      { label: 'Sao chép', role: 'copy' },
+      { label: 'Dán', role: 'paste' },
+      { label: 'Chọn tất cả', role: 'selectAll' },
+    ],
+  },
+  {
+    label: 'Chức năng',
+    submenu: ROUTES.map(item => item.type ? item : { label: item.label, accelerator: item.accelerator, click: () => navigate(item.path) }),
+  },
+  {
+    label: 'Hiển thị',
+    submenu: [
+      { label: 'Tải lại', role: 'reload' },
+      ...(app.isPackaged ? [] : [{ label: 'Công cụ nhà phát triển', role: 'toggleDevTools' }]),
+      { type: 'separator' },
+      { label: 'Cỡ chữ mặc định', role: 'resetZoom' },
+      { label: 'Phóng to', role: 'zoomIn' },
+      { label: 'Thu nhỏ', role: 'zoomOut' },
+      { type: 'separator' },
+      { label: 'Toàn màn hình', role: 'togglefullscreen' },
+    ],
+  },
+  {
+    label: 'Trợ giúp',
+    submenu: [
+      {
+        label: 'Giới thiệu',
+        click: () => dialog.showMessageBox(mainWindow, {
+          type: 'info',
+          title: 'Giới thiệu',
+          message: app.getName(),
+          detail: `Phiên bản ${app.getVersion()}\nDữ liệu: ${app.getPath('userData')}`,
+        }),
+      },
+    ],
+  },
+]);
+
+// --- IPC ---
+// Only these channels exist; every argument from the renderer is checked before it is used
+
+const isFilterList = (filters) => filters === undefined || (Array.isArray(filters) && filters.every(f =>
+  f && typeof f.name === 'string' && Array.isArray(f.extensions) && f.extensions.every(ext => typeof ext === 'string')));
+
+const defaultFilters = (fileName) => {
+  const ext = path.extname(fileName).slice(1);
+  return ext ? [{ name: ext.toUpperCase(), extensions: [ext] }, { name: 'Tất cả', extensions: ['*'] }] : [];
+};
+
+const registerIpc = () => {
+  ipcMain.handle('file:save', async (event, options) => {
+    const { defaultName, data, filters } = options || {};
+    if (typeof defaultName !== 'string' || !(data instanceof ArrayBuffer || ArrayBuffer.isView(data)) || !isFilterList(filters)) {
+      throw new Error('Invalid save request');
+    }
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showSaveDialog(win, {
+      defaultPath: path.join(app.getPath('documents'), path.basename(defaultName)),
+      filters: filters || defaultFilters(defaultName),
+    });
+    if (result.canceled || !result.filePath) return { canceled: true };
+    await fs.promises.writeFile(result.filePath, data instanceof ArrayBuffer ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+    return { canceled: false, filePath: result.filePath };
+  });
+
+  // The renderer never names a path: only files the user picked in the dialog are read back
+  ipcMain.handle('file:open', async (event, options) => {
+    const { filters, multiple } = options || {};
+    if (!isFilterList(filters) || (multiple !== undefined && typeof multiple !== 'boolean')) {
+      throw new Error('Invalid open request');
+    }
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(win, {
+      defaultPath: app.getPath('documents'),
+      properties: multiple ? ['openFile', 'multiSelections'] : ['openFile'],
+      filters,
+    });
+    if (result.canceled) return [];
+    return Promise.all(result.filePaths.map(async (filePath) => ({
+      name: path.basename(filePath),
+      data: new Uint8Array(await fs.promises.readFile(filePath)),
+    })));
+  });
+
+  ipcMain.handle('app:print', (event, options) => {
+    const { silent, landscape } = options || {};
+    return new Promise((resolve) => {
+      event.sender.print({ silent: silent === true, landscape: landscape === true, printBackground: true }, (success) => resolve(success));
+    });
+  });
+
+  ipcMain.handle('app:paths', () => ({
+    userData: app.getPath('userData'),
+    documents: app.getPath('documents'),
+    downloads: app.getPath('downloads'),
+    logs: app.getPath('logs'),
+    appVersion: app.getVersion(),
+  }));
+};
+
+// --- Window ---
+
+const isAppUrl = (url) => DEV_URL ? url.startsWith(DEV_URL) : url.startsWith('file://');
+
+const createWindow = () => {
+  const state = readWindowState();
+  mainWindow = new BrowserWindow({
+    x: state.x,
+    y: state.y,
+    width: state.width,
+    height: state.height,
+    minWidth: 1024,
+    minHeight: 640,
+    show: false,
+    title: 'Hung Thinh ERP',
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.cjs'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: true,
+    },
+  });
+  if (state.isMaximized) mainWindow.maximize();
+
+  mainWindow.once('ready-to-show', () => mainWindow.show());
+  mainWindow.on('close', () => saveWindowState(mainWindow));
+  mainWindow.on('closed', () => { mainWindow = null; });
+
+  // The app never leaves its own pages; external links open in the system browser
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    if (/^https?:\/\//.test(url)) shell.openExternal(url);
+    return { action: 'deny' };
+  });
+  mainWindow.webContents.on('will-navigate', (event, url) => {
+    if (isAppUrl(url)) return;
+    event.preventDefault();
+    if (/^https?:\/\//.test(url)) shell.openExternal(url);
+  });
+
+  if (DEV_URL) mainWindow.loadURL(DEV_URL);
+  else mainWindow.loadFile(INDEX_HTML);
+};
+
+app.whenReady().then(() => {
+  if (!hasInstanceLock) return;
+  registerIpc();
+  Menu.setApplicationMenu(buildMenu());
+  createWindow();
+
+  app.on('activate', () => {
+    if (BrowserWindow.getAllWindows().length === 0) createWindow();
+  });
+});
+
+app.on('window-all-closed', () => {
+  if (process.platform !== 'darwin') app.quit();
+});
@@ -0,0 +1,15 @@
+const { contextBridge, ipcRenderer } = require('electron');
+
+// The only surface the renderer gets: fixed channels, no raw ipcRenderer. Typed in declarations.d.ts.
+contextBridge.exposeInMainWorld('erpDesktop', {
+  isDesktop: true,
+  saveFile: (options) => ipcRenderer.invoke('file:save', options),
+  openFile: (options) => ipcRenderer.invoke('file:open', options),
+  print: (options) => ipcRenderer.invoke('app:print', options),
+  getAppPaths: () => ipcRenderer.invoke('app:paths'),
+  onNavigate: (callback) => {
+    const listener = (_event, routePath) => callback(routePath);
+    ipcRenderer.on('app:navigate', listener);
+    return () => ipcRenderer.removeListener('app:navigate', listener);
+  },
+});
@@ -57,6 +57,7 @@ export const useGlobalSearch = (query: string) => {
         // 2. Quotes
         const quotesPromise = db.quotes
             .filter(q => {
+                if (q.isDeleted) return false;
                 const code = q.code ? q.code.toLowerCase() : '';
                 const name = q.customerName ? removeVietnameseTones(q.customerName) : '';
                 return code.includes(norm) || name.includes(norm) || (q.phone && q.phone.includes(norm));
@@ -97,6 +98,7 @@ export const useGlobalSearch = (query: string) => {
         // 5. Deliveries
         const deliveriesPromise = db.deliveryNotes
             .filter(d => {
+                if (d.isDeleted) return false;
                 const code = d.code ? d.code.toLowerCase() : '';
                 const orderCode = d.orderCode ? d.orderCode.toLowerCase() : '';
                 return code.includes(norm) || orderCode.includes(norm);
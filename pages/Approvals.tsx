@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ApprovalRequest, ApprovalStatus } from '../types';
+import { db } from '../services/db';
+import { useAppContext } from '../contexts/AppContext';
+import { APPROVAL_RULE_LABELS } from '../services/approvals';
+import { formatCurrency } from '../utils/helpers';
+import { PageShell, PageHeader, Button } from '../components/ui/Primitives';
+import { FilterBar, FilterChip } from '../components/ui/FilterBar';
+import { DataTable, ColumnDef } from '../components/ui/DataTable';
+import { Modal } from '../components/ui/Modal';
+import { FormField, FormTextarea } from '../components/ui/Form';
+import StatusBadge from '../components/StatusBadge';
+
+const STATUS_TABS: { id: ApprovalStatus; label: string; color: string }[] = [
+    { id: 'Pending', label: 'Chờ duyệt', color: 'text-amber-600 bg-amber-50' },
+    { id: 'Approved', label: 'Đã duyệt', color: 'text-emerald-600 bg-emerald-50' },
+    { id: 'Rejected', label: 'Từ chối', color: 'text-red-600 bg-red-50' },
+];
+
+const Approvals: React.FC = () => {
+    const { decideApproval, showNotification, can } = useAppContext();
+    const [activeStatus, setActiveStatus] = useState<ApprovalStatus>('Pending');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selected, setSelected] = useState<ApprovalRequest | null>(null);
+    const [comment, setComment] = useState('');
+    const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null);
+
+    const requests = useLiveQuery(() => db.approvals.orderBy('requestedAt').reverse().toArray(), []) || [];
+
+    const counts = useMemo(() => {
+        const result: Record<ApprovalStatus, number> = { Pending: 0, Approved: 0, Rejected: 0 };
+        requests.forEach(r => { result[r.status]++; });
+        return result;
+    }, [requests]);
+
+    const filtered = useMemo(() => {
+        const lower = searchTerm.toLowerCase();
+        return requests.filter(r => r.status === activeStatus && (!lower ||
+            r.documentCode.toLowerCase().includes(lower) ||
+            (r.partnerName || '').toLowerCase().includes(lower) ||
+            r.requestedBy.name.toLowerCase().includes(lower)));
+    }, [requests, activeStatus, searchTerm]);
+
+    useEffect(() => {
+        setComment('');
+    }, [selected?.id]);
+
+    const handleDecide = async (approve: boolean) => {
+        if (!selected) return;
+        setSubmitting(approve ? 'approve' : 'reject');
+        try {
+            await decideApproval(selected.id, approve, comment);
+            setSelected(null);
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setSubmitting(null);
+        }
+    };
+
+    const columns: ColumnDef<ApprovalRequest>[] = [
+        { header: 'Thời gian', accessorKey: 'requestedAt', width: 'w-40', cell: (r) => <span className="text-xs text-slate-500 font-mono">{new Date(r.requestedAt).toLocaleString('vi-VN')}</span> },
+        { header: 'Chứng từ', accessorKey: 'documentCode', width: 'w-40', cell: (r) => (
+            <div>
+                <p className="text-sm font-bold text-slate-900 dark:text-white font-mono">{r.documentCode}</p>
+                <p className="text-[10px] text-slate-500">{r.documentType === 'Order' ? 'Đơn hàng' : 'Điều chỉnh tồn kho'}</p>
+            </div>
+        )},
+        { header: 'Đối tác / Giá trị', accessorKey: 'amount', width: 'w-48', cell: (r) => (
+            <div>
+                <p className="text-sm text-slate-700 dark:text-slate-300 truncate">{r.partnerName || '---'}</p>
+                <p className="text-xs font-bold text-slate-500">{r.documentType === 'Order' ? formatCurrency(r.amount) : `${(r.amount || 0) > 0 ? '+' : ''}${r.amount} đơn vị`}</p>
+            </div>
+        )},
+        { header: 'Lý do', accessorKey: 'reasons', cell: (r) => (
+            <ul className="space-y-0.5">
+                {r.reasons.map((reason, idx) => (
+                    <li key={idx} className="text-xs text-slate-600 dark:text-slate-300"><span className="font-bold">{APPROVAL_RULE_LABELS[reason.rule].label}:</span> {reason.message}</li>
+                ))}
+            </ul>
+        )},
+        { header: 'Người gửi', accessorKey: 'requestedBy', width: 'w-32', cell: (r) => <span className="text-xs font-bold text-slate-700 dark:text-slate-300">{r.requestedBy.name}</span> },
+        { header: 'Trạng thái', accessorKey: 'status', width: 'w-32', align: 'center', cell: (r) => <StatusBadge status={r.status} entityType="Approval" /> },
+    ];
+
+    return (
+        <PageShell>
+            <PageHeader
+                title="Phê Duyệt"
+                subtitle="Đơn hàng và điều chỉnh kho vượt ngưỡng cho phép."
+            />
+
+            <FilterBar
+                searchValue={searchTerm}
+                onSearch={setSearchTerm}
+                placeholder="Tìm mã chứng từ, khách hàng, người gửi..."
+                chips={
+                    <>
+                        {STATUS_TABS.map(tab => (
+                            <FilterChip key={tab.id} label={tab.label} isActive={activeStatus === tab.id} onClick={() => setActiveStatus(tab.id)} count={counts[tab.id]} color={tab.color} />
+                        ))}
+                    </>
+                }
+            />
+
+            <DataTable
+                data={filtered}
+                columns={columns}
+                onRowClick={setSelected}
+                emptyIcon="approval"
+                emptyMessage={activeStatus === 'Pending' ? 'Không có yêu cầu nào đang chờ duyệt' : 'Không có yêu cầu phù hợp'}
+            />
+
+            {selected && (
+                <Modal
+                    isOpen
+                    onClose={() => setSelected(null)}
+                    title={`Yêu cầu duyệt ${selected.documentCode}`}
+                    subtitle={`Gửi bởi ${selected.requestedBy.name} lúc ${new Date(selected.requestedAt).toLocaleString('vi-VN')}`}
+                    size="md"
+                    footer={selected.status === 'Pending' && can('approvals.decide') ? (
+                        <>
+                            <Button variant="secondary" onClick={() => setSelected(null)} disabled={!!submitting}>Đóng</Button>
+                            <Button variant="danger" icon="block" onClick={() => handleDecide(false)} loading={submitting === 'reject'} disabled={!!submitting || !comment.trim()}>Từ chối</Button>
+                            <Button variant="primary" icon="task_alt" onClick={() => handleDecide(true)} loading={submitting === 'approve'} disabled={!!submitting}>Duyệt</Button>
+                        </>
+                    ) : (
+                        <Button variant="secondary" onClick={() => setSelected(null)}>Đóng</Button>
+                    )}
+                >
+                    <div className="space-y-4">
+                        <div className="p-4 rounded-xl bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 space-y-1">
+                            {selected.reasons.map((reason, idx) => (
+                                <p key={idx} className="text-sm text-amber-800 dark:text-amber-300"><span className="font-bold">{APPROVAL_RULE_LABELS[reason.rule].label}:</span> {reason.message}</p>
+                            ))}
+                        </div>
+                        {selected.status === 'Pending' ? (
+                            can('approvals.decide') ? (
+                                <FormField label="Ghi chú (bắt buộc khi từ chối)">
+                                    <FormTextarea value={comment} onChange={e => setComment(e.target.value)} rows={3} placeholder="Đồng ý chiết khấu cho khách quen..." autoFocus />
+                                </FormField>
+                            ) : (
+                                <p className="text-sm text-slate-500">Bạn không có quyền duyệt yêu cầu này.</p>
+                            )
+                        ) : (
+                            <div className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+                                <p><span className="font-bold">{selected.status === 'Approved' ? 'Duyệt' : 'Từ chối'} bởi:</span> {selected.decidedBy?.name} {selected.decidedAt && `(${new Date(selected.decidedAt).toLocaleString('vi-VN')})`}</p>
+                                {selected.comment && <p><span className="font-bold">Ghi chú:</span> {selected.comment}</p>}
+                            </div>
+                        )}
+                    </div>
+                </Modal>
+            )}
+        </PageShell>
+    );
+};
+
+export default Approvals;
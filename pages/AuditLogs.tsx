@@ -81,7 +81,10 @@ const AuditLogs: React.FC = () => {
             SoftDelete: 'bg-orange-50 text-orange-600 border-orange-100',
             StatusChange: 'bg-purple-50 text-purple-600 border-purple-100',
             Payment: 'bg-teal-50 text-teal-600 border-teal-100',
-            Lock: 'bg-gray-100 text-gray-600 border-gray-200'
+            Lock: 'bg-gray-100 text-gray-600 border-gray-200',
+            Approve: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+            Reject: 'bg-red-50 text-red-600 border-red-100',
+            Restore: 'bg-lime-50 text-lime-600 border-lime-100'
         };
         return (
             <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${styles[action] || 'bg-slate-100 text-slate-500'}`}>
@@ -208,7 +208,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
       const overdueDebts = debts.filter(d => d.status === 'Overdue' && d.type === 'Receivable').slice(0, 5);
 
       const now = new Date();
-      const transactions = await db.transactions.toArray();
+      const transactions = await db.transactions.filter(t => !t.isDeleted).toArray();
       let cashIn = 0;
       let cashOut = 0;
       const startMonth = new Date(now.getFullYear(), now.getMonth(), 1);
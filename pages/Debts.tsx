@@ -19,7 +19,7 @@ import { useLiveQuery } from 'dexie-react-hooks';
 type DebtFilterStatus = 'all' | 'Overdue' | 'DueSoon' | 'Normal';
 
 const Debts: React.FC = () => {
-  const { batchProcessDebtPayment, addPaymentToDebt, confirm } = useAppContext();
+  const { batchProcessDebtPayment, addPaymentToDebt, confirm, can, showNotification } = useAppContext();
   
   // Data Fetching
   const debtRecords = useLiveQuery(() => db.debtRecords.toArray()) || [];
@@ -196,10 +196,10 @@ const Debts: React.FC = () => {
       setStatusFilter('all');
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
       const exportData = filteredRecords.map(d => ({ partner: d.partnerName, code: d.orderCode, issueDate: d.issueDate, dueDate: d.dueDate, total: d.totalAmount, remaining: d.remainingAmount, type: d.type === 'Receivable' ? 'Phải thu' : 'Phải trả', status: d.status }));
       const headers = [{ key: 'partner', label: 'Đối tác' }, { key: 'code', label: 'Chứng từ' }, { key: 'issueDate', label: 'Ngày tạo' }, { key: 'dueDate', label: 'Hạn TT' }, { key: 'total', label: 'Tổng tiền' }, { key: 'remaining', label: 'Còn lại' }];
-      downloadTextFile(`CongNo_${activeTab}_${isHistoryMode ? 'LichSu' : 'HienTai'}_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(exportData, headers));
+      await downloadTextFile(`CongNo_${activeTab}_${isHistoryMode ? 'LichSu' : 'HienTai'}_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(exportData, headers));
   };
 
   const handleOpenPayment = (debt: DebtRecord) => {
@@ -215,12 +215,16 @@ const Debts: React.FC = () => {
           type: 'info'
       });
       if(ok) {
-          await addPaymentToDebt(debt.id, {
-              amount: debt.remainingAmount,
-              method: 'cash',
-              notes: `Thu nhanh ${debt.orderCode}`,
-              date: new Date().toLocaleDateString('en-GB')
-          });
+          try {
+              await addPaymentToDebt(debt.id, {
+                  amount: debt.remainingAmount,
+                  method: 'cash',
+                  notes: `Thu nhanh ${debt.orderCode}`,
+                  date: new Date().toLocaleDateString('en-GB')
+              });
+          } catch (error: any) {
+              showNotification(error.message || 'Có lỗi xảy ra', 'error');
+          }
       }
   };
 
@@ -238,13 +242,18 @@ const Debts: React.FC = () => {
       }
       
       const partner = partners.find(p => p.id === selectedPartnerForBatch);
-      await batchProcessDebtPayment(selectedPartnerForBatch, { 
-          amount: paymentForm.amount, 
-          date: getCurrentDate(), 
-          method: paymentForm.method, 
-          notes: paymentForm.notes || (activeTab === 'receivable' ? 'Thu nợ gộp' : 'Trả nợ gộp'), 
-          partnerName: partner?.name 
-      }, allocations);
+      try {
+          await batchProcessDebtPayment(selectedPartnerForBatch, { 
+              amount: paymentForm.amount, 
+              date: getCurrentDate(), 
+              method: paymentForm.method, 
+              notes: paymentForm.notes || (activeTab === 'receivable' ? 'Thu nợ gộp' : 'Trả nợ gộp'), 
+              partnerName: partner?.name 
+          }, allocations);
+      } catch (error: any) {
+          showNotification(error.message || 'Có lỗi xảy ra', 'error');
+          return;
+      }
       
       setIsBatchModalOpen(false); 
       setPaymentForm({ amount: 0, method: 'transfer', notes: '' });
@@ -297,7 +306,7 @@ const Debts: React.FC = () => {
       { header: 'Trạng thái', accessorKey: 'status', width: 'w-28', align: 'center', sortable: true, cell: (d) => <StatusBadge status={d.status} entityType="Debt" /> },
       { header: 'Tác vụ', align: 'center', width: 'w-20', cell: (d) => (
           <div className="flex items-center justify-center gap-1">
-              {!isHistoryMode && activeTab === 'receivable' && (
+              {!isHistoryMode && activeTab === 'receivable' && can('debts.pay') && (
                   <button 
                       onClick={(e) => { e.stopPropagation(); handleQuickCollect(d); }}
                       className="size-8 rounded-lg bg-emerald-50 text-emerald-600 hover:bg-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-400 flex items-center justify-center transition-colors"
@@ -397,7 +406,7 @@ const Debts: React.FC = () => {
                         <button onClick={() => setViewMode('board')} className={`p-1.5 rounded-lg transition-all ${viewMode === 'board' ? 'bg-white dark:bg-slate-600 shadow-sm text-blue-600' : 'text-slate-400'}`} title="Tuổi nợ"><span className="material-symbols-outlined text-[18px]">view_kanban</span></button>
                     </div>
                     <Button variant="outline" icon="file_download" onClick={handleExportCSV}>Excel</Button>
-                    <Button variant="primary" icon="price_check" onClick={() => { setIsBatchModalOpen(true); setPaymentForm({ amount: 0, method: 'transfer', notes: '' }); }}>
+                    <Button variant="primary" icon="price_check" disabled={!can('debts.pay')} onClick={() => { setIsBatchModalOpen(true); setPaymentForm({ amount: 0, method: 'transfer', notes: '' }); }}>
                         {activeTab === 'receivable' ? 'Thu gộp' : 'Trả gộp'}
                     </Button>
                 </div>
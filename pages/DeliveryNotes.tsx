@@ -197,20 +197,27 @@ const DeliveryNotes: React.FC<{ initialParams?: any }> = ({ initialParams }) =>
   };
 
   const handleDelete = async (id: string) => {
-      const ok = await confirm({ title: 'Xóa phiếu giao?', message: 'Hành động này chỉ xóa phiếu khỏi danh sách, không ảnh hưởng tồn kho.', type: 'danger' });
-      if (ok) {
+      const ok = await confirm({ title: 'Xóa phiếu giao?', message: 'Phiếu chưa hủy sẽ được hủy trước: số lượng trả lại đơn hàng và hàng đã xuất được nhập lại kho.', type: 'danger' });
+      if (!ok) return;
+      try {
           await deleteDeliveryNote(id);
           if (selectedNoteId === id) setSelectedNoteId(null);
+      } catch (e: any) {
+          showNotification(e.message, 'error');
       }
   };
 
   const handleStatusChange = async (id: string, newStatus: DeliveryStatus) => {
       if (newStatus === 'Cancelled') {
-          const ok = await confirm({ title: 'Hủy vận chuyển?', message: 'Đơn hàng liên quan sẽ được chuyển về trạng thái "Đang xử lý".', type: 'warning' });
+          const ok = await confirm({ title: 'Hủy vận chuyển?', message: 'Số lượng trên phiếu sẽ được trả lại đơn hàng để giao lần sau, hàng đã xuất được nhập lại kho. Phiếu đã hủy không thể mở lại.', type: 'warning' });
           if (!ok) return;
       }
-      await updateDeliveryNoteStatus(id, newStatus);
-      if (fetchedNote && fetchedNote.id === id) setFetchedNote({...fetchedNote, status: newStatus});
+      try {
+          await updateDeliveryNoteStatus(id, newStatus);
+          if (fetchedNote && fetchedNote.id === id) setFetchedNote({...fetchedNote, status: newStatus});
+      } catch (e: any) {
+          showNotification(e.message, 'error');
+      }
   };
 
   // Bulk Actions
@@ -219,11 +226,17 @@ const DeliveryNotes: React.FC<{ initialParams?: any }> = ({ initialParams }) =>
       if (!ok) return;
       
       const ids = Array.from(selectedRowIds);
+      let failed = 0;
       for (const id of ids) {
-          await updateDeliveryNoteStatus(id, status);
+          try {
+              await updateDeliveryNoteStatus(id, status);
+          } catch {
+              failed++;
+          }
       }
       setSelectedRowIds(new Set());
-      showNotification(`Đã cập nhật ${ids.length} phiếu`, 'success');
+      if (failed > 0) showNotification(`Đã cập nhật ${ids.length - failed} phiếu, ${failed} phiếu bị bỏ qua`, 'warning');
+      else showNotification(`Đã cập nhật ${ids.length} phiếu`, 'success');
   };
 
   // --- DRAWER ---
@@ -377,7 +390,7 @@ const DeliveryNotes: React.FC<{ initialParams?: any }> = ({ initialParams }) =>
                   )}
                   
                   {selectedNote.status === 'Cancelled' && (
-                      <Button variant="danger" className="flex-1" icon="delete" onClick={() => handleDelete(selectedNote.id)}>Xóa vĩnh viễn</Button>
+                      <Button variant="danger" className="flex-1" icon="delete" onClick={() => handleDelete(selectedNote.id)}>Xóa phiếu</Button>
                   )}
                   
                   {selectedNote.status === 'Delivered' && (
@@ -514,7 +527,7 @@ const DeliveryNotes: React.FC<{ initialParams?: any }> = ({ initialParams }) =>
         }
         rightActions={
             <div className="flex gap-2">
-                <Button variant="outline" icon="file_download" onClick={async () => exportToCSV(await db.deliveryNotes.toArray(), 'DSPhieuGiao')}>Excel</Button>
+                <Button variant="outline" icon="file_download" onClick={async () => exportToCSV(await db.deliveryNotes.filter(n => !n.isDeleted).toArray(), 'DSPhieuGiao')}>Excel</Button>
                 <Button variant="primary" icon="add" onClick={() => setIsCreateModalOpen(true)}>Tạo Phiếu</Button>
             </div>
         }
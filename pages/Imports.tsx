@@ -14,9 +14,10 @@ import { DateRangeFilter } from '../components/filters/DateRangeFilter';
 import { CreateImportModal, PrintImportModal, ReceiveItemsModal, CreatePurchaseReturnModal } from '../components/ImportModals';
 import { Drawer } from '../components/ui/Drawer';
 import { ImportWizard } from '../components/imports/ImportWizard';
+import { UnlockDocumentModal } from '../components/UnlockDocumentModal';
 
 const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialParams }) => {
-    const { lockDocument, updateImportStatus, confirm, showNotification } = useAppContext();
+    const { lockDocument, updateImportStatus, confirm, showNotification, can } = useAppContext();
 
     // --- STATE ---
     const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
@@ -26,6 +27,7 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [isReceiveModalOpen, setIsReceiveModalOpen] = useState(false);
     const [isReturnModalOpen, setIsReturnModalOpen] = useState(false);
+    const [isUnlockModalOpen, setIsUnlockModalOpen] = useState(false);
     const [printData, setPrintData] = useState<ImportOrder | null>(null);
 
     // Filters
@@ -116,11 +118,15 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
 
     const handleUpdateImport = async (id: string, status: ImportStatus) => {
         if (status === 'Cancelled') {
-            const ok = await confirm({ title: 'Hủy phiếu nhập?', message: 'Hành động này sẽ hủy phiếu nhưng KHÔNG hoàn trả tồn kho tự động (cần xử lý thủ công nếu đã nhập).', type: 'danger' });
+            const ok = await confirm({ title: 'Hủy phiếu nhập?', message: 'Công nợ phải trả của phiếu sẽ bị hủy và số tiền đã trả được ghi nhận NCC hoàn lại. Phiếu đã nhận hàng cần lập phiếu trả NCC thay vì hủy.', type: 'danger' });
             if (!ok) return;
         }
-        await updateImportStatus(id, status);
-        if(fetchedOrder && fetchedOrder.id === id) setFetchedOrder({ ...fetchedOrder, status });
+        try {
+            await updateImportStatus(id, status);
+            if(fetchedOrder && fetchedOrder.id === id) setFetchedOrder({ ...fetchedOrder, status });
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        }
     };
 
     const handleExportCSV = async () => {
@@ -133,7 +139,7 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
             { key: 'supplier', label: 'Nhà Cung Cấp' }, { key: 'total', label: 'Tổng Tiền' },
             { key: 'status', label: 'Trạng Thái' }, { key: 'warehouse', label: 'Kho' }
         ]);
-        downloadTextFile(`NhapKho_${new Date().toISOString().slice(0, 10)}.csv`, csv);
+        await downloadTextFile(`NhapKho_${new Date().toISOString().slice(0, 10)}.csv`, csv);
     };
 
     // --- COLUMNS ---
@@ -177,10 +183,10 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
                         )}
                         
                         {(selectedOrder.status === 'Completed' || selectedOrder.status === 'Received' || selectedOrder.status === 'Receiving') && (
-                            <Button variant="secondary" className="flex-1 text-red-600 hover:bg-red-50" icon="keyboard_return" onClick={() => setIsReturnModalOpen(true)}>Trả NCC</Button>
+                            <Button variant="secondary" className="flex-1 text-red-600 hover:bg-red-50" icon="keyboard_return" onClick={() => setIsReturnModalOpen(true)} disabled={isLocked}>Trả NCC</Button>
                         )}
 
-                        {selectedOrder.status !== 'Cancelled' && (
+                        {selectedOrder.status !== 'Cancelled' && !isLocked && (
                             <Button variant="danger" icon="cancel" onClick={() => handleUpdateImport(selectedOrder.id, 'Cancelled')}>Hủy Phiếu</Button>
                         )}
                     </div>
@@ -196,6 +202,9 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
                         {!isLocked && !selectedOrder.status.includes('Cancel') && (
                             <Button variant="ghost" size="sm" onClick={handleLockImport} icon="lock" className="text-slate-400 hover:text-red-500">Khóa</Button>
                         )}
+                        {isLocked && can('documents.lock') && (
+                            <Button variant="ghost" size="sm" onClick={() => setIsUnlockModalOpen(true)} icon="lock_open" className="text-slate-400 hover:text-amber-600">Mở khóa</Button>
+                        )}
                     </div>
 
                     {/* Items Table */}
@@ -260,6 +269,9 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
                                             <span className="font-black text-emerald-600 dark:text-emerald-400 text-sm block">
                                                 {rn.items.reduce((s, i) => s + i.quantity, 0)} sản phẩm
                                             </span>
+                                            {(rn.totalLandedCost || 0) > 0 && (
+                                                <span className="text-[10px] text-emerald-600 dark:text-emerald-500">+ {formatCurrency(rn.totalLandedCost)} chi phí</span>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -342,6 +354,7 @@ const Imports: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialP
                 <>
                     <ReceiveItemsModal isOpen={isReceiveModalOpen} onClose={() => setIsReceiveModalOpen(false)} importOrder={selectedOrder} />
                     <CreatePurchaseReturnModal isOpen={isReturnModalOpen} onClose={() => setIsReturnModalOpen(false)} importOrder={selectedOrder} />
+                    <UnlockDocumentModal isOpen={isUnlockModalOpen} onClose={() => setIsUnlockModalOpen(false)} type="Import" id={selectedOrder.id} code={selectedOrder.code} />
                 </>
             )}
         </PageShell>
@@ -39,7 +39,7 @@ const DEFAULT_PRODUCT_STATE: Partial<Product> = {
 };
 
 const Inventory: React.FC<{ initialParams?: any }> = ({ initialParams }) => {
-  const { adjustStock, addProduct, updateProduct, deleteProduct, confirm, showNotification } = useAppContext();
+  const { adjustStock, addProduct, updateProduct, deleteProduct, confirm, showNotification, can } = useAppContext();
 
   // --- UI STATE ---
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -201,15 +201,15 @@ const Inventory: React.FC<{ initialParams?: any }> = ({ initialParams }) => {
 
   const handleAdjustStock = async (qty: number, minStock: number) => {
       if (!adjustingProduct) return;
-      await adjustStock(adjustingProduct.id, qty, 'Kiểm kê nhanh', minStock);
+      const applied = await adjustStock(adjustingProduct.id, qty, 'Kiểm kê nhanh', minStock);
       setAdjustingProduct(null);
-      showNotification('Đã cập nhật tồn kho', 'success');
+      if (applied) showNotification('Đã cập nhật tồn kho', 'success');
   };
 
   const handleExport = async () => {
       const data = allProducts.filter(filterFn).map(p => ({ sku: p.sku, name: p.name, brand: p.brand, location: p.location, stock: p.stock, reserved: p.stockReserved, available: calcAvailableStock(p.stock, p.stockReserved), retailPrice: p.retailPrice }));
       const headers = [{ key: 'sku', label: 'SKU' }, { key: 'name', label: 'Tên' }, { key: 'brand', label: 'Hãng' }, { key: 'location', label: 'Vị trí' }, { key: 'stock', label: 'Tồn thực' }, { key: 'reserved', label: 'Đang giữ' }, { key: 'available', label: 'Khả dụng' }, { key: 'retailPrice', label: 'Giá bán' }];
-      downloadTextFile(`TonKho_${activeLocation}_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(data, headers));
+      await downloadTextFile(`TonKho_${activeLocation}_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(data, headers));
   };
 
   const handleCopy = (text: string, label: string) => {
@@ -356,6 +356,7 @@ const Inventory: React.FC<{ initialParams?: any }> = ({ initialParams }) => {
           width: 'w-24', 
           cell: (p) => (
             <div className="flex items-center justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {can('inventory.adjust') && (
                 <button 
                     onClick={(e) => { e.stopPropagation(); setAdjustingProduct(p); }}
                     className="size-7 rounded-lg text-slate-400 hover:text-purple-600 hover:bg-purple-50 dark:hover:bg-purple-900/20 flex items-center justify-center transition-colors"
@@ -363,6 +364,7 @@ const Inventory: React.FC<{ initialParams?: any }> = ({ initialParams }) => {
                 >
                     <span className="material-symbols-outlined text-[16px]">inventory</span>
                 </button>
+                )}
                 <button 
                     onClick={(e) => { e.stopPropagation(); handleEdit(p); }}
                     className="size-7 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 flex items-center justify-center transition-colors"
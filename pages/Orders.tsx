@@ -7,9 +7,12 @@ import { useAppContext } from '../contexts/AppContext';
 import StatusBadge from '../components/StatusBadge';
 import { PrintPreviewModal } from '../components/QuoteModals';
 import { CreateDeliveryModal } from '../components/DeliveryModals';
+import { CreateReturnModal } from '../components/ReturnModals';
+import { UnlockDocumentModal } from '../components/UnlockDocumentModal';
 import { OrderDetailDrawer } from '../components/orders/OrderDetailDrawer'; 
 import { useDexieTable, SortItem } from '../hooks/useDexieTable';
 import { db } from '../services/db';
+import { getOutstandingQuantity } from '../services/fulfillment';
 import { PageShell, Button } from '../components/ui/Primitives';
 import { TableToolbar } from '../components/table/TableToolbar';
 import { DataTable, ColumnDef } from '../components/ui/DataTable';
@@ -48,7 +51,7 @@ interface OrdersViewState {
 }
 
 const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; initialParams?: any }> = ({ onNavigate }) => {
-  const { updateOrderStatus, deleteOrder, confirm, deliveryNotes, returnNotes, lockDocument, finalizeOrderWithDelivery, showNotification } = useAppContext();
+  const { updateOrderStatus, deleteOrder, confirm, deliveryNotes, returnNotes, lockDocument, finalizeOrderWithDelivery, showNotification, can } = useAppContext();
   
   // Router Hooks
   const { code } = useParams();
@@ -65,6 +68,7 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
   const [isDeliveryModalOpen, setIsDeliveryModalOpen] = useState(false);
   const [deliveryOrderTarget, setDeliveryOrderTarget] = useState<string | undefined>(undefined);
   const [isReturnModalOpen, setIsReturnModalOpen] = useState(false);
+  const [isUnlockModalOpen, setIsUnlockModalOpen] = useState(false);
   const [isPaymentDrawerOpen, setIsPaymentDrawerOpen] = useState(false);
   const [targetDebtId, setTargetDebtId] = useState<string | null>(null);
   
@@ -206,7 +210,7 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
           { key: 'total', label: 'Tổng tiền' }, { key: 'amountPaid', label: 'Đã thanh toán' },
           { key: 'status', label: 'Trạng thái' }
       ];
-      downloadTextFile(`DonHang_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(exportData, headers));
+      await downloadTextFile(`DonHang_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(exportData, headers));
   };
 
   // Fallback Fetch
@@ -230,15 +234,19 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
   // --- ACTIONS ---
   const handleQuickAction = async (id: string, action: OrderStatus) => {
       if (action === 'Cancelled') {
-          const ok = await confirm({ title: 'Hủy đơn hàng?', message: 'Hành động này sẽ hủy đơn hàng và hoàn trả tồn kho. Bạn có chắc chắn không?', type: 'danger', confirmLabel: 'Xác nhận Hủy' });
+          const ok = await confirm({ title: 'Hủy đơn hàng?', message: 'Hành động này sẽ hủy đơn hàng, hoàn trả tồn kho, hủy công nợ và ghi nhận phiếu chi hoàn tiền cho khách. Bạn có chắc chắn không?', type: 'danger', confirmLabel: 'Xác nhận Hủy' });
           if (!ok) return;
       }
-      await updateOrderStatus(id, action);
-      if (fetchedOrder && fetchedOrder.id === id) setFetchedOrder({ ...fetchedOrder, status: action });
+      try {
+          await updateOrderStatus(id, action);
+          if (fetchedOrder && fetchedOrder.id === id) setFetchedOrder({ ...fetchedOrder, status: action });
+      } catch (e: any) {
+          showNotification(e.message, 'error');
+      }
   };
 
   const handleDelete = async (id: string) => {
-      const ok = await confirm({ title: 'Xóa đơn hàng?', message: 'Đơn hàng sẽ bị hủy và tồn kho sẽ được hoàn trả. Không thể hoàn tác.', type: 'danger' });
+      const ok = await confirm({ title: 'Xóa đơn hàng?', message: 'Đơn hàng sẽ bị hủy (hoàn tồn kho, công nợ, tiền đã thu) và chuyển vào mục lưu trữ. Không thể hoàn tác.', type: 'danger' });
       if (ok) await deleteOrder(id);
   };
 
@@ -250,7 +258,7 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
   const handleQuickDelivery = async (order: Order) => {
       const ok = await confirm({
           title: 'Giao hàng nhanh?',
-          message: 'Tạo phiếu giao hàng cho toàn bộ sản phẩm và chuyển trạng thái sang "Vận chuyển".',
+          message: 'Tạo phiếu giao hàng cho toàn bộ số lượng còn lại và chuyển trạng thái sang "Vận chuyển".',
           confirmLabel: 'Giao ngay',
           type: 'info'
       });
@@ -258,20 +266,21 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
 
       try {
           await finalizeOrderWithDelivery(order.id, {
-              code: `PGH-${Date.now().toString().slice(-6)}`,
               date: formatInputDate(new Date().toISOString().slice(0, 10)),
               customerName: order.customerName,
               address: '',
               shipperName: '',
               shipperPhone: '',
               notes: 'Giao nhanh từ đơn hàng',
-              items: order.items,
+              items: order.items
+                  .filter(i => getOutstandingQuantity(i) > 0)
+                  .map(i => ({ id: i.id, productName: i.productName, sku: i.sku, unit: i.unit, quantity: getOutstandingQuantity(i), price: i.price, total: getOutstandingQuantity(i) * i.price })),
               status: 'Shipping',
               orderCode: order.code
           });
           showNotification('Đã tạo phiếu giao hàng nhanh', 'success');
-      } catch (e) {
-          showNotification('Lỗi khi tạo phiếu giao', 'error');
+      } catch (e: any) {
+          showNotification(e.message || 'Lỗi khi tạo phiếu giao', 'error');
       }
   };
 
@@ -302,11 +311,17 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
       if (!ok) return;
       
       const ids = Array.from(selectedRowIds);
+      let skipped = 0;
       for (const id of ids) {
-          await updateOrderStatus(id, status);
+          try {
+              await updateOrderStatus(id, status);
+          } catch {
+              skipped++;
+          }
       }
       setSelectedRowIds(new Set());
-      showNotification('Đã cập nhật trạng thái', 'success');
+      if (skipped > 0) showNotification(`Bỏ qua ${skipped} đơn đã hủy`, 'warning');
+      else showNotification('Đã cập nhật trạng thái', 'success');
   };
 
   // --- COLUMNS ---
@@ -407,7 +422,7 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
                 </button>
 
                 {/* Quick Delivery */}
-                {(o.status === 'Processing' || o.status === 'PendingPayment') && (
+                {(o.status === 'Processing' || o.status === 'PendingPayment' || o.status === 'PartiallyShipped') && (
                     <button 
                         onClick={(e) => { e.stopPropagation(); handleQuickDelivery(o); }}
                         className="size-8 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 flex items-center justify-center transition-colors"
@@ -419,8 +434,8 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
 
                 <ActionMenu items={[
                     { label: 'Chi tiết', icon: 'visibility', onClick: () => setSelectedOrderId(o.id) },
-                    { label: 'Hủy đơn', icon: 'block', onClick: () => handleQuickAction(o.id, 'Cancelled'), danger: true, disabled: o.status === 'Cancelled' || o.status === 'Completed' },
-                    { label: 'Xóa', icon: 'delete', onClick: () => handleDelete(o.id), danger: true }
+                    { label: 'Hủy đơn', icon: 'block', onClick: () => handleQuickAction(o.id, 'Cancelled'), danger: true, disabled: !can('orders.cancel') || o.status === 'Cancelled' || o.status === 'Completed' },
+                    { label: 'Xóa', icon: 'delete', onClick: () => handleDelete(o.id), danger: true, disabled: !can('orders.delete') }
                 ]} />
             </div>
           )
@@ -491,7 +506,7 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
                 }
             >
                 <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl border border-slate-200 dark:border-slate-700 overflow-x-auto no-scrollbar">
-                    {(['all', 'PendingPayment', 'Processing', 'Shipping', 'Completed', 'Cancelled'] as const).map(s => {
+                    {(['all', 'PendingApproval', 'PendingPayment', 'Processing', 'Shipping', 'Completed', 'Cancelled'] as const).map(s => {
                         const count = s === 'all' ? 0 : statusCounts[s] || 0;
                         return (
                             <button
@@ -503,7 +518,7 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
                                     : 'text-slate-500 hover:text-slate-700 hover:bg-white/50'
                                 }`}
                             >
-                                {s === 'all' ? 'Tất cả' : s === 'PendingPayment' ? 'Chờ duyệt' : s === 'Processing' ? 'Đang xử lý' : s === 'Shipping' ? 'Vận chuyển' : s === 'Completed' ? 'Hoàn thành' : 'Đã hủy'}
+                                {s === 'all' ? 'Tất cả' : s === 'PendingApproval' ? 'Chờ duyệt' : s === 'PendingPayment' ? 'Chờ thanh toán' : s === 'Processing' ? 'Đang xử lý' : s === 'Shipping' ? 'Vận chuyển' : s === 'Completed' ? 'Hoàn thành' : 'Đã hủy'}
                                 {s !== 'all' && count > 0 && <span className="bg-slate-200 dark:bg-slate-700 px-1.5 py-0.5 rounded-full text-[9px]">{count}</span>}
                             </button>
                         );
@@ -576,12 +591,15 @@ const Orders: React.FC<{ onNavigate?: (view: ViewState, params?: any) => void; i
             onAction={handleQuickAction}
             onDelete={handleDelete}
             onLock={handleLockOrder}
+            onUnlock={() => setIsUnlockModalOpen(true)}
             relatedDeliveries={deliveryNotes.filter(n => n.orderCode === selectedOrder?.code)}
             relatedReturns={returnNotes.filter(n => n.orderCode === selectedOrder?.code)}
         />
 
         <PrintPreviewModal isOpen={!!printData} onClose={() => setPrintData(null)} data={printData} />
         <CreateDeliveryModal isOpen={isDeliveryModalOpen} onClose={() => setIsDeliveryModalOpen(false)} initialOrderId={deliveryOrderTarget} />
+        <CreateReturnModal isOpen={isReturnModalOpen} onClose={() => setIsReturnModalOpen(false)} order={selectedOrder || null} />
+        <UnlockDocumentModal isOpen={isUnlockModalOpen} onClose={() => setIsUnlockModalOpen(false)} type="Order" id={selectedOrderId} code={selectedOrder?.code} />
         <DebtPayDrawer isOpen={isPaymentDrawerOpen} onClose={() => setIsPaymentDrawerOpen(false)} debtId={targetDebtId} />
     </PageShell>
   );
@@ -26,7 +26,7 @@ interface HeldCart {
 }
 
 const POS: React.FC = () => {
-  const { createOrder, showNotification, confirm, settings } = useAppContext();
+  const { createOrder, showNotification, confirm, settings, can } = useAppContext();
   
   // --- CATALOG STATE ---
   const [searchQuery, setSearchQuery] = useState('');
@@ -169,7 +169,8 @@ const POS: React.FC = () => {
       const order = await createOrder(orderData);
       
       if (order) { 
-          setPrintData({ ...order, items: cart });
+          // A held order is not a sale yet, so there is no receipt to print
+          if (order.status !== 'PendingApproval') setPrintData({ ...order, items: cart });
           setCart([]); 
           setSelectedCustomer(null); 
           setCustomerSearch(''); 
@@ -221,7 +222,9 @@ const POS: React.FC = () => {
     const currentQty = existingItem ? existingItem.quantity : 0;
 
     if (currentQty + 1 > available) { 
-        showNotification(`Sản phẩm chỉ còn ${available} tồn khả dụng!`, 'error'); 
+        showNotification(product.stockReserved
+            ? `Sản phẩm chỉ còn ${available} tồn khả dụng (${product.stockReserved} đang giữ cho đơn hàng/báo giá)!`
+            : `Sản phẩm chỉ còn ${available} tồn khả dụng!`, 'error'); 
         return;
     }
     
@@ -241,7 +244,7 @@ const POS: React.FC = () => {
           if (item) {
               const available = calcAvailableStock(item.stock, item.stockReserved);
               if (updates.quantity > available) {
-                  showNotification(`Số lượng ${updates.quantity} vượt quá tồn kho (${available})`, 'error');
+                  showNotification(`Số lượng ${updates.quantity} vượt quá tồn khả dụng (${available}${item.stockReserved ? `, ${item.stockReserved} đang giữ` : ''})`, 'error');
                   return;
               }
           }
@@ -571,6 +574,7 @@ const POS: React.FC = () => {
                                               value={item.customPrice ?? item.retailPrice} 
                                               onChange={(val) => updateCartItem(item.id, { customPrice: val })}
                                               min={0}
+                                              disabled={!can('price.override')}
                                               className="font-medium text-[11px] text-slate-500 decoration-dotted underline decoration-slate-300 cursor-text hover:text-blue-600"
                                               align="right"
                                               format={(val) => formatCurrency(val).replace(' VND','')}
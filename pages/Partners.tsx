@@ -121,7 +121,7 @@ const Partners: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initial
           code: p.code, name: p.name, type: p.type, phone: p.phone, 
           address: p.address, taxId: p.taxId, debt: p.debt
       }));
-      downloadTextFile(`DSDoiTac_${activeTab}_${new Date().toISOString().slice(0,10)}.csv`, toCSV(data, [
+      await downloadTextFile(`DSDoiTac_${activeTab}_${new Date().toISOString().slice(0,10)}.csv`, toCSV(data, [
           { key: 'code', label: 'Mã' }, { key: 'name', label: 'Tên' }, 
           { key: 'taxId', label: 'MST' },
           { key: 'phone', label: 'SĐT' }, { key: 'address', label: 'Địa chỉ' },
@@ -168,7 +168,7 @@ const Quotes: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialPa
   };
 
   const handleDelete = async (id: string) => {
-      const ok = await confirm({ title: 'Xóa báo giá?', message: 'Dữ liệu sẽ bị xóa vĩnh viễn.', type: 'danger' });
+      const ok = await confirm({ title: 'Xóa báo giá?', message: 'Báo giá sẽ được chuyển vào thùng rác.', type: 'danger' });
       if(ok) {
           await deleteQuote(id);
           if(selectedQuoteId === id) setSelectedQuoteId(null);
@@ -183,8 +183,12 @@ const Quotes: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialPa
           confirmLabel: 'Tạo đơn hàng'
       });
       if(ok) {
-          await convertQuoteToOrder(id, { method: 'transfer', amountPaid: 0 });
-          showNotification('Đã chuyển thành đơn hàng!', 'success');
+          try {
+              await convertQuoteToOrder(id, { method: 'transfer', amountPaid: 0 });
+              showNotification('Đã chuyển thành đơn hàng!', 'success');
+          } catch (e: any) {
+              showNotification(e.message, 'error');
+          }
       }
   };
 
@@ -358,7 +362,7 @@ const Quotes: React.FC<{ onNavigate?: any, initialParams?: any }> = ({ initialPa
             }
             rightActions={
                 <>
-                    <Button variant="outline" icon="file_download" onClick={async () => exportToCSV(await db.quotes.toArray(), 'DanhSachBaoGia')}>Excel</Button>
+                    <Button variant="outline" icon="file_download" onClick={async () => exportToCSV(await db.quotes.filter(q => !q.isDeleted).toArray(), 'DanhSachBaoGia')}>Excel</Button>
                     <Button variant="primary" icon="add" onClick={handleCreate}>Tạo mới</Button>
                 </>
             }
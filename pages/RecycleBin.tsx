@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useAppContext } from '../contexts/AppContext';
+import { listDeletedRecords, RecycleBinEntry, RecycleEntityType, RECYCLE_ENTITY_TYPES, RECYCLE_SOURCES } from '../services/recycleBin';
+import { formatRelativeTime } from '../utils/helpers';
+import { PageShell, PageHeader, Button } from '../components/ui/Primitives';
+import { FilterBar, FilterChip } from '../components/ui/FilterBar';
+import { DataTable, ColumnDef } from '../components/ui/DataTable';
+
+// DataTable keys rows by id, which is only unique within one table
+type BinRow = RecycleBinEntry & { recordId: string };
+
+const RecycleBin: React.FC = () => {
+    const { settings, currentUser, can, confirm, showNotification, restoreDeletedRecord, purgeDeletedRecord } = useAppContext();
+    const [activeType, setActiveType] = useState<RecycleEntityType | 'all'>('all');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const entries = useLiveQuery(() => listDeletedRecords(), []);
+    const isAdmin = currentUser.role === 'admin';
+    const retentionDays = settings.system.recycleBinRetentionDays || 0;
+
+    const rows = useMemo<BinRow[]>(() => (entries || []).map(e => ({ ...e, recordId: e.id, id: `${e.entityType}:${e.id}` })), [entries]);
+
+    const counts = useMemo(() => {
+        const result = {} as Record<RecycleEntityType, number>;
+        RECYCLE_ENTITY_TYPES.forEach(type => { result[type] = 0; });
+        rows.forEach(r => { result[r.entityType]++; });
+        return result;
+    }, [rows]);
+
+    const filtered = useMemo(() => {
+        const lower = searchTerm.toLowerCase();
+        return rows.filter(r => (activeType === 'all' || r.entityType === activeType) && (!lower ||
+            r.code.toLowerCase().includes(lower) || r.name.toLowerCase().includes(lower)));
+    }, [rows, activeType, searchTerm]);
+
+    const run = async (row: BinRow, action: () => Promise<void>) => {
+        setBusyId(row.id);
+        try {
+            await action();
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRestore = (row: BinRow) => run(row, () => restoreDeletedRecord(row.entityType, row.recordId));
+
+    const handlePurge = async (row: BinRow) => {
+        const ok = await confirm({
+            title: `Xóa vĩnh viễn ${row.code}?`,
+            message: 'Dữ liệu sẽ bị xóa khỏi máy và không thể khôi phục. Nhật ký vẫn giữ bản ghi cuối cùng.',
+            type: 'danger'
+        });
+        if (!ok) return;
+        await run(row, async () => {
+            await purgeDeletedRecord(row.entityType, row.recordId);
+            showNotification(`Đã xóa vĩnh viễn ${row.code}`, 'success');
+        });
+    };
+
+    const columns: ColumnDef<BinRow>[] = [
+        { header: 'Loại', accessorKey: 'entityType', width: 'w-44', cell: (r) => (
+            <div className="flex items-center gap-2 text-slate-600 dark:text-slate-300">
+                <span className="material-symbols-outlined text-[18px] text-slate-400">{RECYCLE_SOURCES[r.entityType].icon}</span>
+                <span className="text-xs font-bold">{RECYCLE_SOURCES[r.entityType].label}</span>
+            </div>
+        )},
+        { header: 'Chứng từ / Tên', accessorKey: 'code', cell: (r) => (
+            <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-900 dark:text-white font-mono">{r.code}</p>
+                <p className="text-xs text-slate-500 truncate">{r.name || '---'}</p>
+            </div>
+        )},
+        { header: 'Ngày xóa', accessorKey: 'deletedAt', width: 'w-40', cell: (r) => (
+            <span className="text-xs text-slate-500 font-mono" title={new Date(r.deletedAt).toLocaleString('vi-VN')}>{formatRelativeTime(r.deletedAt)}</span>
+        )},
+        { header: 'Thao tác', width: 'w-56', align: 'right', cell: (r) => (
+            <div className="flex justify-end gap-1" onClick={e => e.stopPropagation()}>
+                <Button variant="ghost" size="sm" icon="restore_from_trash" onClick={() => handleRestore(r)} loading={busyId === r.id} disabled={!!busyId || !can(RECYCLE_SOURCES[r.entityType].permission)}>Khôi phục</Button>
+                {isAdmin && (
+                    <Button variant="ghost" size="sm" icon="delete_forever" className="text-red-600" onClick={() => handlePurge(r)} disabled={!!busyId}>Xóa hẳn</Button>
+                )}
+            </div>
+        )},
+    ];
+
+    return (
+        <PageShell>
+            <PageHeader
+                title="Thùng Rác"
+                subtitle={retentionDays > 0
+                    ? `Dữ liệu đã xóa được tự động xóa vĩnh viễn sau ${retentionDays} ngày.`
+                    : 'Dữ liệu đã xóa được giữ lại cho đến khi quản trị viên xóa vĩnh viễn.'}
+            />
+
+            <FilterBar
+                searchValue={searchTerm}
+                onSearch={setSearchTerm}
+                placeholder="Tìm mã, tên..."
+                chips={
+                    <>
+                        <FilterChip label="Tất cả" isActive={activeType === 'all'} onClick={() => setActiveType('all')} count={rows.length} />
+                        {RECYCLE_ENTITY_TYPES.map(type => (
+                            <FilterChip key={type} label={RECYCLE_SOURCES[type].label} isActive={activeType === type} onClick={() => setActiveType(type)} count={counts[type]} />
+                        ))}
+                    </>
+                }
+            />
+
+            <DataTable
+                data={filtered}
+                columns={columns}
+                isLoading={!entries}
+                emptyIcon="delete"
+                emptyMessage="Thùng rác trống"
+            />
+        </PageShell>
+    );
+};
+
+export default RecycleBin;
@@ -6,13 +6,15 @@ import {
 import { useAppContext } from '../contexts/AppContext';
 import { generateBusinessAdvisorInsight } from '../services/ai';
 import { parseDate, formatCurrency, formatDateISO, getStartOfMonth, getEndOfMonth, parseISOToDate } from '../utils/helpers';
-import { ViewState } from '../types';
+import { Order, ViewState } from '../types';
 import { Button } from '../components/ui/Primitives';
 import { ReportsFilterBar } from '../components/reports/ReportsFilterBar';
+import { InventoryValuationReport } from '../components/reports/InventoryValuationReport';
 import { PrintPreviewModal } from '../components/print/PrintPreviewModal';
 import { ReportTemplate } from '../components/print/Templates';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../services/db';
+import { MarginTally, emptyMarginTally, netRevenueFactor, tallyLineMargin, tallyOrderMargin, marginProfit, marginPercent } from '../services/costing';
 
 // --- Components ---
 
@@ -117,7 +119,7 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
         const endTs = new Date(endDate).setHours(23,59,59,999);
         return db.transactions
             .where('createdAt').between(startTs, endTs)
-            .toArray();
+            .filter(t => !t.isDeleted).toArray();
     }, [startDate, endDate]) || [];
 
     // 3. Fetch Products (Lightweight) for Health Check
@@ -138,7 +140,7 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
     }, [rangeDates]);
 
     // Fetch Previous Period Orders/Transactions
-    const [prevOrders, setPrevOrders] = useState<any[]>([]);
+    const [prevOrders, setPrevOrders] = useState<Order[]>([]);
     const [prevTransactions, setPrevTransactions] = useState<any[]>([]);
 
     useEffect(() => {
@@ -154,7 +156,7 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
             
             const pTxns = await db.transactions
                 .where('createdAt').between(prevRangeDates.start.getTime(), prevRangeDates.end.getTime())
-                .toArray();
+                .filter(t => !t.isDeleted).toArray();
                 
             setPrevOrders(pOrders);
             setPrevTransactions(pTxns);
@@ -185,10 +187,9 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
             if (d >= rangeDates.start && d <= rangeDates.end) {
                 const idx = getIndex(d, rangeDates.start);
                 if (dataMap[idx]) {
-                    dataMap[idx].revenue += o.total;
-                    let cost = 0;
-                    o.items.forEach((i: any) => cost += (i.costPrice || 0) * i.quantity);
-                    dataMap[idx].profit += (o.total - cost);
+                    const t = tallyOrderMargin(emptyMarginTally(), o);
+                    dataMap[idx].revenue += t.revenue;
+                    dataMap[idx].profit += marginProfit(t);
                 }
             }
         });
@@ -200,10 +201,9 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
                 if (d >= prevRangeDates.start && d <= prevRangeDates.end) {
                     const idx = getIndex(d, prevRangeDates.start);
                     if (dataMap[idx]) {
-                        dataMap[idx].revenuePrev += o.total;
-                        let cost = 0;
-                        o.items.forEach((i: any) => cost += (i.costPrice || 0) * i.quantity);
-                        dataMap[idx].profitPrev += (o.total - cost);
+                        const t = tallyOrderMargin(emptyMarginTally(), o);
+                        dataMap[idx].revenuePrev += t.revenue;
+                        dataMap[idx].profitPrev += marginProfit(t);
                     }
                 }
             });
@@ -225,20 +225,18 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
 
     // 2. Stats Calculation
     const stats = useMemo(() => {
-        const calcStats = (oList: any[], tList: any[]) => {
-            let rev = 0, prof = 0, count = 0, cashIn = 0, cashOut = 0;
+        const calcStats = (oList: Order[], tList: any[]) => {
+            const tally = emptyMarginTally();
+            let count = 0, cashIn = 0, cashOut = 0;
             oList.forEach(o => {
                 if (o.status === 'Cancelled') return;
-                rev += o.total;
+                tallyOrderMargin(tally, o);
                 count++;
-                let cost = 0;
-                o.items.forEach((i: any) => cost += (i.costPrice || 0) * i.quantity);
-                prof += (o.total - cost);
             });
             tList.forEach(t => {
                 if (t.type === 'income') cashIn += t.amount; else cashOut += t.amount;
             });
-            return { rev, prof, count, cashIn, cashOut };
+            return { rev: tally.revenue, prof: marginProfit(tally), margin: marginPercent(tally), uncostedLines: tally.uncostedLines, count, cashIn, cashOut };
         };
 
         const current = calcStats(orders, transactions);
@@ -250,29 +248,45 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
             profit: current.prof, profitTrend: getTrend(current.prof, prev.prof),
             orderCount: current.count, orderTrend: getTrend(current.count, prev.count),
             netCash: current.cashIn - current.cashOut, netCashTrend: getTrend(current.cashIn - current.cashOut, prev.cashIn - prev.cashOut),
-            margin: current.rev > 0 ? (current.prof / current.rev) * 100 : 0
+            margin: current.margin,
+            uncostedLines: current.uncostedLines
         };
     }, [orders, transactions, prevOrders, prevTransactions, showComparison]);
 
     // 3. Top Products
     const topProducts = useMemo(() => {
-        const map: Record<string, { name: string, total: number, qty: number, sku: string }> = {};
-        let maxTotal = 0;
+        const map: Record<string, { name: string, qty: number, sku: string, tally: MarginTally }> = {};
         orders.forEach(o => {
             if (o.status === 'Cancelled') return;
-            o.items.forEach((i: any) => {
-                if (!map[i.sku]) map[i.sku] = { name: i.productName, total: 0, qty: 0, sku: i.sku };
-                map[i.sku].total += i.total;
-                map[i.sku].qty += i.quantity;
-                if (map[i.sku].total > maxTotal) maxTotal = map[i.sku].total;
+            const factor = netRevenueFactor(o);
+            o.items.forEach(i => {
+                if (!map[i.sku]) map[i.sku] = { name: i.productName, qty: 0, sku: i.sku, tally: emptyMarginTally() };
+                map[i.sku].qty += Math.max(0, i.quantity - (i.returnedQuantity || 0));
+                tallyLineMargin(map[i.sku].tally, i, factor);
             });
         });
+        const rows = Object.values(map).map(({ tally, ...p }) => ({
+            ...p, total: tally.revenue, profit: marginProfit(tally), margin: marginPercent(tally), uncostedLines: tally.uncostedLines
+        }));
         return {
-            items: Object.values(map).sort((a,b) => b.total - a.total).slice(0, 5),
-            maxTotal
+            items: rows.sort((a,b) => b.total - a.total).slice(0, 5),
+            maxTotal: rows.reduce((max, p) => Math.max(max, p.total), 0)
         };
     }, [orders]);
 
+    // 3b. Gross Margin by Customer (uses the cost stamped on each line at sale time, net of returns)
+    const customerMargins = useMemo(() => {
+        const map: Record<string, MarginTally> = {};
+        orders.forEach(o => {
+            if (o.status === 'Cancelled') return;
+            const key = o.customerName || 'Khách lẻ';
+            tallyOrderMargin(map[key] || (map[key] = emptyMarginTally()), o);
+        });
+        return Object.entries(map)
+            .map(([name, t]) => ({ name, revenue: t.revenue, profit: marginProfit(t), margin: marginPercent(t), uncostedLines: t.uncostedLines }))
+            .sort((a, b) => b.profit - a.profit).slice(0, 5);
+    }, [orders]);
+
     // 4. Inventory Health
     const inventoryHealth = useMemo(() => {
         let items = allProducts;
@@ -342,7 +356,7 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
                 {/* 1. Improved KPI Cards */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5 mb-6">
                     <KPICard title="Doanh thu thuần" value={formatCurrency(stats.revenue)} trend={stats.revenueTrend} icon="payments" color={{ bg: 'bg-indigo-100', text: 'text-indigo-600', hex: '#4f46e5' }} chartData={chartData} dataKey="revenue" />
-                    <KPICard title="Lợi nhuận gộp" value={formatCurrency(stats.profit)} trend={stats.profitTrend} subValue={`Biên lãi: ${stats.margin.toFixed(1)}%`} icon="query_stats" color={{ bg: 'bg-teal-100', text: 'text-teal-600', hex: '#0d9488' }} chartData={chartData} dataKey="profit" />
+                    <KPICard title="Lợi nhuận gộp" value={formatCurrency(stats.profit)} trend={stats.profitTrend} subValue={`Biên lãi: ${stats.margin.toFixed(1)}%${stats.uncostedLines > 0 ? ` • ${stats.uncostedLines} dòng thiếu giá vốn` : ''}`} icon="query_stats" color={{ bg: 'bg-teal-100', text: 'text-teal-600', hex: '#0d9488' }} chartData={chartData} dataKey="profit" />
                     <KPICard title="Tổng đơn hàng" value={stats.orderCount} trend={stats.orderTrend} icon="shopping_cart" color={{ bg: 'bg-blue-100', text: 'text-blue-600', hex: '#2563eb' }} chartData={chartData} dataKey="revenue" />
                     <KPICard title="Dòng tiền ròng" value={formatCurrency(stats.netCash)} trend={stats.netCashTrend} subValue={stats.netCash >= 0 ? "Dương" : "Âm"} icon="account_balance_wallet" color={{ bg: stats.netCash >= 0 ? 'bg-emerald-100' : 'bg-red-100', text: stats.netCash >= 0 ? 'text-emerald-600' : 'text-red-600', hex: stats.netCash >= 0 ? '#10b981' : '#ef4444' }} chartData={chartData} dataKey="income" />
                 </div>
@@ -413,7 +427,7 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
                                             <span className={`size-6 rounded flex items-center justify-center text-[10px] font-bold ${i === 0 ? 'bg-yellow-100 text-yellow-700' : 'bg-slate-100 text-slate-500'}`}>{i+1}</span>
                                             <div className="min-w-0">
                                                 <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate max-w-[120px]" title={p.name}>{p.name}</p>
-                                                <p className="text-[10px] text-slate-400">{p.qty} đã bán</p>
+                                                <p className="text-[10px] text-slate-400">{p.qty} đã bán • Lãi {p.margin.toFixed(1)}%{p.uncostedLines > 0 && <span className="text-amber-500" title="Có dòng bán chưa ghi nhận giá vốn, không tính vào lãi"> • thiếu giá vốn</span>}</p>
                                             </div>
                                         </div>
                                         <div className="text-right">
@@ -428,6 +442,23 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
                             </div>
                         </div>
 
+                        {/* Margin by Customer */}
+                        <div className="bg-white dark:bg-slate-800 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                            <h3 className="font-bold text-slate-900 dark:text-white mb-4">Lãi gộp theo khách hàng</h3>
+                            <div className="space-y-3">
+                                {customerMargins.map((c, i) => (
+                                    <div key={i} className="flex items-center justify-between">
+                                        <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate max-w-[140px]" title={c.name}>{c.name}</p>
+                                        <div className="text-right">
+                                            <span className="text-xs font-bold text-slate-900 dark:text-white">{formatCurrency(c.profit)}</span>
+                                            <p className="text-[10px] text-slate-400">{c.uncostedLines > 0 && <span className="text-amber-500" title="Có dòng bán chưa ghi nhận giá vốn, không tính vào lãi">thiếu giá vốn • </span>}{c.margin.toFixed(1)}% / {formatCurrency(c.revenue)}</p>
+                                        </div>
+                                    </div>
+                                ))}
+                                {customerMargins.length === 0 && <p className="text-center text-slate-400 text-xs py-4">Chưa có dữ liệu bán hàng</p>}
+                            </div>
+                        </div>
+
                         {/* AI Advisor Card */}
                         <div className="bg-gradient-to-br from-indigo-600 to-violet-600 p-5 rounded-2xl text-white shadow-lg relative overflow-hidden">
                             <div className="relative z-10">
@@ -463,6 +494,9 @@ const Reports: React.FC<{ onNavigate: (view: ViewState, params?: any) => void }>
                         </div>
                     </div>
                 </div>
+
+                {/* 4. Inventory Valuation (FIFO vs Average) */}
+                <InventoryValuationReport asOfDate={endDate} />
             </div>
 
             {/* Print Modal */}
@@ -1,12 +1,21 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AppSettings, BackupData, ReconcileIssue, DocTypeConfig } from '../types';
+import { AppSettings, BackupData, ReconcileIssue, DocTypeConfig, NumberedDocType, NumberingRule, ApprovalRuleType, LogRetentionSettings, LogRetentionRule, AuditModule, ErrorLog } from '../types';
 import { useAppContext } from '../contexts/AppContext';
-import { exportBackup, parseBackupFile, restoreBackup } from '../services/backup';
+import { formatInputDate, pickDesktopFiles } from '../utils/helpers';
+import { exportBackup, parseBackupFile, restoreBackup, isEncryptedBackupFile, getBackupCheckpoint, MergeResolution, exportStreamedBackup, restoreStreamedBackup, isStreamedBackupFile } from '../services/backup';
+import type { BackupProgress } from '../services/backupStream';
+import { DEFAULT_NUMBERING, NUMBERED_DOC_LABELS, resolveNumberingRule, validateNumberingRule, peekDocumentCode } from '../services/numbering';
 import { PageShell, PageHeader, Button } from '../components/ui/Primitives';
 import { FormField, FormInput, FormSelect, FormTextarea } from '../components/ui/Form';
-import { ConfirmModal } from '../components/ui/ConfirmModal';
+import { Modal } from '../components/ui/Modal';
 import { TemplateEditor } from '../components/print/TemplateEditor';
+import { UserManagement } from '../components/settings/UserManagement';
+import { PointInTimeRestoreModal } from '../components/settings/PointInTimeRestoreModal';
+import { MergePreviewModal } from '../components/settings/MergePreviewModal';
+import { ROLE_LABELS } from '../services/auth';
+import { APPROVAL_RULE_LABELS } from '../services/approvals';
+import { AUDIT_MODULE_LABELS, AUDIT_SEVERITY_LABELS } from '../services/logArchive';
 import { GoogleGenAI } from "@google/genai"; // Import for connection test
 
 // --- UI COMPONENTS ---
@@ -69,10 +78,24 @@ const SelectionCard: React.FC<{
     );
 };
 
+const PROGRESS_PHASE_LABELS: Record<BackupProgress['phase'], string> = { export: 'Đang xuất', verify: 'Đang kiểm tra', restore: 'Đang khôi phục' };
+
+const BackupProgressBar: React.FC<{ progress: BackupProgress }> = ({ progress }) => (
+    <div className="space-y-1.5">
+        <div className="flex justify-between text-xs font-bold text-slate-600 dark:text-slate-300">
+            <span>{PROGRESS_PHASE_LABELS[progress.phase]}{progress.table ? ` · ${progress.table}` : ''}</span>
+            <span>{progress.percent}%</span>
+        </div>
+        <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress.percent}%` }}></div>
+        </div>
+    </div>
+);
+
 // --- MAIN PAGE ---
 
 const Settings: React.FC = () => {
-    const { settings, setSettings, showNotification, reconcileData, toggleTheme, currentUser, setCurrentUser } = useAppContext();
+    const { settings, setSettings, showNotification, reconcileData, applyReconcileFix, closeAccountingPeriod, confirm, toggleTheme, currentUser, can } = useAppContext();
     const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
     const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'finance' | 'documents' | 'system' | 'health'>('general');
     
@@ -92,15 +115,42 @@ const Settings: React.FC = () => {
     } | null>(null);
     
     const [isRestoreConfirmOpen, setIsRestoreConfirmOpen] = useState(false);
+    const [isMergePreviewOpen, setIsMergePreviewOpen] = useState(false);
+    const [acceptUnverifiedHistory, setAcceptUnverifiedHistory] = useState(false);
+    const needsUnverifiedConfirm = !!backupAnalysis?.correctedData.metadata.unverifiedAuditLogs && !acceptUnverifiedHistory;
+
+    // Backup Encryption State
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportPassphrase, setExportPassphrase] = useState({ secret: '', confirm: '' });
+    const [exportMode, setExportMode] = useState<'full' | 'incremental' | 'stream'>('full');
+    const [lastCheckpointAt, setLastCheckpointAt] = useState<number | null>(null);
+    const [encryptedFiles, setEncryptedFiles] = useState<File[] | null>(null);
+    const [chainBackups, setChainBackups] = useState<BackupData[] | null>(null);
+    const [restorePassphrase, setRestorePassphrase] = useState('');
+    const [passphraseError, setPassphraseError] = useState('');
+    const [isDecrypting, setIsDecrypting] = useState(false);
+
+    // Streamed (compressed) Backup State
+    const [streamFile, setStreamFile] = useState<File | null>(null);
+    const [backupProgress, setBackupProgress] = useState<BackupProgress | null>(null);
 
     // Reconcile State
     const [isChecking, setIsChecking] = useState(false);
     const [healthIssues, setHealthIssues] = useState<ReconcileIssue[] | null>(null);
+    const [fixingIssue, setFixingIssue] = useState<ReconcileIssue | null>(null);
+
+    // Period Close State
+    const [periodCutoff, setPeriodCutoff] = useState(new Date().toISOString().slice(0, 8) + '01');
+    const [isClosingPeriod, setIsClosingPeriod] = useState(false);
 
     // Doc Settings State
     const [activeDocType, setActiveDocType] = useState<'order' | 'quote' | 'import' | 'delivery'>('order');
     const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
 
+    // Numbering State
+    const [numberingPreview, setNumberingPreview] = useState<Partial<Record<NumberedDocType, string>>>({});
+
     // AI Key State
     const [aiStatus, setAiStatus] = useState<boolean>(false);
     const [isTestingKey, setIsTestingKey] = useState(false);
@@ -109,6 +159,13 @@ const Settings: React.FC = () => {
     const [customApiKey, setCustomApiKey] = useState('');
     const [showApiKey, setShowApiKey] = useState(false);
 
+    // Desktop shell info (only set when running inside Electron)
+    const [desktopPaths, setDesktopPaths] = useState<Awaited<ReturnType<DesktopBridge['getAppPaths']>> | null>(null);
+
+    useEffect(() => {
+        window.erpDesktop?.getAppPaths().then(setDesktopPaths);
+    }, []);
+
     // Check dirty state
     useEffect(() => {
         setIsDirty(JSON.stringify(settings) !== JSON.stringify(localSettings));
@@ -195,12 +252,80 @@ const Settings: React.FC = () => {
         }
     };
 
+    useEffect(() => {
+        if (activeTab !== 'system') return;
+        let cancelled = false;
+        const load = async () => {
+            const preview: Partial<Record<NumberedDocType, string>> = {};
+            for (const type of Object.keys(DEFAULT_NUMBERING) as NumberedDocType[]) {
+                preview[type] = await peekDocumentCode(type, resolveNumberingRule(type, localSettings));
+            }
+            if (!cancelled) setNumberingPreview(preview);
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [activeTab, localSettings.system]);
+
+    const updateNumberingRule = (type: NumberedDocType, patch: Partial<NumberingRule>) => {
+        const next = { ...resolveNumberingRule(type, localSettings), ...patch };
+        const system = { ...localSettings.system, numbering: { ...localSettings.system.numbering, [type]: next } };
+        // Order and import prefixes keep living in their original settings fields
+        if (type === 'order') system.orderPrefix = next.prefix;
+        if (type === 'import') system.importPrefix = next.prefix;
+        setLocalSettings({ ...localSettings, system });
+    };
+
+    const updateApprovalRule = (rule: ApprovalRuleType, patch: { enabled?: boolean; threshold?: number }) => {
+        const current = localSettings.approvals?.[rule] || { enabled: false };
+        setLocalSettings({ ...localSettings, approvals: { ...localSettings.approvals, [rule]: { ...current, ...patch } } });
+    };
+
+    const logRetention: LogRetentionSettings = localSettings.system.logRetention || { audit: [], errors: {} };
+
+    const setLogRetention = (next: LogRetentionSettings) =>
+        setLocalSettings({ ...localSettings, system: { ...localSettings.system, logRetention: next } });
+
+    const updateLogRule = (index: number, patch: Partial<LogRetentionRule>) =>
+        setLogRetention({ ...logRetention, audit: logRetention.audit.map((r, i) => i === index ? { ...r, ...patch } : r) });
+
     const handleSave = async () => {
-        await setSettings(localSettings);
+        for (const type of Object.keys(DEFAULT_NUMBERING) as NumberedDocType[]) {
+            const error = validateNumberingRule(resolveNumberingRule(type, localSettings));
+            if (error) {
+                showNotification(`${NUMBERED_DOC_LABELS[type]}: ${error}`, 'error');
+                return;
+            }
+        }
+        try {
+            await setSettings(localSettings);
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+            return;
+        }
         setIsDirty(false);
         showNotification('Đã lưu cài đặt thành công', 'success');
     };
 
+    const handleClosePeriod = async () => {
+        const cutoff = formatInputDate(periodCutoff);
+        const ok = await confirm({
+            title: 'Khóa sổ kỳ kế toán?',
+            message: `Toàn bộ đơn hàng, phiếu nhập, giao dịch và thanh toán công nợ có ngày trước ${cutoff} sẽ bị khóa. Chỉ quản trị viên có thể mở khóa từng chứng từ.`,
+            type: 'warning',
+            confirmLabel: 'Khóa sổ'
+        });
+        if (!ok) return;
+        setIsClosingPeriod(true);
+        try {
+            const lockedBefore = await closeAccountingPeriod(cutoff);
+            setLocalSettings(prev => ({ ...prev, finance: { ...prev.finance, lockedBefore } }));
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setIsClosingPeriod(false);
+        }
+    };
+
     const handleDiscard = () => {
         setLocalSettings(settings);
         setIsDirty(false);
@@ -225,27 +350,103 @@ const Settings: React.FC = () => {
         }
     };
 
+    const openExport = async () => {
+        const checkpoint = await getBackupCheckpoint();
+        setLastCheckpointAt(checkpoint?.at ?? null);
+        setExportMode(checkpoint ? 'incremental' : 'full');
+        setIsExportOpen(true);
+    };
+
     const handleExport = async () => {
+        if (exportMode === 'stream') return handleStreamExport();
+        if (exportPassphrase.secret !== exportPassphrase.confirm) {
+            showNotification('Mật khẩu nhập lại không khớp', 'error');
+            return;
+        }
+        setIsExporting(true);
         try {
-            await exportBackup();
-            showNotification('Đã xuất file backup thành công', 'success');
-        } catch (error) {
-            showNotification('Xuất backup thất bại', 'error');
+            await exportBackup({ passphrase: exportPassphrase.secret || undefined, incremental: exportMode === 'incremental' });
+            showNotification(exportPassphrase.secret ? 'Đã xuất file backup mã hóa thành công' : 'Đã xuất file backup thành công', 'success');
+            setIsExportOpen(false);
+            setExportPassphrase({ secret: '', confirm: '' });
+        } catch (error: any) {
+            showNotification(error.message || 'Xuất backup thất bại', 'error');
+        } finally {
+            setIsExporting(false);
         }
     };
 
-    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+    const handleStreamExport = async () => {
+        setIsExporting(true);
+        try {
+            await exportStreamedBackup(setBackupProgress);
+            showNotification('Đã xuất file backup nén thành công', 'success');
+            setIsExportOpen(false);
+        } catch (error: any) {
+            showNotification(error.message || 'Xuất backup thất bại', 'error');
+        } finally {
+            setIsExporting(false);
+            setBackupProgress(null);
+        }
+    };
 
+    const handleStreamRestore = async () => {
+        if (!streamFile) return;
+        setIsRestoring(true);
         try {
-            const analysis = await parseBackupFile(file);
-            setBackupAnalysis({
-                summary: analysis.summary,
-                warnings: analysis.warnings,
-                correctedData: analysis.correctedData
-            });
-            setIsRestoreConfirmOpen(true);
+            await restoreStreamedBackup(streamFile, setBackupProgress);
+            showNotification('Khôi phục dữ liệu thành công! Đang tải lại...', 'success');
+            setTimeout(() => window.location.reload(), 1500);
+        } catch (error: any) {
+            showNotification(error.message || 'Khôi phục thất bại. Dữ liệu có thể bị lỗi.', 'error');
+            setIsRestoring(false);
+            setBackupProgress(null);
+        }
+    };
+
+    // A single full backup restores directly; several files, or an incremental, form a chain to pick a point from
+    const openRestoreConfirm = async (files: File[], passphrase?: string) => {
+        const analyses = await Promise.all(files.map(file => parseBackupFile(file, passphrase)));
+        if (analyses.length > 1 || analyses[0].correctedData.metadata.kind === 'incremental') {
+            setChainBackups(analyses.map(a => a.correctedData));
+            return;
+        }
+        const analysis = analyses[0];
+        setBackupAnalysis({
+            summary: analysis.summary,
+            warnings: analysis.warnings,
+            correctedData: analysis.correctedData
+        });
+        setAcceptUnverifiedHistory(false);
+        setIsRestoreConfirmOpen(true);
+    };
+
+    const handleChooseBackup = async () => {
+        try {
+            const files = await pickDesktopFiles({ name: 'Sao lưu', extensions: ['json', 'gz'] }, true);
+            if (files) await handleBackupFiles(files);
+            else fileInputRef.current?.click();
+        } catch (error: any) {
+            showNotification(error.message || 'Không mở được tệp', 'error');
+        }
+    };
+
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => handleBackupFiles(Array.from(e.target.files || []));
+
+    const handleBackupFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+
+        try {
+            if (files.length === 1 && await isStreamedBackupFile(files[0])) {
+                setStreamFile(files[0]);
+                return;
+            }
+            const encrypted = await Promise.all(files.map(isEncryptedBackupFile));
+            if (encrypted.some(Boolean)) {
+                setEncryptedFiles(files);
+                return;
+            }
+            await openRestoreConfirm(files);
         } catch (error: any) {
             showNotification(error.message || 'File không hợp lệ', 'error');
         } finally {
@@ -253,15 +454,36 @@ const Settings: React.FC = () => {
         }
     };
 
-    const handleRestore = async (mode: 'replace' | 'merge') => {
-        if (!backupAnalysis) return;
+    const closePassphrasePrompt = () => {
+        setEncryptedFiles(null);
+        setRestorePassphrase('');
+        setPassphraseError('');
+    };
+
+    // Stays open on a wrong passphrase so it can be retyped
+    const handleDecrypt = async () => {
+        if (!encryptedFiles) return;
+        setIsDecrypting(true);
+        setPassphraseError('');
+        try {
+            await openRestoreConfirm(encryptedFiles, restorePassphrase);
+            closePassphrasePrompt();
+        } catch (error: any) {
+            setPassphraseError(error.message);
+        } finally {
+            setIsDecrypting(false);
+        }
+    };
+
+    const handleRestore = async (mode: 'replace' | 'merge', data = backupAnalysis?.correctedData, resolution?: MergeResolution, acceptUnverified = acceptUnverifiedHistory) => {
+        if (!data) return;
         setIsRestoring(true);
         try {
-            await restoreBackup(backupAnalysis.correctedData, mode);
+            await restoreBackup(data, mode, { resolution, acceptUnverifiedHistory: acceptUnverified, actor: currentUser });
             showNotification('Khôi phục dữ liệu thành công! Đang tải lại...', 'success');
             setTimeout(() => window.location.reload(), 1500);
-        } catch (error) {
-            showNotification('Khôi phục thất bại. Dữ liệu có thể bị lỗi.', 'error');
+        } catch (error: any) {
+            showNotification(error.message || 'Khôi phục thất bại. Dữ liệu có thể bị lỗi.', 'error');
             setIsRestoring(false);
         }
     };
@@ -283,9 +505,22 @@ const Settings: React.FC = () => {
         }
     };
 
+    const handleApplyFix = async (issue: ReconcileIssue) => {
+        setFixingIssue(issue);
+        try {
+            await applyReconcileFix(issue);
+            setHealthIssues(prev => prev ? prev.filter(i => i !== issue) : prev);
+            showNotification('Đã áp dụng sửa lỗi', 'success');
+        } catch (e: any) {
+            showNotification(e.message || 'Không thể áp dụng sửa lỗi', 'error');
+        } finally {
+            setFixingIssue(null);
+        }
+    };
+
     const handleCopyReport = () => {
         if (!healthIssues) return;
-        const text = healthIssues.map(i => `[${i.severity}] [${i.type}] ${i.entityName || i.entityId}: ${i.message}`).join('\n');
+        const text = healthIssues.map(i => `[${i.severity}] [${i.type}] ${i.entityName || i.entityId}: ${i.message}${i.suggestedFix ? ` => ${i.suggestedFix.description}` : ''}`).join('\n');
         navigator.clipboard.writeText(text);
         showNotification('Đã sao chép báo cáo', 'success');
     };
@@ -372,7 +607,7 @@ const Settings: React.FC = () => {
                             </div>
                             <div className="flex-1 min-w-0">
                                 <p className="text-xs font-bold text-slate-900 dark:text-white truncate">{currentUser.name}</p>
-                                <p className="text-[10px] text-slate-500">ID: {currentUser.id}</p>
+                                <p className="text-[10px] text-slate-500">{ROLE_LABELS[currentUser.role]}</p>
                             </div>
                         </div>
                     </div>
@@ -502,6 +737,7 @@ const Settings: React.FC = () => {
 
                         {/* --- FINANCE TAB --- */}
                         {activeTab === 'finance' && (
+                            <>
                             <SettingSection title="Cấu hình Tài chính">
                                 <div className="space-y-6">
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -525,6 +761,16 @@ const Settings: React.FC = () => {
                                                 <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 font-bold">%</span>
                                             </div>
                                         </FormField>
+                                        <FormField label="Phương pháp tính giá vốn">
+                                            <FormSelect 
+                                                value={localSettings.finance.costingMethod || 'average'} 
+                                                onChange={e => setLocalSettings({...localSettings, finance: {...localSettings.finance, costingMethod: e.target.value as 'average' | 'fifo'}})}
+                                            >
+                                                <option value="average">Bình quân gia quyền di động</option>
+                                                <option value="fifo">Nhập trước - Xuất trước (FIFO)</option>
+                                            </FormSelect>
+                                            <p className="text-[10px] text-slate-500 mt-1">Áp dụng cho giá vốn các đơn bán từ thời điểm lưu. Lớp giá FIFO luôn được ghi nhận để đối chiếu.</p>
+                                        </FormField>
                                     </div>
                                     
                                     <div className="p-4 bg-slate-50 dark:bg-slate-700/30 rounded-xl border border-slate-100 dark:border-slate-700">
@@ -535,8 +781,49 @@ const Settings: React.FC = () => {
                                             onChange={val => setLocalSettings({...localSettings, finance: {...localSettings.finance, printInvoice: val}})}
                                         />
                                     </div>
+
+                                    <div className="p-4 bg-slate-50 dark:bg-slate-700/30 rounded-xl border border-slate-100 dark:border-slate-700">
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div>
+                                                <p className="font-bold text-sm text-slate-900 dark:text-white">Khóa sổ kỳ kế toán</p>
+                                                <p className="text-xs text-slate-500 mt-0.5">
+                                                    {settings.finance.lockedBefore
+                                                        ? `Đã khóa sổ mọi chứng từ trước ngày ${settings.finance.lockedBefore}.`
+                                                        : 'Chưa khóa sổ kỳ nào.'}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2 shrink-0">
+                                                <FormInput type="date" value={periodCutoff} onChange={e => setPeriodCutoff(e.target.value)} disabled={!can('period.close')} />
+                                                <Button variant="danger" icon="lock_clock" onClick={handleClosePeriod} loading={isClosingPeriod} disabled={!can('period.close') || !periodCutoff}>Khóa sổ</Button>
+                                            </div>
+                                        </div>
+                                        {!can('period.close') && <p className="text-[10px] text-slate-400 mt-2">Bạn không có quyền khóa sổ.</p>}
+                                    </div>
                                 </div>
                             </SettingSection>
+
+                            <SettingSection title="Quy tắc phê duyệt" description="Chứng từ khớp quy tắc sẽ chờ người có quyền phê duyệt trước khi ghi sổ.">
+                                <div className="space-y-3">
+                                    {(Object.keys(APPROVAL_RULE_LABELS) as ApprovalRuleType[]).map(rule => {
+                                        const config = localSettings.approvals?.[rule];
+                                        const meta = APPROVAL_RULE_LABELS[rule];
+                                        return (
+                                            <div key={rule} className="p-4 bg-slate-50 dark:bg-slate-700/30 rounded-xl border border-slate-100 dark:border-slate-700 flex items-center gap-4">
+                                                <div className="flex-1">
+                                                    <ToggleSwitch label={meta.label} description={meta.description} checked={!!config?.enabled} onChange={val => updateApprovalRule(rule, { enabled: val })} />
+                                                </div>
+                                                {meta.unit && (
+                                                    <div className="relative w-32 shrink-0">
+                                                        <FormInput type="number" min={0} value={config?.threshold ?? 0} onChange={e => updateApprovalRule(rule, { threshold: Math.max(0, Number(e.target.value) || 0) })} disabled={!config?.enabled} className="pr-12 font-bold" />
+                                                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">{meta.unit}</span>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </SettingSection>
+                            </>
                         )}
 
                         {/* --- DOCUMENTS TAB --- */}
@@ -668,29 +955,131 @@ const Settings: React.FC = () => {
                                     </div>
                                 </SettingSection>
 
-                                <SettingSection title="Thông tin người dùng" description="Thiết lập phiên làm việc hiện tại (Demo context).">
-                                    <div className="grid grid-cols-2 gap-4">
-                                        <FormField label="Tên hiển thị">
-                                            <FormInput 
-                                                value={currentUser.name} 
-                                                onChange={e => setCurrentUser({ ...currentUser, name: e.target.value })} 
-                                            />
-                                        </FormField>
-                                        <FormField label="ID Hệ thống">
-                                            <FormInput 
-                                                value={currentUser.id} 
-                                                disabled
-                                                className="bg-slate-100 dark:bg-slate-800 text-slate-500"
-                                            />
-                                        </FormField>
+                                <SettingSection title="Đánh số chứng từ" description="Số chứng từ được cấp liên tục, không trùng, kể cả khi mở nhiều tab cùng lúc.">
+                                    <div className="border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden">
+                                        <table className="w-full text-sm">
+                                            <thead className="bg-slate-50 dark:bg-slate-900/50 text-[10px] font-bold text-slate-500 uppercase">
+                                                <tr>
+                                                    <th className="px-4 py-2 text-left">Chứng từ</th>
+                                                    <th className="px-4 py-2 text-left w-24">Tiền tố</th>
+                                                    <th className="px-4 py-2 text-left">Mẫu số</th>
+                                                    <th className="px-4 py-2 text-left w-32">Đánh lại</th>
+                                                    <th className="px-4 py-2 text-left">Số tiếp theo</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                                {(Object.keys(DEFAULT_NUMBERING) as NumberedDocType[]).map(type => {
+                                                    const rule = resolveNumberingRule(type, localSettings);
+                                                    const error = validateNumberingRule(rule);
+                                                    return (
+                                                        <tr key={type}>
+                                                            <td className="px-4 py-2 font-medium text-slate-700 dark:text-slate-200">{NUMBERED_DOC_LABELS[type]}</td>
+                                                            <td className="px-4 py-2">
+                                                                <FormInput value={rule.prefix} onChange={e => updateNumberingRule(type, { prefix: e.target.value.toUpperCase() })} className="font-mono" />
+                                                            </td>
+                                                            <td className="px-4 py-2">
+                                                                <FormInput value={rule.format} onChange={e => updateNumberingRule(type, { format: e.target.value })} className={`font-mono ${error ? 'border-red-500' : ''}`} title={error || undefined} />
+                                                            </td>
+                                                            <td className="px-4 py-2">
+                                                                <FormSelect value={rule.reset} onChange={e => updateNumberingRule(type, { reset: e.target.value as NumberingRule['reset'] })}>
+                                                                    <option value="yearly">Theo năm</option>
+                                                                    <option value="monthly">Theo tháng</option>
+                                                                    <option value="never">Không</option>
+                                                                </FormSelect>
+                                                            </td>
+                                                            <td className="px-4 py-2 font-mono text-xs text-blue-600">{error ? <span className="text-red-500 font-sans">{error}</span> : numberingPreview[type]}</td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
                                     </div>
+                                    <p className="text-[10px] text-slate-500 mt-2">Ký hiệu: {'{prefix}'} tiền tố, {'{yyyy}'} / {'{yy}'} năm, {'{mm}'} tháng, {'{dd}'} ngày, {'{seq:5}'} số thứ tự 5 chữ số.</p>
                                 </SettingSection>
 
+                                <SettingSection title="Người dùng & phân quyền" description="Tài khoản đăng nhập, mã PIN và quyền thao tác của từng vai trò.">
+                                    <UserManagement settings={localSettings} onChange={security => setLocalSettings({ ...localSettings, security })} />
+                                </SettingSection>
+
+                                <SettingSection title="Thùng rác" description="Dữ liệu đã xóa được giữ lại để khôi phục cho đến khi quản trị viên xóa vĩnh viễn.">
+                                    <FormField label="Tự động xóa vĩnh viễn sau (ngày)">
+                                        <FormInput
+                                            type="number"
+                                            min={0}
+                                            value={localSettings.system.recycleBinRetentionDays ?? 0}
+                                            onChange={e => setLocalSettings({ ...localSettings, system: { ...localSettings.system, recycleBinRetentionDays: Math.max(0, Number(e.target.value) || 0) } })}
+                                            className="max-w-[200px]"
+                                        />
+                                        <p className="text-[10px] text-slate-500 mt-1">Nhập 0 để giữ vô thời hạn. Việc dọn dẹp chạy mỗi khi mở ứng dụng; sản phẩm còn tồn và đối tác còn công nợ được giữ lại.</p>
+                                    </FormField>
+                                </SettingSection>
+
+                                <SettingSection title="Lưu giữ nhật ký" description="Nhật ký quá hạn được chuyển ra tệp lưu trữ nén khi quản trị viên chạy Lưu trữ tại trang Nhật ký hệ thống.">
+                                    <div className="space-y-6">
+                                        <div className="space-y-3">
+                                            <p className="text-xs font-bold text-slate-500 uppercase">Nhật ký hoạt động</p>
+                                            {logRetention.audit.length === 0 && <p className="text-sm text-slate-400 italic">Chưa có quy tắc, nhật ký được giữ vô thời hạn.</p>}
+                                            {logRetention.audit.map((rule, idx) => (
+                                                <div key={idx} className="flex items-center gap-3">
+                                                    <FormSelect value={rule.module} onChange={e => updateLogRule(idx, { module: e.target.value as AuditModule | 'all' })}>
+                                                        <option value="all">Mọi phân hệ</option>
+                                                        {(Object.keys(AUDIT_MODULE_LABELS) as AuditModule[]).map(m => <option key={m} value={m}>{AUDIT_MODULE_LABELS[m]}</option>)}
+                                                    </FormSelect>
+                                                    <FormSelect value={rule.severity} onChange={e => updateLogRule(idx, { severity: e.target.value as LogRetentionRule['severity'] })}>
+                                                        <option value="all">Mọi mức độ</option>
+                                                        {(Object.keys(AUDIT_SEVERITY_LABELS) as (keyof typeof AUDIT_SEVERITY_LABELS)[]).map(sev => <option key={sev} value={sev}>{AUDIT_SEVERITY_LABELS[sev]}</option>)}
+                                                    </FormSelect>
+                                                    <div className="relative w-40 shrink-0">
+                                                        <FormInput type="number" min={0} value={rule.days} onChange={e => updateLogRule(idx, { days: Math.max(0, Number(e.target.value) || 0) })} className="pr-12 font-bold" />
+                                                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs font-bold">ngày</span>
+                                                    </div>
+                                                    <button onClick={() => setLogRetention({ ...logRetention, audit: logRetention.audit.filter((_, i) => i !== idx) })} className="p-2 text-slate-400 hover:text-red-600 rounded-lg transition-colors" title="Xóa quy tắc">
+                                                        <span className="material-symbols-outlined text-[20px]">delete</span>
+                                                    </button>
+                                                </div>
+                                            ))}
+                                            <Button variant="outline" size="sm" icon="add" onClick={() => setLogRetention({ ...logRetention, audit: [...logRetention.audit, { module: 'all', severity: 'all', days: 365 }] })}>Thêm quy tắc</Button>
+                                            <p className="text-[10px] text-slate-500">Quy tắc cụ thể nhất được áp dụng (phân hệ và mức độ, rồi đến phân hệ, rồi đến mức độ). Nhập 0 ngày để giữ vô thời hạn.</p>
+                                        </div>
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                            {(['error', 'warning'] as ErrorLog['severity'][]).map(sev => (
+                                                <FormField key={sev} label={sev === 'error' ? 'Lỗi hệ thống: mức Lỗi (ngày)' : 'Lỗi hệ thống: mức Cảnh báo (ngày)'}>
+                                                    <FormInput
+                                                        type="number"
+                                                        min={0}
+                                                        value={logRetention.errors[sev] ?? 0}
+                                                        onChange={e => setLogRetention({ ...logRetention, errors: { ...logRetention.errors, [sev]: Math.max(0, Number(e.target.value) || 0) } })}
+                                                        className="max-w-[200px]"
+                                                    />
+                                                </FormField>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </SettingSection>
+
+                                {desktopPaths && (
+                                    <SettingSection title="Ứng dụng máy tính" description="Dữ liệu được lưu cục bộ trên máy này.">
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                            {([
+                                                ['Phiên bản', desktopPaths.appVersion],
+                                                ['Thư mục dữ liệu', desktopPaths.userData],
+                                                ['Thư mục tài liệu', desktopPaths.documents],
+                                                ['Thư mục nhật ký', desktopPaths.logs],
+                                            ] as const).map(([label, value]) => (
+                                                <div key={label}>
+                                                    <p className="text-xs font-bold text-slate-500 uppercase">{label}</p>
+                                                    <p className="font-mono text-slate-800 dark:text-slate-200 break-all mt-0.5">{value}</p>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </SettingSection>
+                                )}
+
                                 {/* Improvement 3: Visual Backup Cards */}
                                 <SettingSection title="Sao lưu & Khôi phục">
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                         <div 
-                                            onClick={handleExport}
+                                            onClick={openExport}
                                             className="group cursor-pointer p-6 rounded-2xl bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-lg shadow-blue-500/20 relative overflow-hidden transition-transform hover:scale-[1.02]"
                                         >
                                             <div className="relative z-10">
@@ -698,13 +1087,13 @@ const Settings: React.FC = () => {
                                                     <span className="material-symbols-outlined text-[28px]">cloud_download</span>
                                                 </div>
                                                 <h3 className="text-lg font-black">Xuất Dữ Liệu (Backup)</h3>
-                                                <p className="text-blue-100 text-sm mt-1 opacity-90">Tải xuống file JSON an toàn.</p>
+                                                <p className="text-blue-100 text-sm mt-1 opacity-90">Tải xuống file JSON, có thể mã hóa bằng mật khẩu.</p>
                                             </div>
                                             <span className="material-symbols-outlined absolute -bottom-4 -right-4 text-[120px] opacity-10">download</span>
                                         </div>
 
                                         <div 
-                                            onClick={() => fileInputRef.current?.click()}
+                                            onClick={handleChooseBackup}
                                             className="group cursor-pointer p-6 rounded-2xl bg-white dark:bg-slate-800 border-2 border-dashed border-slate-300 dark:border-slate-700 hover:border-blue-500 dark:hover:border-blue-500 transition-colors relative overflow-hidden"
                                         >
                                             <div className="relative z-10">
@@ -712,9 +1101,9 @@ const Settings: React.FC = () => {
                                                     <span className="material-symbols-outlined text-[28px]">cloud_upload</span>
                                                 </div>
                                                 <h3 className="text-lg font-bold text-slate-900 dark:text-white">Khôi Phục (Restore)</h3>
-                                                <p className="text-slate-500 text-sm mt-1">Nhấp để chọn file backup.</p>
+                                                <p className="text-slate-500 text-sm mt-1">Nhấp để chọn file backup. Chọn nhiều file để khôi phục theo thời điểm.</p>
                                             </div>
-                                            <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".json" className="hidden" />
+                                            <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".json,.gz" multiple className="hidden" />
                                         </div>
                                     </div>
                                 </SettingSection>
@@ -796,7 +1185,10 @@ const Settings: React.FC = () => {
                                                     {issue.suggestedFix && (
                                                         <div className="mt-3 p-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-xs text-blue-700 dark:text-blue-300 flex items-start gap-2">
                                                             <span className="material-symbols-outlined text-[14px] mt-0.5">lightbulb</span>
-                                                            <span><span className="font-bold">Gợi ý:</span> {issue.suggestedFix}</span>
+                                                            <span className="flex-1"><span className="font-bold">Gợi ý:</span> {issue.suggestedFix.description}</span>
+                                                            {can('data.repair') && (
+                                                                <Button variant="outline" size="sm" icon="build" loading={fixingIssue === issue} disabled={!!fixingIssue} onClick={() => handleApplyFix(issue)}>Áp dụng</Button>
+                                                            )}
                                                         </div>
                                                     )}
                                                 </div>
@@ -821,7 +1213,9 @@ const Settings: React.FC = () => {
                                 </button>
                                 <button 
                                     onClick={handleSave}
-                                    className="px-4 py-1.5 rounded-full text-xs font-bold bg-blue-500 hover:bg-blue-600 text-white shadow-lg transition-colors"
+                                    disabled={!can('settings.edit')}
+                                    title={can('settings.edit') ? undefined : 'Bạn không có quyền sửa cài đặt'}
+                                    className="px-4 py-1.5 rounded-full text-xs font-bold bg-blue-500 hover:bg-blue-600 text-white shadow-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                     Lưu thay đổi
                                 </button>
@@ -843,17 +1237,159 @@ const Settings: React.FC = () => {
                 />
             )}
 
+            {/* Backup Export Modal */}
+            <Modal
+                isOpen={isExportOpen}
+                onClose={() => setIsExportOpen(false)}
+                title="Xuất dữ liệu"
+                subtitle="Bản sao lưu chứa thông tin khách hàng, công nợ và cấu hình."
+                size="sm"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={() => setIsExportOpen(false)} disabled={isExporting}>Hủy</Button>
+                        {exportMode === 'stream' ? (
+                            <Button icon="folder_zip" onClick={handleExport} loading={isExporting}>Xuất bản nén</Button>
+                        ) : (
+                            <Button icon={exportPassphrase.secret ? 'lock' : 'download'} onClick={handleExport} loading={isExporting}>
+                                {exportPassphrase.secret ? 'Xuất bản mã hóa' : 'Xuất không mã hóa'}
+                            </Button>
+                        )}
+                    </>
+                }
+            >
+                <div className="space-y-4">
+                    <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+                        {(['full', 'incremental', 'stream'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setExportMode(mode)}
+                                disabled={(mode === 'incremental' && !lastCheckpointAt) || isExporting}
+                                className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all disabled:opacity-40 ${exportMode === mode ? 'bg-white dark:bg-slate-700 shadow text-blue-600 dark:text-blue-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                            >
+                                {mode === 'full' ? 'Đầy đủ' : mode === 'incremental' ? 'Gia tăng' : 'Nén (dữ liệu lớn)'}
+                            </button>
+                        ))}
+                    </div>
+                    {exportMode === 'stream' ? (
+                        <>
+                            <p className="text-[10px] text-slate-500">
+                                Xuất toàn bộ dữ liệu theo từng trang vào một file .ndjson.gz kèm mã kiểm tra, không làm treo giao diện. Bản nén không hỗ trợ mật khẩu, không kèm tài khoản người dùng và chỉ khôi phục được theo kiểu ghi đè.
+                            </p>
+                            {backupProgress && <BackupProgressBar progress={backupProgress} />}
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-[10px] text-slate-500">
+                                {lastCheckpointAt
+                                    ? `Bản gia tăng chỉ chứa dữ liệu thay đổi từ lần sao lưu lúc ${new Date(lastCheckpointAt).toLocaleString('vi-VN')}. Giữ tất cả các file trong chuỗi để khôi phục.`
+                                    : 'Chưa có bản sao lưu nào làm mốc, lần này cần xuất bản đầy đủ.'}
+                            </p>
+                            <FormField label="Mật khẩu bảo vệ (tùy chọn)">
+                                <FormInput type="password" value={exportPassphrase.secret} onChange={e => setExportPassphrase({ ...exportPassphrase, secret: e.target.value })} autoComplete="new-password" />
+                            </FormField>
+                            {exportPassphrase.secret && (
+                                <FormField label="Nhập lại mật khẩu">
+                                    <FormInput type="password" value={exportPassphrase.confirm} onChange={e => setExportPassphrase({ ...exportPassphrase, confirm: e.target.value })} autoComplete="new-password" />
+                                </FormField>
+                            )}
+                            <p className="text-[10px] text-slate-500">File được mã hóa AES-256-GCM. Không có cách nào khôi phục nếu quên mật khẩu.</p>
+                            {!exportPassphrase.secret && (
+                                <p className="text-[10px] font-bold text-amber-600">Bản không mã hóa không kèm tài khoản người dùng và mã PIN. Khi khôi phục, các tài khoản hiện có trên máy được giữ nguyên.</p>
+                            )}
+                        </>
+                    )}
+                </div>
+            </Modal>
+
+            {/* Encrypted Backup Passphrase Modal */}
+            <Modal
+                isOpen={!!encryptedFiles}
+                onClose={closePassphrasePrompt}
+                title="Bản sao lưu đã mã hóa"
+                subtitle={encryptedFiles?.map(f => f.name).join(', ')}
+                size="sm"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={closePassphrasePrompt} disabled={isDecrypting}>Hủy</Button>
+                        <Button icon="lock_open" onClick={handleDecrypt} loading={isDecrypting} disabled={!restorePassphrase}>Mở khóa</Button>
+                    </>
+                }
+            >
+                <div className="space-y-3">
+                    <FormField label="Mật khẩu sao lưu">
+                        <FormInput type="password" value={restorePassphrase} onChange={e => setRestorePassphrase(e.target.value)} onKeyDown={e => e.key === 'Enter' && restorePassphrase && handleDecrypt()} autoFocus />
+                    </FormField>
+                    {passphraseError && <p className="text-xs font-bold text-red-600">{passphraseError}</p>}
+                </div>
+            </Modal>
+
+            {chainBackups && (
+                <PointInTimeRestoreModal
+                    backups={chainBackups}
+                    onClose={() => setChainBackups(null)}
+                    onConfirm={(data, acceptUnverified) => { setChainBackups(null); handleRestore('replace', data, undefined, acceptUnverified); }}
+                />
+            )}
+
+            {/* Streamed Backup Restore Modal */}
+            <Modal
+                isOpen={!!streamFile}
+                onClose={() => !isRestoring && setStreamFile(null)}
+                title="Khôi phục bản sao lưu nén?"
+                subtitle={streamFile?.name}
+                size="sm"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={() => setStreamFile(null)} disabled={isRestoring}>Hủy</Button>
+                        <Button variant="danger" icon="history" onClick={handleStreamRestore} loading={isRestoring}>Khôi phục (Ghi đè)</Button>
+                    </>
+                }
+            >
+                <div className="space-y-3">
+                    <p className="text-sm text-slate-600 dark:text-slate-300">
+                        File được kiểm tra toàn bộ mã kiểm tra và chuỗi nhật ký trước, sau đó thay thế toàn bộ dữ liệu hiện tại. Nếu có lỗi giữa chừng, dữ liệu hiện tại được giữ nguyên.
+                    </p>
+                    {backupProgress && <BackupProgressBar progress={backupProgress} />}
+                </div>
+            </Modal>
+
             {/* Restore Confirmation Modal */}
-            <ConfirmModal 
+            <Modal
                 isOpen={isRestoreConfirmOpen}
+                onClose={() => setIsRestoreConfirmOpen(false)}
                 title="Khôi phục dữ liệu?"
-                message={`File backup chứa ${Object.values(backupAnalysis?.summary || {}).reduce((a: number, b: number) => a + b, 0)} bản ghi. Hành động này sẽ thay thế dữ liệu hiện tại.`}
-                confirmLabel="Khôi phục (Ghi đè)"
-                cancelLabel="Hủy"
-                onConfirm={() => { setIsRestoreConfirmOpen(false); handleRestore('replace'); }}
-                onCancel={() => setIsRestoreConfirmOpen(false)}
-                type="warning"
-            />
+                size="sm"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={() => setIsRestoreConfirmOpen(false)}>Hủy</Button>
+                        <Button variant="outline" icon="merge" onClick={() => { setIsRestoreConfirmOpen(false); setIsMergePreviewOpen(true); }} disabled={needsUnverifiedConfirm}>Hợp nhất...</Button>
+                        <Button variant="danger" icon="history" onClick={() => { setIsRestoreConfirmOpen(false); handleRestore('replace'); }} loading={isRestoring} disabled={needsUnverifiedConfirm}>Ghi đè</Button>
+                    </>
+                }
+            >
+                <div className="space-y-3">
+                    <p className="text-sm text-slate-600 dark:text-slate-300">
+                        File backup chứa {Object.values(backupAnalysis?.summary || {}).reduce((a: number, b: number) => a + b, 0)} bản ghi. Ghi đè sẽ thay thế toàn bộ dữ liệu hiện tại; hợp nhất cho phép xem trước và chọn bản ghi cần giữ.
+                    </p>
+                    {backupAnalysis?.warnings.map(w => (
+                        <p key={w} className="text-xs font-medium text-orange-600 bg-orange-50 dark:bg-orange-900/20 border border-orange-100 dark:border-orange-900/30 rounded-lg px-3 py-2">{w}</p>
+                    ))}
+                    {!!backupAnalysis?.correctedData.metadata.unverifiedAuditLogs && (
+                        <label className="flex items-start gap-2 cursor-pointer">
+                            <input type="checkbox" checked={acceptUnverifiedHistory} onChange={e => setAcceptUnverifiedHistory(e.target.checked)} className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500" />
+                            <span className="text-sm font-medium text-slate-700 dark:text-slate-200">Tôi chấp nhận lịch sử hoạt động chưa được xác minh. Việc khôi phục sẽ được ghi vào nhật ký.</span>
+                        </label>
+                    )}
+                </div>
+            </Modal>
+
+            {isMergePreviewOpen && backupAnalysis && (
+                <MergePreviewModal
+                    backup={backupAnalysis.correctedData}
+                    onClose={() => setIsMergePreviewOpen(false)}
+                    onConfirm={resolution => { setIsMergePreviewOpen(false); handleRestore('merge', backupAnalysis.correctedData, resolution); }}
+                />
+            )}
         </PageShell>
     );
 };
@@ -1,17 +1,23 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { db } from '../services/db';
 import { useDexieTable } from '../hooks/useDexieTable';
-import { AuditLog, AuditAction, ErrorLog, ReconcileIssue } from '../types';
+import { AuditLog, AuditAction, AuditFieldChange, ErrorLog, ReconcileIssue } from '../types';
+import { getAuditDiff, verifyStoredAuditChain } from '../services/audit';
+import { AuditChainReport } from '../services/auditChain';
 import { PageShell, PageHeader, Button } from '../components/ui/Primitives';
 import { FilterBar, FilterChip } from '../components/ui/FilterBar';
 import { DataTable, ColumnDef } from '../components/ui/DataTable';
 import Pagination from '../components/Pagination';
 import { useAppContext } from '../contexts/AppContext';
-import { downloadTextFile, parseISOToDate, toCSV, formatRelativeTime } from '../utils/helpers';
+import { downloadTextFile, parseISOToDate, toCSV, formatRelativeTime, pickDesktopFiles } from '../utils/helpers';
 import { Table } from 'dexie';
 import { Drawer, DrawerSection } from '../components/ui/Drawer';
 import { DateRangeFilter } from '../components/filters/DateRangeFilter';
+import { AuditDiffTable } from '../components/audit/AuditDiffTable';
+import { RestoreVersionModal } from '../components/audit/RestoreVersionModal';
+import { isRestorableLog, RESTORE_TARGETS } from '../services/restore';
+import { countExpiredLogs, readLogArchive, LogArchiveFile } from '../services/logArchive';
 
 // Define a strict ErrorLog type where id is required
 interface TableErrorLog extends Omit<ErrorLog, 'id'> {
@@ -49,68 +55,42 @@ const StatCard = ({ title, value, icon, color, subValue, onClick, isActive }: an
 );
 
 // Improvement 1: Smart Diff Viewer
-const SmartDiffViewer = ({ before, after }: { before: any, after: any }) => {
-    if (!before && !after) return <p className="text-sm text-slate-400 italic">Không có dữ liệu thay đổi.</p>;
-    
-    // Calculate differences
-    const allKeys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
-    const changes: { key: string, oldVal: any, newVal: any }[] = [];
+const SmartDiffViewer = ({ log }: { log: AuditLog }) => {
+    if (!log.before && !log.after) return <p className="text-sm text-slate-400 italic">Không có dữ liệu thay đổi.</p>;
 
-    allKeys.forEach(key => {
-        const oldVal = before ? before[key] : undefined;
-        const newVal = after ? after[key] : undefined;
-        
-        // Simple equality check (works for primitives, ignores deep objects for now to keep UI clean)
-        if (JSON.stringify(oldVal) !== JSON.stringify(newVal)) {
-            // Ignore internal keys
-            if (key === 'updatedAt' || key === 'createdAt') return;
-            changes.push({ key, oldVal, newVal });
-        }
-    });
+    const diff = getAuditDiff(log);
+    // One-sided snapshots (create / delete) have nothing to compare against, so list the values as recorded
+    const changes: AuditFieldChange[] = diff?.fields || (!log.before || !log.after
+        ? Object.entries(log.before || log.after)
+            .filter(([key]) => key !== 'items' && key !== 'updatedAt' && key !== 'createdAt')
+            .map(([field, value]) => ({ field, before: log.before ? value : undefined, after: log.after ? value : undefined }))
+        : []);
+    const items = diff?.items || [];
 
-    if (changes.length === 0) return <p className="text-sm text-slate-400 italic">Không phát hiện thay đổi nội dung (Chỉ thay đổi metadata).</p>;
+    if (changes.length === 0 && items.length === 0) return <p className="text-sm text-slate-400 italic">Không phát hiện thay đổi nội dung (Chỉ thay đổi metadata).</p>;
 
-    return (
-        <div className="bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
-            <table className="w-full text-sm text-left">
-                <thead className="bg-slate-100 dark:bg-slate-800 text-[10px] font-bold uppercase text-slate-500">
-                    <tr>
-                        <th className="px-4 py-2 w-1/4">Trường dữ liệu</th>
-                        <th className="px-4 py-2 w-1/3">Giá trị cũ</th>
-                        <th className="px-4 py-2 w-1/3">Giá trị mới</th>
-                    </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
-                    {changes.map((change, idx) => (
-                        <tr key={idx} className="hover:bg-slate-100 dark:hover:bg-slate-800/50 transition-colors">
-                            <td className="px-4 py-3 font-mono text-xs font-bold text-slate-600 dark:text-slate-400">{change.key}</td>
-                            <td className="px-4 py-3 text-red-600 dark:text-red-400 line-through decoration-red-300 text-xs break-all">
-                                {change.oldVal !== undefined && change.oldVal !== null ? String(change.oldVal) : <span className="italic opacity-50">null</span>}
-                            </td>
-                            <td className="px-4 py-3 text-emerald-600 dark:text-emerald-400 font-bold text-xs break-all">
-                                {change.newVal !== undefined && change.newVal !== null ? String(change.newVal) : <span className="italic opacity-50">null</span>}
-                            </td>
-                        </tr>
-                    ))}
-                </tbody>
-            </table>
-        </div>
-    );
+    return <AuditDiffTable changes={changes} items={items} />;
 };
 
 const LogDetailDrawer = ({ 
     isOpen, 
     onClose, 
     data, 
-    type 
+    type,
+    readOnly
 }: { 
     isOpen: boolean; 
     onClose: () => void; 
     data: any; 
-    type: 'error' | 'audit' 
+    type: 'error' | 'audit';
+    readOnly?: boolean; // Entries opened from an archive file are not in the database
 }) => {
+    const { can } = useAppContext();
+    const [isRestoring, setIsRestoring] = useState(false);
     if (!data) return null;
 
+    const restoreTarget = type === 'audit' && !readOnly && isRestorableLog(data) ? RESTORE_TARGETS[data.entityType] : undefined;
+
     return (
         <Drawer
             isOpen={isOpen}
@@ -187,8 +167,14 @@ const LogDetailDrawer = ({
 
                         {/* Improvement 1: Use Smart Diff Viewer */}
                         <DrawerSection title="Chi tiết thay đổi">
-                            <SmartDiffViewer before={data.before} after={data.after} />
+                            <SmartDiffViewer log={data} />
+                            {restoreTarget && can(restoreTarget.permission) && (
+                                <div className="flex justify-end mt-3">
+                                    <Button variant="outline" size="sm" icon="restore" onClick={() => setIsRestoring(true)}>Khôi phục phiên bản này</Button>
+                                </div>
+                            )}
                         </DrawerSection>
+                        {isRestoring && <RestoreVersionModal log={data} onClose={() => setIsRestoring(false)} onRestored={onClose} />}
                         
                         {data.tags && data.tags.length > 0 && (
                             <DrawerSection title="Thẻ (Tags)">
@@ -211,8 +197,8 @@ const LogDetailDrawer = ({
 // --- MAIN PAGE ---
 
 const SystemLogs: React.FC = () => {
-    const { generateDebugBundle, reconcileData, showNotification } = useAppContext();
-    const [activeTab, setActiveTab] = useState<'audit' | 'errors' | 'health'>('audit');
+    const { generateDebugBundle, reconcileData, applyReconcileFix, archiveLogs, settings, currentUser, showNotification, can } = useAppContext();
+    const [activeTab, setActiveTab] = useState<'audit' | 'errors' | 'health' | 'archive'>('audit');
     
     // --- Error Logs State ---
     const [errorSearch, setErrorSearch] = useState('');
@@ -229,6 +215,16 @@ const SystemLogs: React.FC = () => {
     const [healthIssues, setHealthIssues] = useState<ReconcileIssue[] | null>(null);
     const [isChecking, setIsChecking] = useState(false);
     const [checkProgress, setCheckProgress] = useState(0);
+    const [fixingIssue, setFixingIssue] = useState<ReconcileIssue | null>(null);
+    const [chainReport, setChainReport] = useState<AuditChainReport | null>(null);
+    const [isVerifyingChain, setIsVerifyingChain] = useState(false);
+
+    // --- Archive State ---
+    const [dueCounts, setDueCounts] = useState<{ audit: number; errors: number } | null>(null);
+    const [isArchiving, setIsArchiving] = useState(false);
+    const [openedArchive, setOpenedArchive] = useState<{ name: string; archive: LogArchiveFile; report: AuditChainReport } | null>(null);
+    const [archivePage, setArchivePage] = useState(1);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
 
     // --- Detail Drawer State ---
     const [selectedItem, setSelectedItem] = useState<any | null>(null);
@@ -271,8 +267,9 @@ const SystemLogs: React.FC = () => {
     const handleExportBundle = async () => {
         try {
             const bundle = await generateDebugBundle();
-            downloadTextFile(`debug-bundle-${new Date().toISOString().slice(0,10)}.json`, bundle, 'application/json');
-            showNotification('Đã xuất gói tin gỡ lỗi thành công', 'success');
+            if (await downloadTextFile(`debug-bundle-${new Date().toISOString().slice(0,10)}.json`, bundle, 'application/json')) {
+                showNotification('Đã xuất gói tin gỡ lỗi thành công', 'success');
+            }
         } catch (e) {
             showNotification('Lỗi xuất gói tin', 'error');
         }
@@ -296,8 +293,83 @@ const SystemLogs: React.FC = () => {
             { key: 'Summary', label: 'Nội dung' },
             { key: 'Ref', label: 'Mã tham chiếu' }
         ]);
-        downloadTextFile(`AuditLog_${new Date().toISOString().slice(0,10)}.csv`, content);
-        showNotification('Đã xuất CSV nhật ký', 'success');
+        if (await downloadTextFile(`AuditLog_${new Date().toISOString().slice(0,10)}.csv`, content)) {
+            showNotification('Đã xuất CSV nhật ký', 'success');
+        }
+    };
+
+    const handleApplyFix = async (issue: ReconcileIssue) => {
+        if (!issue.suggestedFix || fixingIssue) return;
+        setFixingIssue(issue);
+        try {
+            await applyReconcileFix(issue);
+            setHealthIssues(prev => prev ? prev.filter(i => i !== issue) : prev);
+            showNotification('Đã áp dụng sửa lỗi', 'success');
+        } catch (e: any) {
+            showNotification(e.message || 'Không thể áp dụng sửa lỗi', 'error');
+        } finally {
+            setFixingIssue(null);
+        }
+    };
+
+    const runChainCheck = async () => {
+        setIsVerifyingChain(true);
+        try {
+            setChainReport(await verifyStoredAuditChain());
+        } catch (e) {
+            showNotification('Lỗi khi kiểm tra nhật ký', 'error');
+        } finally {
+            setIsVerifyingChain(false);
+        }
+    };
+
+    const openBrokenEntry = async (id: string) => {
+        const log = await db.auditLogs.get(id);
+        if (log) { setSelectedItem(log); setDrawerType('audit'); }
+    };
+
+    useEffect(() => {
+        if (activeTab !== 'archive') return;
+        countExpiredLogs(settings.system.logRetention).then(setDueCounts);
+    }, [activeTab, settings.system.logRetention]);
+
+    const handleArchive = async () => {
+        setIsArchiving(true);
+        try {
+            await archiveLogs();
+            setDueCounts(await countExpiredLogs(settings.system.logRetention));
+        } catch (e: any) {
+            showNotification(e.message, 'error');
+        } finally {
+            setIsArchiving(false);
+        }
+    };
+
+    const handleChooseArchive = async () => {
+        try {
+            const files = await pickDesktopFiles({ name: 'Lưu trữ nhật ký', extensions: ['gz'] });
+            if (files) await openArchiveFile(files[0]);
+            else archiveInputRef.current?.click();
+        } catch (err: any) {
+            showNotification(err.message, 'error');
+        }
+    };
+
+    const handleOpenArchive = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        return openArchiveFile(file);
+    };
+
+    const openArchiveFile = async (file?: File) => {
+        if (!file) return;
+        try {
+            const { archive, report } = await readLogArchive(file);
+            setOpenedArchive({ name: file.name, archive, report });
+            setArchivePage(1);
+        } catch (err: any) {
+            showNotification(err.message, 'error');
+        }
     };
 
     const runHealthCheck = async () => {
@@ -414,7 +486,9 @@ const SystemLogs: React.FC = () => {
             Payment: 'bg-teal-50 text-teal-600 border-teal-100 dark:bg-teal-900/20 dark:text-teal-400 dark:border-teal-800',
             Restore: 'bg-lime-50 text-lime-600 border-lime-100 dark:bg-lime-900/20 dark:text-lime-400 dark:border-lime-800',
             Adjust: 'bg-indigo-50 text-indigo-600 border-indigo-100 dark:bg-indigo-900/20 dark:text-indigo-400 dark:border-indigo-800',
-            Lock: 'bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700'
+            Lock: 'bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700',
+            Approve: 'bg-emerald-50 text-emerald-600 border-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800',
+            Reject: 'bg-red-50 text-red-600 border-red-100 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800'
         };
         return <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${styles[action] || 'bg-slate-100 text-slate-500'}`}>{action}</span>;
     };
@@ -497,6 +571,9 @@ const SystemLogs: React.FC = () => {
                     <button onClick={() => setActiveTab('health')} className={`py-4 text-sm font-bold border-b-2 transition-all flex items-center gap-2 ${activeTab === 'health' ? 'border-emerald-600 text-emerald-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
                         <span className="material-symbols-outlined text-[18px]">monitor_heart</span> Sức khỏe dữ liệu
                     </button>
+                    <button onClick={() => setActiveTab('archive')} className={`py-4 text-sm font-bold border-b-2 transition-all flex items-center gap-2 ${activeTab === 'archive' ? 'border-slate-600 text-slate-700 dark:text-slate-200' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                        <span className="material-symbols-outlined text-[18px]">inventory</span> Lưu trữ
+                    </button>
                 </div>
 
                 {/* Tab Content */}
@@ -601,6 +678,34 @@ const SystemLogs: React.FC = () => {
                                     </div>
                                 </div>
 
+                                {/* Audit chain integrity */}
+                                <div className="p-5 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-4">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div>
+                                            <h3 className="font-bold text-slate-800 dark:text-white">Toàn vẹn nhật ký hoạt động</h3>
+                                            <p className="text-xs text-slate-500 mt-0.5">Mỗi bản ghi được băm nối tiếp bản ghi trước. Sửa, chèn hay xóa bất kỳ bản ghi nào đều làm đứt chuỗi.</p>
+                                        </div>
+                                        <Button variant="outline" size="sm" icon="verified_user" onClick={runChainCheck} loading={isVerifyingChain}>Kiểm tra</Button>
+                                    </div>
+                                    {chainReport && (chainReport.ok ? (
+                                        <p className="text-sm font-bold text-emerald-600 flex items-center gap-2">
+                                            <span className="material-symbols-outlined text-[18px]">verified</span>
+                                            {chainReport.checked} bản ghi nguyên vẹn.
+                                        </p>
+                                    ) : (
+                                        <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 flex items-start justify-between gap-4">
+                                            <div className="text-sm text-red-700 dark:text-red-400 space-y-1">
+                                                <p className="font-bold flex items-center gap-2"><span className="material-symbols-outlined text-[18px]">gpp_bad</span>{chainReport.firstBreak!.reason}</p>
+                                                <p className="text-xs">
+                                                    Bản ghi đầu tiên bị ảnh hưởng: {chainReport.firstBreak!.seq ? `#${chainReport.firstBreak!.seq} · ` : ''}
+                                                    {new Date(chainReport.firstBreak!.createdAt).toLocaleString('vi-VN')} · {chainReport.firstBreak!.summary}
+                                                </p>
+                                            </div>
+                                            <Button variant="ghost" size="sm" icon="visibility" onClick={() => openBrokenEntry(chainReport.firstBreak!.id)}>Xem</Button>
+                                        </div>
+                                    ))}
+                                </div>
+
                                 {/* Results */}
                                 {healthIssues && (
                                     <div className="animate-[fadeIn_0.3s_ease-out] space-y-4">
@@ -642,13 +747,15 @@ const SystemLogs: React.FC = () => {
                                                             {issue.suggestedFix && (
                                                                 <div className="mt-3 flex items-start gap-2 bg-blue-50 dark:bg-blue-900/10 p-3 rounded-lg text-xs text-blue-700 dark:text-blue-300">
                                                                     <span className="material-symbols-outlined text-[16px] shrink-0">lightbulb</span>
-                                                                    <span><span className="font-bold">Gợi ý:</span> {issue.suggestedFix}</span>
+                                                                    <span><span className="font-bold">Gợi ý:</span> {issue.suggestedFix.description}</span>
                                                                 </div>
                                                             )}
                                                         </div>
-                                                        <button className="p-2 text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors" title="Thử sửa lỗi này">
-                                                            <span className="material-symbols-outlined text-[20px]">build</span>
-                                                        </button>
+                                                        {issue.suggestedFix && can('data.repair') && (
+                                                            <button onClick={() => handleApplyFix(issue)} disabled={!!fixingIssue} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50" title="Thử sửa lỗi này">
+                                                                <span className={`material-symbols-outlined text-[20px] ${fixingIssue === issue ? 'animate-spin' : ''}`}>{fixingIssue === issue ? 'progress_activity' : 'build'}</span>
+                                                            </button>
+                                                        )}
                                                     </div>
                                                 ))}
                                                 <div className="flex justify-center mt-4">
@@ -661,6 +768,62 @@ const SystemLogs: React.FC = () => {
                             </div>
                         </div>
                     )}
+
+                    {activeTab === 'archive' && (
+                        <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                            <div className="max-w-5xl mx-auto space-y-6">
+                                <div className="p-5 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex items-start justify-between gap-4">
+                                    <div>
+                                        <h3 className="font-bold text-slate-800 dark:text-white">Nhật ký quá hạn lưu giữ</h3>
+                                        <p className="text-xs text-slate-500 mt-0.5">
+                                            {!settings.system.logRetention
+                                                ? 'Chưa thiết lập thời hạn lưu giữ. Cấu hình tại Cài đặt › Hệ thống.'
+                                                : dueCounts
+                                                    ? `${dueCounts.audit} hoạt động và ${dueCounts.errors} lỗi sẽ được chuyển ra tệp lưu trữ nén (.json.gz) rồi xóa khỏi máy.`
+                                                    : 'Đang đếm...'}
+                                        </p>
+                                    </div>
+                                    {currentUser.role === 'admin' && (
+                                        <Button icon="archive" onClick={handleArchive} loading={isArchiving} disabled={!dueCounts || dueCounts.audit + dueCounts.errors === 0}>Lưu trữ ngay</Button>
+                                    )}
+                                </div>
+
+                                <div className="p-5 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-4">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div>
+                                            <h3 className="font-bold text-slate-800 dark:text-white">Xem tệp lưu trữ</h3>
+                                            <p className="text-xs text-slate-500 mt-0.5">Tệp được kiểm tra mã băm và chỉ mở để xem, không ghi lại vào dữ liệu.</p>
+                                        </div>
+                                        <Button variant="outline" size="sm" icon="folder_open" onClick={handleChooseArchive}>Mở tệp</Button>
+                                        <input ref={archiveInputRef} type="file" accept=".gz" className="hidden" onChange={handleOpenArchive} />
+                                    </div>
+                                    {openedArchive && (
+                                        <>
+                                            <div className={`p-4 rounded-xl border text-sm ${openedArchive.report.ok ? 'bg-emerald-50 border-emerald-100 text-emerald-700 dark:bg-emerald-900/10 dark:border-emerald-900/30 dark:text-emerald-400' : 'bg-red-50 border-red-100 text-red-700 dark:bg-red-900/10 dark:border-red-900/30 dark:text-red-400'}`}>
+                                                <p className="font-bold flex items-center gap-2">
+                                                    <span className="material-symbols-outlined text-[18px]">{openedArchive.report.ok ? 'verified' : 'gpp_bad'}</span>
+                                                    {openedArchive.report.ok ? `${openedArchive.name}: nguyên vẹn` : `${openedArchive.name}: ${openedArchive.report.firstBreak!.reason}`}
+                                                </p>
+                                                <p className="text-xs mt-1">
+                                                    Lưu trữ lúc {new Date(openedArchive.archive.metadata.archivedAt).toLocaleString('vi-VN')} bởi {openedArchive.archive.metadata.archivedBy}
+                                                    {' · '}{openedArchive.archive.auditLogs.length} hoạt động, {openedArchive.archive.errorLogs.length} lỗi
+                                                    {!openedArchive.report.ok && ` · Bản ghi đầu tiên bị ảnh hưởng: ${openedArchive.report.firstBreak!.seq ? `#${openedArchive.report.firstBreak!.seq}` : openedArchive.report.firstBreak!.id}`}
+                                                </p>
+                                            </div>
+                                            <DataTable
+                                                data={openedArchive.archive.auditLogs.slice((archivePage - 1) * 15, archivePage * 15)}
+                                                columns={auditColumns}
+                                                emptyIcon="history"
+                                                emptyMessage="Tệp không có nhật ký hoạt động"
+                                                rowClassName={auditRowClass}
+                                            />
+                                            <Pagination currentPage={archivePage} totalItems={openedArchive.archive.auditLogs.length} pageSize={15} onPageChange={setArchivePage} />
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -669,6 +832,7 @@ const SystemLogs: React.FC = () => {
                 onClose={() => setSelectedItem(null)} 
                 data={selectedItem} 
                 type={drawerType} 
+                readOnly={activeTab === 'archive'}
             />
         </PageShell>
     );
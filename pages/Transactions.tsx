@@ -17,6 +17,10 @@ const CATEGORY_LABELS: Record<string, string> = {
     'import': 'Nhập hàng',
     'debt_collection': 'Thu nợ',
     'debt_payment': 'Trả nợ',
+    'sale_return': 'Khách trả hàng',
+    'sale_refund': 'Hoàn tiền hủy đơn',
+    'import_refund': 'NCC hoàn tiền',
+    'purchase_return': 'Trả hàng NCC',
     'manual': 'Thủ công',
     'other': 'Khác'
 };
@@ -26,6 +30,10 @@ const CATEGORY_ICONS: Record<string, string> = {
     'import': 'inventory',
     'debt_collection': 'account_balance_wallet',
     'debt_payment': 'credit_card',
+    'sale_return': 'assignment_return',
+    'sale_refund': 'money_off',
+    'import_refund': 'currency_exchange',
+    'purchase_return': 'keyboard_return',
     'manual': 'edit_note',
     'other': 'category'
 };
@@ -67,6 +75,7 @@ const TransactionRow: React.FC<TransactionRowProps> = ({ transaction, onClick })
                         )}
                     </div>
                     <div className="flex items-center gap-2 text-xs text-slate-500">
+                        {transaction.code && <><span className="font-mono">{transaction.code}</span><span>•</span></>}
                         <span>{new Date(transaction.createdAt).toLocaleTimeString('vi-VN', {hour: '2-digit', minute:'2-digit'})}</span>
                         <span>•</span>
                         <span className="flex items-center gap-1">
@@ -94,7 +103,7 @@ const TransactionRow: React.FC<TransactionRowProps> = ({ transaction, onClick })
 };
 
 const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?: any }> = ({ initialParams }) => {
-    const { deleteTransaction, confirm } = useAppContext();
+    const { deleteTransaction, confirm, can } = useAppContext();
 
     // --- STATE ---
     const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(null);
@@ -136,6 +145,7 @@ const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?:
             const searchLower = debouncedSearch.toLowerCase();
             if (!t.description.toLowerCase().includes(searchLower) &&
                 !(t.referenceCode && t.referenceCode.toLowerCase().includes(searchLower)) &&
+                !(t.code && t.code.toLowerCase().includes(searchLower)) &&
                 !(t.partnerName && t.partnerName.toLowerCase().includes(searchLower))) return false;
         }
         if (typeFilter !== 'all' && t.type !== typeFilter) return false;
@@ -181,7 +191,7 @@ const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?:
     // --- REAL-TIME STATS CALCULATION ---
     useEffect(() => {
         const calcStats = async () => {
-            const all = await db.transactions.toArray();
+            const all = await db.transactions.filter(t => !t.isDeleted).toArray();
             const filtered = all.filter(filterFn);
             
             let inc = 0;
@@ -211,7 +221,7 @@ const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?:
     }, [filteredTransactions, selectedTransactionId, fetchedTransaction]);
 
     const handleDelete = async (id: string) => {
-        const ok = await confirm({ title: 'Xóa giao dịch?', message: 'Hành động này không thể hoàn tác.', type: 'danger' });
+        const ok = await confirm({ title: 'Xóa giao dịch?', message: 'Phiếu sẽ được chuyển vào thùng rác và không còn tính vào sổ quỹ.', type: 'danger' });
         if (ok) {
             await deleteTransaction(id);
             if (selectedTransactionId === id) { setSelectedTransactionId(null); setIsDetailDrawerOpen(false); }
@@ -232,18 +242,18 @@ const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?:
     };
 
     const handleExportCSV = async () => {
-        const all = await db.transactions.toArray();
+        const all = await db.transactions.filter(t => !t.isDeleted).toArray();
         const filtered = all.filter(filterFn);
-        const data = filtered.map(t => ({ date: t.date, type: t.type === 'income' ? 'Thu' : 'Chi', category: t.category, amount: t.amount, method: t.method === 'transfer' ? 'Chuyển khoản' : t.method === 'card' ? 'Thẻ' : 'Tiền mặt', desc: t.description, partner: t.partnerName, ref: t.referenceCode }));
-        const headers = [{ key: 'date', label: 'Ngày' }, { key: 'type', label: 'Loại' }, { key: 'category', label: 'Danh mục' }, { key: 'amount', label: 'Số tiền' }, { key: 'method', label: 'Phương thức' }, { key: 'desc', label: 'Mô tả' }, { key: 'partner', label: 'Đối tác' }, { key: 'ref', label: 'Chứng từ' }];
-        downloadTextFile(`SoQuy_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(data, headers));
+        const data = filtered.map(t => ({ code: t.code, date: t.date, type: t.type === 'income' ? 'Thu' : 'Chi', category: t.category, amount: t.amount, method: t.method === 'transfer' ? 'Chuyển khoản' : t.method === 'card' ? 'Thẻ' : 'Tiền mặt', desc: t.description, partner: t.partnerName, ref: t.referenceCode }));
+        const headers = [{ key: 'code', label: 'Số phiếu' }, { key: 'date', label: 'Ngày' }, { key: 'type', label: 'Loại' }, { key: 'category', label: 'Danh mục' }, { key: 'amount', label: 'Số tiền' }, { key: 'method', label: 'Phương thức' }, { key: 'desc', label: 'Mô tả' }, { key: 'partner', label: 'Đối tác' }, { key: 'ref', label: 'Chứng từ' }];
+        await downloadTextFile(`SoQuy_${new Date().toISOString().slice(0, 10)}.csv`, toCSV(data, headers));
     };
 
     const TransactionDetailDrawer = () => {
         if (!selectedTransaction) return null;
         const t = selectedTransaction;
         const isIncome = t.type === 'income';
-        const isLocked = t.category === 'debt_collection' || t.category === 'debt_payment' || t.category === 'sale' || t.category === 'import'; 
+        const isLocked = t.category === 'debt_collection' || t.category === 'debt_payment' || t.category === 'sale' || t.category === 'sale_return' || t.category === 'sale_refund' || t.category === 'import' || t.category === 'import_refund' || t.category === 'purchase_return' || !!t.lockedAt; 
 
         return (
             <Drawer
@@ -252,13 +262,13 @@ const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?:
                 title="Chi tiết giao dịch"
                 width="md"
                 footer={
-                    <Button variant="danger" className={`w-full ${isLocked ? 'opacity-70 cursor-not-allowed bg-slate-100 text-slate-500 border-slate-200 hover:bg-slate-100 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700' : ''}`} icon={isLocked ? "lock" : "delete"} onClick={() => !isLocked && handleDelete(t.id)} disabled={isLocked}>
-                        {isLocked ? 'Giao dịch hệ thống (Không thể xóa)' : 'Xóa giao dịch'}
+                    <Button variant="danger" className={`w-full ${isLocked ? 'opacity-70 cursor-not-allowed bg-slate-100 text-slate-500 border-slate-200 hover:bg-slate-100 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700' : ''}`} icon={isLocked ? "lock" : "delete"} onClick={() => !isLocked && handleDelete(t.id)} disabled={isLocked || !can('transactions.manage')}>
+                        {t.lockedAt ? 'Đã khóa sổ (Không thể xóa)' : isLocked ? 'Giao dịch hệ thống (Không thể xóa)' : 'Xóa giao dịch'}
                     </Button>
                 }
             >
                 <div className={`p-6 rounded-2xl text-white text-center mb-6 shadow-lg ${isIncome ? 'bg-gradient-to-br from-emerald-500 to-teal-600' : 'bg-gradient-to-br from-rose-500 to-pink-600'}`}>
-                    <p className="text-xs font-bold uppercase tracking-widest opacity-80 mb-1">{isIncome ? 'Khoản Thu' : 'Khoản Chi'}</p>
+                    <p className="text-xs font-bold uppercase tracking-widest opacity-80 mb-1">{isIncome ? 'Khoản Thu' : 'Khoản Chi'}{t.code && ` • ${t.code}`}</p>
                     <h3 className="text-4xl font-black tracking-tight">{formatCurrency(t.amount)}</h3>
                     <p className="text-sm font-medium opacity-90 mt-2 flex items-center justify-center gap-2"><span className="material-symbols-outlined text-[16px]">calendar_today</span> {t.date}</p>
                 </div>
@@ -333,7 +343,7 @@ const Transactions: React.FC<{ onNavigate: (view: any) => void; initialParams?:
                 rightActions={
                     <>
                         <Button variant="outline" icon="file_download" onClick={handleExportCSV} className="hidden sm:flex">Export</Button>
-                        <Button variant="primary" icon="add" onClick={() => setIsCreateModalOpen(true)}>Thêm mới</Button>
+                        {can('transactions.manage') && <Button variant="primary" icon="add" onClick={() => setIsCreateModalOpen(true)}>Thêm mới</Button>}
                     </>
                 }
             >
@@ -0,0 +1,61 @@
+import { db } from './db';
+import { ApprovalRequest, ApprovalRuleType, ApprovalRules, OrderItem, Partner } from '../types';
+import { formatCurrency } from '../utils/helpers';
+
+export type ApprovalReason = ApprovalRequest['reasons'][number];
+
+export const APPROVAL_RULE_LABELS: Record<ApprovalRuleType, { label: string; description: string; unit?: string }> = {
+    discount: { label: 'Chiết khấu vượt mức', description: 'Tổng giảm so với giá niêm yết (giá dòng và giảm giá đơn) vượt ngưỡng.', unit: '%' },
+    belowCost: { label: 'Bán dưới giá vốn', description: 'Có dòng hàng có đơn giá thấp hơn giá vốn hiện tại.' },
+    creditLimit: { label: 'Vượt hạn mức công nợ', description: 'Công nợ của khách sau đơn này vượt hạn mức đã đặt.' },
+    stockAdjustment: { label: 'Điều chỉnh tồn kho lớn', description: 'Chênh lệch kiểm kê vượt ngưỡng số lượng.', unit: 'đơn vị' },
+};
+
+// `price` on quote and order lines, `retailPrice` on POS cart lines (already carrying any custom price)
+const linePrice = (item: OrderItem & { retailPrice?: number }) => item.price ?? item.retailPrice ?? 0;
+
+// Rules only read the catalogue and the customer's balance, so this runs before the caller's transaction
+export const evaluateOrderApproval = async (
+    order: { items: OrderItem[]; discount?: number; total: number; amountPaid: number },
+    customer: Partner | undefined,
+    rules: ApprovalRules = {}
+): Promise<ApprovalReason[]> => {
+    const reasons: ApprovalReason[] = [];
+    const products = await db.products.bulkGet(order.items.map(i => i.id));
+
+    if (rules.discount?.enabled) {
+        const listTotal = order.items.reduce((sum, item, idx) => sum + (products[idx]?.retailPrice ?? linePrice(item)) * item.quantity, 0);
+        const netTotal = order.items.reduce((sum, item) => sum + linePrice(item) * item.quantity, 0) - (order.discount || 0);
+        const percent = listTotal > 0 ? (1 - netTotal / listTotal) * 100 : 0;
+        const threshold = rules.discount.threshold ?? 0;
+        if (percent > threshold + 0.001) {
+            reasons.push({ rule: 'discount', message: `Chiết khấu ${percent.toFixed(1)}% vượt mức ${threshold}%` });
+        }
+    }
+
+    if (rules.belowCost?.enabled) {
+        const below = order.items.filter((item, idx) => {
+            const cost = products[idx]?.importPrice || 0;
+            return cost > 0 && linePrice(item) < cost;
+        });
+        if (below.length > 0) {
+            reasons.push({ rule: 'belowCost', message: `Giá bán dưới giá vốn: ${below.map(i => i.sku).join(', ')}` });
+        }
+    }
+
+    if (rules.creditLimit?.enabled && customer?.debtLimit) {
+        const added = order.total - order.amountPaid;
+        const after = (customer.debt || 0) + added;
+        if (added > 0 && after > customer.debtLimit) {
+            reasons.push({ rule: 'creditLimit', message: `Công nợ sau đơn ${formatCurrency(after)} vượt hạn mức ${formatCurrency(customer.debtLimit)}` });
+        }
+    }
+
+    return reasons;
+};
+
+export const evaluateStockAdjustment = (diff: number, rules: ApprovalRules = {}): ApprovalReason[] => {
+    const rule = rules.stockAdjustment;
+    if (!rule?.enabled || Math.abs(diff) <= (rule.threshold ?? 0)) return [];
+    return [{ rule: 'stockAdjustment', message: `Chênh lệch ${diff > 0 ? '+' : ''}${diff} vượt ngưỡng ${rule.threshold ?? 0} đơn vị` }];
+};
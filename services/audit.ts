@@ -1,6 +1,7 @@
 
 import { db } from './db';
-import { AuditLog, AuditAction, AuditModule } from '../types';
+import { AuditLog, AuditAction, AuditModule, AuditDiff, AuditFieldChange, AuditItemChange, AuditArchivedRange } from '../types';
+import { sealAuditEntry, verifyAuditChain } from './auditChain';
 
 interface LogAuditParams {
   module: AuditModule;
@@ -12,7 +13,7 @@ interface LogAuditParams {
   actor: { id: string; name: string };
   before?: any;
   after?: any;
-  diff?: any;
+  diff?: AuditDiff;
   severity?: 'info' | 'warn' | 'error';
   refType?: string;
   refCode?: string;
@@ -24,16 +25,83 @@ const sanitizeSnapshot = (data: any) => {
   if (!data || typeof data !== 'object') return data;
   const clone = { ...data };
   
-  // Example: If items array is huge, we might want to truncate or summarize it
-  // But for now, we keep it but maybe remove image blobs or logs if they exist
   delete clone.image; // Base64 images are heavy
   delete clone.seedTag; // Implementation detail
+  // POS cart lines are product spreads and carry the product image along
+  if (Array.isArray(clone.items)) clone.items = clone.items.map(sanitizeSnapshot);
   
   return clone;
 };
 
+// Bookkeeping that moves on every write and would bury the real change
+const IGNORED_FIELDS = new Set(['updatedAt', 'createdAt', 'image', 'seedTag']);
+
+const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+const isSame = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffFields = (before: any, after: any, prefix = '', depth = 0): AuditFieldChange[] => {
+  const changes: AuditFieldChange[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  keys.forEach(key => {
+    if (IGNORED_FIELDS.has(key) || (!prefix && key === 'items')) return;
+    const oldVal = before?.[key];
+    const newVal = after?.[key];
+    if (isSame(oldVal, newVal)) return;
+    // Settings-style nesting reads better as `finance.vat` than as two JSON blobs
+    if (depth < 2 && isPlainObject(oldVal) && isPlainObject(newVal)) {
+      changes.push(...diffFields(oldVal, newVal, `${prefix}${key}.`, depth + 1));
+    } else {
+      changes.push({ field: `${prefix}${key}`, before: oldVal, after: newVal });
+    }
+  });
+  return changes;
+};
+
+// Lines are matched by `id` (the product id on order, quote and import lines), falling back to position
+const diffItems = (before: any[] = [], after: any[] = []): AuditItemChange[] => {
+  const keyOf = (item: any, idx: number) => String(item?.id ?? idx);
+  const labelOf = (item: any) => item?.sku || item?.productName || item?.name || String(item?.id ?? '');
+  const previous = new Map(before.map((item, idx) => [keyOf(item, idx), item]));
+  const next = new Map(after.map((item, idx) => [keyOf(item, idx), item]));
+  const changes: AuditItemChange[] = [];
+
+  next.forEach((item, key) => {
+    const old = previous.get(key);
+    if (!old) {
+      changes.push({ action: 'AddItem', key, label: labelOf(item), after: item });
+      return;
+    }
+    const fields = diffFields(old, item);
+    if (fields.length > 0) changes.push({ action: 'Update', key, label: labelOf(item), fields });
+  });
+  previous.forEach((item, key) => {
+    if (!next.has(key)) changes.push({ action: 'RemoveItem', key, label: labelOf(item), before: item });
+  });
+  return changes;
+};
+
+export const computeAuditDiff = (before: any, after: any): AuditDiff | undefined => {
+  if (!isPlainObject(before) || !isPlainObject(after)) return undefined;
+  const fields = diffFields(before, after);
+  const items = Array.isArray(before.items) || Array.isArray(after.items) ? diffItems(before.items, after.items) : [];
+  return fields.length > 0 || items.length > 0 ? { fields, items } : undefined;
+};
+
+// Entries written before diffs were stored still carry their snapshots
+export const getAuditDiff = (log: Pick<AuditLog, 'before' | 'after' | 'diff'>): AuditDiff | undefined =>
+  log.diff ?? computeAuditDiff(log.before, log.after);
+
+export const formatAuditValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Có' : 'Không';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
 export const logAudit = async (params: LogAuditParams) => {
   try {
+    const before = sanitizeSnapshot(params.before);
+    const after = sanitizeSnapshot(params.after);
     const entry: AuditLog = {
       id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       createdAt: Date.now(),
@@ -45,23 +113,33 @@ export const logAudit = async (params: LogAuditParams) => {
       entityCode: params.entityCode,
       action: params.action,
       summary: params.summary,
-      before: sanitizeSnapshot(params.before),
-      after: sanitizeSnapshot(params.after),
-      diff: params.diff,
+      before,
+      after,
+      diff: params.diff ?? computeAuditDiff(before, after),
       severity: params.severity || 'info',
       refType: params.refType,
       refCode: params.refCode,
       tags: params.tags || [],
     };
 
-    // This will join the current transaction if called within one
-    await db.auditLogs.add(entry);
+    // Joins the caller's transaction when there is one, so reading the head and appending stay atomic
+    await (db as any).transaction('rw', db.auditLogs, async () => {
+      const head = await db.auditLogs.orderBy('seq').last();
+      await db.auditLogs.add(sealAuditEntry(entry, head && { seq: head.seq!, hash: head.hash! }));
+    });
   } catch (error) {
     console.error('Failed to write audit log:', error);
     // Silent fail to not block business logic if logging fails (rare with IndexedDB)
   }
 };
 
+// Seq ranges moved out to archive files, kept in `meta` so the gaps they leave still verify
+export const AUDIT_ARCHIVE_KEY = 'auditArchive';
+
+export const getArchivedAuditRanges = async (): Promise<AuditArchivedRange[]> => (await db.meta.get(AUDIT_ARCHIVE_KEY))?.value || [];
+
+export const verifyStoredAuditChain = async () => verifyAuditChain(await db.auditLogs.toArray(), await getArchivedAuditRanges());
+
 export interface AuditReportParams {
   from?: number;
   to?: number;
@@ -71,21 +149,17 @@ export interface AuditReportParams {
 }
 
 export const generateAuditReport = async (params: AuditReportParams) => {
-  let query = db.auditLogs.orderBy('createdAt');
-  
-  if (params.from && params.to) {
-    query = query.filter(l => l.createdAt >= params.from! && l.createdAt <= params.to!);
-  } else {
-    // Default last 30 days
-    const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
-    query = query.filter(l => l.createdAt >= thirtyDaysAgo);
-  }
+  const to = params.to ?? Date.now();
+  const from = params.from ?? to - 30 * 24 * 60 * 60 * 1000; // Default last 30 days
 
+  // Both paths walk an index over just the requested range instead of loading the whole table
+  const query = params.module
+    ? db.auditLogs.where('[module+createdAt]').between([params.module, from], [params.module, to], true, true)
+    : db.auditLogs.where('createdAt').between(from, to, true, true);
   const logs = await query.reverse().toArray();
   
   // In-memory filtering for complex queries not covered by indexes
   const filtered = logs.filter(log => {
-    if (params.module && log.module !== params.module) return false;
     if (params.userId && log.createdById !== params.userId) return false;
     if (params.refCode) {
       if (log.refCode !== params.refCode && log.entityCode !== params.refCode) return false;
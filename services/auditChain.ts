@@ -0,0 +1,130 @@
+import { AuditArchivedRange, AuditLog } from '../types';
+import { sha256 } from '../utils/sha256';
+
+// Pure chain logic, kept free of `db` so the schema upgrade and backup validation can use it too
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditChainLink {
+    seq: number;
+    hash: string;
+}
+
+export interface AuditChainBreak {
+    id: string;
+    seq?: number;
+    createdAt: number;
+    entityCode?: string;
+    summary: string;
+    reason: string;
+}
+
+export interface AuditChainReport {
+    ok: boolean;
+    checked: number;
+    firstBreak?: AuditChainBreak;
+}
+
+// Key order must not depend on how the row was built or cloned, so objects are serialized sorted.
+// Also used to tell identical rows apart when a backup is merged.
+export const canonicalize = (value: any): string => {
+    if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+    if (Array.isArray(value)) return `[${value.map(v => v === undefined ? 'null' : canonicalize(v)).join(',')}]`;
+    const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalize(value[k])}`).join(',')}}`;
+};
+
+export const hashAuditEntry = (entry: AuditLog) => {
+    const { hash, ...content } = entry;
+    return sha256(canonicalize(content));
+};
+
+export const sealAuditEntry = (entry: AuditLog, previous?: AuditChainLink): AuditLog => {
+    const sealed = { ...entry, seq: (previous?.seq || 0) + 1, prevHash: previous?.hash || AUDIT_GENESIS_HASH };
+    return { ...sealed, hash: hashAuditEntry(sealed) };
+};
+
+// Chains rows that were never sealed (legacy data, pre-chain backups) in the order they were written
+export const sealAuditEntries = (entries: AuditLog[], previous?: AuditChainLink): AuditLog[] => {
+    let head = previous;
+    return [...entries].sort((a, b) => a.createdAt - b.createdAt).map(entry => {
+        const { seq, prevHash, hash, ...content } = entry;
+        const sealed = sealAuditEntry(content, head);
+        head = { seq: sealed.seq!, hash: sealed.hash! };
+        return sealed;
+    });
+};
+
+const toBreak = (entry: AuditLog, reason: string): AuditChainBreak => ({
+    id: entry.id, seq: entry.seq, createdAt: entry.createdAt, entityCode: entry.entityCode, summary: entry.summary, reason
+});
+
+// Takes entries one at a time in seq order, so a chain too large to hold in memory can be checked as
+// it streams past. A gap is only accepted when it is exactly one recorded archived range.
+export const createAuditChainVerifier = (archived: AuditArchivedRange[] = []) => {
+    const rangeFrom = new Map(archived.map(r => [r.from, r]));
+    let chainBreak: AuditChainBreak | undefined;
+    let stray: AuditChainBreak | undefined;
+    let expected: AuditChainLink = { seq: 0, hash: AUDIT_GENESIS_HASH };
+    let checked = 0;
+
+    const push = (entry: AuditLog) => {
+        checked++;
+        if (!entry.hash) {
+            // Every write is sealed, so a row without a hash was put there from outside the application
+            if (!stray || entry.createdAt < stray.createdAt) stray = toBreak(entry, 'Bản ghi không có mã băm: được thêm ngoài ứng dụng');
+            return;
+        }
+        if (chainBreak) return;
+
+        const skipped = rangeFrom.get(expected.seq + 1);
+        if (skipped && skipped.to === entry.seq! - 1) expected = { seq: skipped.to, hash: skipped.hash };
+
+        if (entry.seq === expected.seq) {
+            chainBreak = toBreak(entry, `Trùng số thứ tự #${entry.seq}: có bản ghi được chèn thêm`);
+        } else if (entry.seq !== expected.seq + 1) {
+            chainBreak = toBreak(entry, `Thiếu bản ghi #${expected.seq + 1}${entry.seq! - 1 > expected.seq + 1 ? `–#${entry.seq! - 1}` : ''}: đã bị xóa`);
+        } else if (entry.prevHash !== expected.hash) {
+            chainBreak = toBreak(entry, 'Liên kết với bản ghi trước không khớp');
+        } else if (hashAuditEntry(entry) !== entry.hash) {
+            chainBreak = toBreak(entry, 'Nội dung đã bị sửa sau khi ghi');
+        }
+        if (!chainBreak) expected = { seq: entry.seq!, hash: entry.hash! };
+    };
+
+    const finish = (): AuditChainReport => {
+        const firstBreak = [chainBreak, stray].filter(Boolean).sort((a, b) => a!.createdAt - b!.createdAt)[0];
+        return { ok: !firstBreak, checked, firstBreak };
+    };
+
+    return { push, finish };
+};
+
+export const verifyAuditChain = (entries: AuditLog[], archived: AuditArchivedRange[] = []): AuditChainReport => {
+    const verifier = createAuditChainVerifier(archived);
+    [...entries].sort((a, b) => (a.seq || 0) - (b.seq || 0)).forEach(verifier.push);
+    return verifier.finish();
+};
+
+// Adds the runs of `entries` to the ranges already archived, joining runs that touch
+export const mergeArchivedRanges = (archived: AuditArchivedRange[], entries: AuditLog[]): AuditArchivedRange[] => {
+    const runs = [...archived, ...entries.map(e => ({ from: e.seq!, to: e.seq!, hash: e.hash! }))];
+    return runs.sort((a, b) => a.from - b.from).reduce<AuditArchivedRange[]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && last.to + 1 === range.from) merged[merged.length - 1] = { ...last, to: range.to, hash: range.hash };
+        else merged.push(range);
+        return merged;
+    }, []);
+};
+
+// An archive holds scattered pieces of the chain: every entry must be intact and linked to its
+// neighbour within each run, while the links across runs can only be checked against the live log
+export const verifyAuditSegments = (entries: AuditLog[]): AuditChainReport => {
+    const gaps: AuditArchivedRange[] = [];
+    let previous = 0;
+    [...entries].sort((a, b) => (a.seq || 0) - (b.seq || 0)).forEach(entry => {
+        if (entry.seq && entry.seq > previous + 1 && entry.prevHash) gaps.push({ from: previous + 1, to: entry.seq - 1, hash: entry.prevHash });
+        previous = entry.seq || previous;
+    });
+    return verifyAuditChain(entries, gaps);
+};
@@ -0,0 +1,129 @@
+import { db } from './db';
+import { AppSettings, AppUser, Permission, UserRole } from '../types';
+import { generateUUID } from '../utils/helpers';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'orders.create': 'Tạo / cập nhật đơn hàng',
+    'orders.cancel': 'Hủy đơn hàng',
+    'orders.delete': 'Xóa đơn hàng',
+    'returns.create': 'Nhận hàng khách trả',
+    'quotes.manage': 'Quản lý báo giá',
+    'delivery.manage': 'Quản lý giao hàng',
+    'imports.manage': 'Quản lý nhập hàng',
+    'products.edit': 'Sửa danh mục sản phẩm',
+    'inventory.adjust': 'Điều chỉnh tồn kho',
+    'partners.edit': 'Quản lý đối tác',
+    'debts.pay': 'Thu / trả công nợ',
+    'transactions.manage': 'Ghi / xóa sổ quỹ',
+    'price.override': 'Sửa giá bán',
+    'approvals.decide': 'Duyệt / từ chối yêu cầu phê duyệt',
+    'documents.lock': 'Khóa / mở khóa chứng từ',
+    'period.close': 'Khóa sổ kỳ kế toán',
+    'data.repair': 'Sửa lỗi dữ liệu',
+    'settings.edit': 'Sửa cài đặt',
+    'users.manage': 'Quản lý người dùng',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    admin: ALL_PERMISSIONS,
+    staff: ['orders.create', 'returns.create', 'quotes.manage', 'delivery.manage', 'partners.edit', 'debts.pay'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = { admin: 'Quản trị viên', staff: 'Nhân viên' };
+
+// Admins always hold every permission so the matrix can never lock everyone out
+export const getRolePermissions = (role: UserRole, settings: AppSettings): Permission[] =>
+    role === 'admin' ? ALL_PERMISSIONS : (settings.security?.rolePermissions?.[role] ?? DEFAULT_ROLE_PERMISSIONS[role]);
+
+export const hasPermission = (user: { role: UserRole }, permission: Permission, settings: AppSettings) =>
+    getRolePermissions(user.role, settings).includes(permission);
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashSecret = async (secret: string, salt: string) => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: encoder.encode(salt), iterations: 100000, hash: 'SHA-256' }, key, 256);
+    return toHex(bits);
+};
+
+export const validateSecret = (secret: string) =>
+    secret.length < 4 ? 'Mã PIN / mật khẩu phải có ít nhất 4 ký tự.' : null;
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+const assertKeepsAnAdmin = async (id: string, next: { role?: UserRole; isActive?: boolean }) => {
+    const admins = await db.users.where('role').equals('admin').filter(u => u.isActive && u.id !== id).count();
+    const staysAdmin = (next.role ?? 'admin') === 'admin' && next.isActive !== false;
+    if (admins === 0 && !staysAdmin) throw new Error('Phải còn ít nhất một quản trị viên đang hoạt động.');
+};
+
+export const createUser = async (data: { username: string; name: string; role: UserRole; secret: string }): Promise<AppUser> => {
+    const username = normalizeUsername(data.username);
+    if (!username) throw new Error('Vui lòng nhập tên đăng nhập.');
+    const secretError = validateSecret(data.secret);
+    if (secretError) throw new Error(secretError);
+    if (await db.users.where('username').equals(username).count() > 0) throw new Error(`Tên đăng nhập "${username}" đã tồn tại.`);
+
+    const now = Date.now();
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+    const user: AppUser = {
+        id: generateUUID('user'),
+        username,
+        name: data.name.trim() || username,
+        role: data.role,
+        secretHash: await hashSecret(data.secret, salt),
+        salt,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await db.users.add(user);
+    return user;
+};
+
+export const updateUser = async (id: string, patch: { name?: string; role?: UserRole; isActive?: boolean; secret?: string }) => {
+    const user = await db.users.get(id);
+    if (!user) throw new Error('Không tìm thấy người dùng.');
+    if (user.role === 'admin') await assertKeepsAnAdmin(id, { role: patch.role ?? user.role, isActive: patch.isActive ?? user.isActive });
+
+    const changes: Partial<AppUser> = { updatedAt: Date.now() };
+    if (patch.name !== undefined) changes.name = patch.name.trim() || user.username;
+    if (patch.role !== undefined) changes.role = patch.role;
+    if (patch.isActive !== undefined) changes.isActive = patch.isActive;
+    if (patch.secret !== undefined) {
+        const secretError = validateSecret(patch.secret);
+        if (secretError) throw new Error(secretError);
+        changes.salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+        changes.secretHash = await hashSecret(patch.secret, changes.salt);
+    }
+    await db.users.update(id, changes);
+    return { ...user, ...changes };
+};
+
+// Slows down guessing short PINs; kept in memory so a reload resets it
+const failedAttempts = new Map<string, { count: number; until: number }>();
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 30000;
+
+export const verifyLogin = async (username: string, secret: string): Promise<AppUser> => {
+    const key = normalizeUsername(username);
+    const attempts = failedAttempts.get(key);
+    if (attempts && attempts.until > Date.now()) {
+        throw new Error(`Đăng nhập sai quá nhiều lần, thử lại sau ${Math.ceil((attempts.until - Date.now()) / 1000)} giây.`);
+    }
+
+    const user = await db.users.where('username').equals(key).first();
+    const valid = !!user && user.isActive && (await hashSecret(secret, user.salt)) === user.secretHash;
+    if (!valid) {
+        const count = (attempts?.count || 0) + 1;
+        failedAttempts.set(key, { count: count >= MAX_ATTEMPTS ? 0 : count, until: count >= MAX_ATTEMPTS ? Date.now() + LOCKOUT_MS : 0 });
+        throw new Error('Sai tên đăng nhập hoặc mã PIN.');
+    }
+
+    failedAttempts.delete(key);
+    await db.users.update(user!.id, { lastLoginAt: Date.now() });
+    return user!;
+};
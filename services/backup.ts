@@ -1,53 +1,157 @@
 
+import { Table } from 'dexie';
 import { db } from './db';
-import { BackupData } from '../types';
+import { AppUser, AuditArchivedRange, AuditLog, BackupData } from '../types';
+import { canonicalize, sealAuditEntries, verifyAuditChain } from './auditChain';
+import { AUDIT_ARCHIVE_KEY, getArchivedAuditRanges, logAudit } from './audit';
+import { AUDIT_CHAIN_VERSION, SCHEMA_VERSION, migrateBackupData } from './migrations';
+import { decryptBackupText, encryptBackupText, isEncryptedBackup } from './backupCrypto';
+import { generateUUID, downloadBlob } from '../utils/helpers';
+import type { BackupProgress, BackupStreamMessage, BackupStreamTask } from './backupStream';
 
-const APP_VERSION = '2.9.0'; // Sync with metadata.json / app version
-const CURRENT_SCHEMA_VERSION = 22; // Synced with db.ts
+export const APP_VERSION = process.env.APP_VERSION; // package.json version, injected by Vite
+const CURRENT_SCHEMA_VERSION = SCHEMA_VERSION;
 
-export const exportBackup = async (): Promise<void> => {
+export type BackupTable = Exclude<keyof BackupData['data'], 'auditArchive' | 'tombstones'>;
+
+// Field an incremental backup compares against the checkpoint; `null` tables are small and always carried whole
+const BACKUP_TABLES: Record<BackupTable, 'updatedAt' | 'createdAt' | 'timestamp' | null> = {
+  products: 'updatedAt', partners: 'updatedAt', orders: 'updatedAt', quotes: 'updatedAt', importOrders: 'updatedAt',
+  debtRecords: 'updatedAt', transactions: 'updatedAt', inventoryLogs: 'updatedAt', deliveryNotes: 'updatedAt',
+  settings: null, auditLogs: 'createdAt', returnNotes: 'updatedAt', purchaseReturnNotes: 'updatedAt', receivingNotes: 'updatedAt',
+  costHistory: 'updatedAt', costLayers: 'updatedAt', aiCache: 'timestamp', approvals: 'updatedAt', users: 'updatedAt',
+};
+export const BACKUP_TABLE_NAMES = Object.keys(BACKUP_TABLES) as BackupTable[];
+// Accounts carry PIN hashes and salts, so they only leave the machine in an encrypted backup.
+// A plain or streamed one has no `users` rows and restoring it keeps the local accounts.
+export const PLAIN_BACKUP_TABLE_NAMES = BACKUP_TABLE_NAMES.filter(name => name !== 'users');
+
+// Last exported backup and the primary keys present at that moment; deletions show up as keys gone missing
+export const BACKUP_CHECKPOINT_KEY = 'backupCheckpoint';
+
+interface BackupCheckpoint {
+  backupId: string;
+  at: number;
+  keys: Record<string, string[]>;
+  accountsAt?: number; // Last backup in the chain that carried the accounts, which plain incrementals skip
+}
+
+export const getBackupCheckpoint = async (): Promise<BackupCheckpoint | undefined> => (await db.meta.get(BACKUP_CHECKPOINT_KEY))?.value;
+
+const changedRows = async (table: Table<any>, field: 'updatedAt' | 'createdAt' | 'timestamp' | null, since: number) => {
+  if (!field) return table.toArray();
+  if (table.schema.indexes.some(idx => idx.name === field)) return table.where(field).aboveOrEqual(since).toArray();
+  return table.filter(row => (row[field] ?? row.createdAt ?? 0) >= since).toArray();
+};
+
+// With a passphrase the payload is written inside an encrypted envelope instead of as plain JSON.
+// An incremental backup only carries what changed since the previous one and continues its chain.
+export const exportBackup = async (options: { passphrase?: string; incremental?: boolean } = {}): Promise<void> => {
+  const { passphrase, incremental } = options;
+  const checkpoint = await getBackupCheckpoint();
+  if (incremental && !checkpoint) throw new Error('Chưa có bản sao lưu đầy đủ làm mốc. Hãy xuất một bản đầy đủ trước.');
+
+  let saved = false;
   try {
+    const exportedAt = Date.now();
+    const backupId = generateUUID('backup');
+    const data: any = {};
+    const keys: Record<string, string[]> = {};
+    const tombstones: Record<string, string[]> = {};
+    const tables = passphrase ? BACKUP_TABLE_NAMES : PLAIN_BACKUP_TABLE_NAMES;
+    // Account changes skipped by plain incrementals are picked up by the next encrypted one
+    if (incremental && !passphrase && checkpoint!.keys.users) keys.users = checkpoint!.keys.users;
+
+    // One read transaction so every table is captured at the same moment
+    await (db as any).transaction('r', [...tables, 'meta'], async () => {
+      for (const name of tables) {
+        const table = db.table(name);
+        keys[name] = (await table.toCollection().primaryKeys()) as string[];
+        if (!incremental) {
+          data[name] = await table.toArray();
+          continue;
+        }
+        const since = name === 'users' ? checkpoint!.accountsAt ?? 0 : checkpoint!.at;
+        data[name] = await changedRows(table, BACKUP_TABLES[name], since);
+        const present = new Set(keys[name]);
+        const deleted = (checkpoint!.keys[name] || []).filter(key => !present.has(key));
+        if (deleted.length > 0) tombstones[name] = deleted;
+      }
+      data.auditArchive = await getArchivedAuditRanges();
+    });
+    if (incremental) data.tombstones = tombstones;
+
     const backup: BackupData = {
       metadata: {
         appVersion: APP_VERSION,
         schemaVersion: CURRENT_SCHEMA_VERSION,
-        exportedAt: Date.now(),
-        source: 'ERP_HUNGTHINH'
+        exportedAt,
+        source: 'ERP_HUNGTHINH',
+        backupId,
+        kind: incremental ? 'incremental' : 'full',
+        ...(incremental && { parentId: checkpoint!.backupId, since: checkpoint!.at }),
       },
-      data: {
-        products: await db.products.toArray(),
-        partners: await db.partners.toArray(),
-        orders: await db.orders.toArray(),
-        quotes: await db.quotes.toArray(),
-        importOrders: await db.importOrders.toArray(),
-        debtRecords: await db.debtRecords.toArray(),
-        transactions: await db.transactions.toArray(),
-        inventoryLogs: await db.inventoryLogs.toArray(),
-        deliveryNotes: await db.deliveryNotes.toArray(),
-        settings: await db.settings.toArray(),
-        auditLogs: await db.auditLogs.toArray(),
-        returnNotes: await db.returnNotes.toArray(),
-        purchaseReturnNotes: await db.purchaseReturnNotes.toArray(),
-        receivingNotes: await db.receivingNotes.toArray(),
-        aiCache: await db.aiCache.toArray(),
-      }
+      data
     };
 
-    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    const dateStr = new Date().toISOString().slice(0, 10);
-    link.download = `erp-backup-${dateStr}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const content = passphrase ? await encryptBackupText(JSON.stringify(backup), passphrase) : backup;
+    const blob = new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' });
+    const dateStr = new Date(exportedAt).toISOString().slice(0, 10);
+    const suffix = `${incremental ? `-inc-${new Date(exportedAt).toTimeString().slice(0, 8).replace(/:/g, '')}` : ''}${passphrase ? '.encrypted' : ''}`;
+    saved = await downloadBlob(`erp-backup-${dateStr}${suffix}.json`, blob);
+
+    // A cancelled save must not move the checkpoint, or the next incremental would leave these changes out
+    if (saved) {
+      const accountsAt = passphrase ? exportedAt : incremental ? checkpoint!.accountsAt : undefined;
+      await db.meta.put({ key: BACKUP_CHECKPOINT_KEY, value: { backupId, at: exportedAt, keys, accountsAt } as BackupCheckpoint });
+    }
   } catch (error) {
     console.error('Backup export failed:', error);
     throw new Error('Không thể xuất dữ liệu. Vui lòng thử lại.');
   }
+  if (!saved) throw new Error('Chưa lưu tệp sao lưu. Mốc sao lưu gia tăng được giữ nguyên.');
+};
+
+const describeBackup = (backup: BackupData) =>
+  `${backup.metadata.kind === 'incremental' ? 'gia tăng' : 'đầy đủ'} lúc ${new Date(backup.metadata.exportedAt).toLocaleString('vi-VN')}`;
+
+// Replays a full backup and the incrementals after it up to `upTo`, as one full backup. The chain is
+// checked end to end (it starts at a full backup and every step names the one before as its parent)
+// before anything is merged, so a missing or foreign file stops the restore up front.
+export const composeBackupChain = (backups: BackupData[], upTo: number): BackupData => {
+  const candidates = [...backups]
+    .filter(b => b.metadata.exportedAt <= upTo)
+    .sort((a, b) => a.metadata.exportedAt - b.metadata.exportedAt);
+  let start = -1;
+  candidates.forEach((b, idx) => { if (b.metadata.kind !== 'incremental') start = idx; });
+  if (start < 0) throw new Error('Chuỗi khôi phục phải bắt đầu từ một bản sao lưu đầy đủ trước thời điểm đã chọn.');
+
+  const chain = candidates.slice(start);
+  chain.slice(1).forEach((backup, idx) => {
+    const previous = chain[idx];
+    if (!previous.metadata.backupId || backup.metadata.parentId !== previous.metadata.backupId) {
+      throw new Error(`Chuỗi sao lưu bị đứt: bản ${describeBackup(backup)} không nối tiếp bản ${describeBackup(previous)}. Thiếu bản sao lưu ở giữa.`);
+    }
+  });
+
+  const tables: Record<string, Map<string, any>> = {};
+  BACKUP_TABLE_NAMES.forEach(name => {
+    const keyPath = db.table(name).schema.primKey.keyPath as string;
+    tables[name] = new Map((chain[0].data[name] as any[] || []).map((row): [string, any] => [row[keyPath], row]));
+  });
+  chain.slice(1).forEach(step => {
+    BACKUP_TABLE_NAMES.forEach(name => {
+      const keyPath = db.table(name).schema.primKey.keyPath as string;
+      (step.data.tombstones?.[name] || []).forEach(key => tables[name].delete(key));
+      (step.data[name] || []).forEach((row: any) => tables[name].set(row[keyPath], row));
+    });
+  });
+
+  const last = chain[chain.length - 1];
+  const unverifiedAuditLogs = chain.reduce((sum, b) => sum + (b.metadata.unverifiedAuditLogs || 0), 0);
+  const data: any = { auditArchive: last.data.auditArchive };
+  BACKUP_TABLE_NAMES.forEach(name => { data[name] = Array.from(tables[name].values()); });
+  return { metadata: { ...last.metadata, kind: 'full', unverifiedAuditLogs: unverifiedAuditLogs || undefined }, data };
 };
 
 interface BackupAnalysis {
@@ -57,7 +161,16 @@ interface BackupAnalysis {
     correctedData: BackupData;
 }
 
-export const validateBackup = (json: any): BackupAnalysis => {
+export const validateBackup = async (json: any, passphrase?: string): Promise<BackupAnalysis> => {
+    if (isEncryptedBackup(json)) {
+        const plain = await decryptBackupText(json, passphrase || '');
+        try {
+            json = JSON.parse(plain);
+        } catch {
+            throw new Error('Nội dung sau khi giải mã không phải là bản sao lưu hợp lệ.');
+        }
+    }
+
     const summary: Record<string, number> = {};
     const warnings: string[] = [];
     
@@ -69,7 +182,7 @@ export const validateBackup = (json: any): BackupAnalysis => {
         'products', 'partners', 'orders', 'quotes', 'importOrders', 
         'debtRecords', 'transactions', 'inventoryLogs', 'deliveryNotes', 
         'settings', 'auditLogs', 'returnNotes', 'purchaseReturnNotes', 'receivingNotes',
-        'aiCache'
+        'costHistory', 'costLayers', 'aiCache', 'approvals', 'users'
     ];
 
     // AUTOMATIC MIGRATION FOR LEGACY FLAT BACKUPS or OLD FORMATS
@@ -111,9 +224,37 @@ export const validateBackup = (json: any): BackupAnalysis => {
             // Initialize missing/invalid tables as empty arrays to prevent restore crash
             correctedData.data[table] = [];
         }
-        summary[table] = correctedData.data[table].length;
     });
 
+    // Stripping the hashes must not be a way to bring in forged history: a backup made since the chain
+    // existed has every entry sealed, and only an older one may hold entries that are sealed on import
+    const fromVersion = normalizedJson.metadata?.schemaVersion || 0;
+    const unsealed = correctedData.data.auditLogs.filter((e: AuditLog) => !e.hash).length;
+    if (unsealed > 0 && fromVersion >= AUDIT_CHAIN_VERSION) {
+        throw new Error(`Bản sao lưu v${fromVersion} có ${unsealed} nhật ký hoạt động không có mã băm. Nhật ký đã bị sửa đổi, khôi phục bị từ chối.`);
+    }
+    if (correctedData.data.users.length === 0 && correctedData.metadata?.kind !== 'incremental') {
+        warnings.push('Bản sao lưu không có tài khoản người dùng. Các tài khoản hiện tại được giữ nguyên khi khôi phục.');
+    }
+    const isPreChain = unsealed > 0 && unsealed === correctedData.data.auditLogs.length;
+    correctedData.metadata = { ...correctedData.metadata, unverifiedAuditLogs: isPreChain ? unsealed : undefined };
+    if (isPreChain) {
+        warnings.push(`Bản sao lưu có ${unsealed} nhật ký hoạt động từ trước khi có chuỗi băm. Không thể xác minh nội dung của chúng; khôi phục cần được xác nhận riêng.`);
+    }
+
+    // Older payloads replay the same upgrade steps the local database went through
+    if (fromVersion < CURRENT_SCHEMA_VERSION) {
+        const applied = await migrateBackupData(correctedData.data, fromVersion);
+        if (applied.length > 0) warnings.push(`Bản sao lưu v${fromVersion} đã được nâng cấp lên v${CURRENT_SCHEMA_VERSION} (${applied.length} bước chuyển đổi).`);
+    }
+    allTables.forEach(table => { summary[table] = correctedData.data[table].length; });
+
+    // An incremental only carries the newest stretch of the chain; it is verified once replayed onto its full backup
+    const chain = verifyAuditChain(correctedData.data.auditLogs, correctedData.data.auditArchive);
+    if (!chain.ok && correctedData.metadata?.kind !== 'incremental' && correctedData.data.auditLogs.some((e: AuditLog) => e.hash)) {
+        warnings.push(`Nhật ký hoạt động trong bản sao lưu không toàn vẹn (${chain.firstBreak!.reason}). Khôi phục sẽ bị từ chối.`);
+    }
+
     return {
         isValid: true,
         summary,
@@ -122,17 +263,16 @@ export const validateBackup = (json: any): BackupAnalysis => {
     };
 };
 
-export const parseBackupFile = (file: File): Promise<BackupAnalysis> => {
+export const parseBackupFile = (file: File, passphrase?: string): Promise<BackupAnalysis> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const text = e.target?.result as string;
         if (!text) throw new Error('File rỗng');
         
         const json = JSON.parse(text);
-        const analysis = validateBackup(json);
-        resolve(analysis);
+        resolve(await validateBackup(json, passphrase));
       } catch (err: any) {
         // Enhance error message
         let msg = err.message;
@@ -145,19 +285,153 @@ export const parseBackupFile = (file: File): Promise<BackupAnalysis> => {
   });
 };
 
-export const restoreBackup = async (backup: BackupData, mode: 'replace' | 'merge'): Promise<void> => {
+// Lets the restore screen ask for the passphrase before parsing
+export const isEncryptedBackupFile = async (file: File) => {
+  try {
+    return isEncryptedBackup(JSON.parse(await file.text()));
+  } catch {
+    return false;
+  }
+};
+
+// Audit rows are only accepted with an intact chain. Pre-chain backups were already sealed while being
+// validated, so an unhashed row here fails verification; merged rows are appended after the local head.
+const prepareAuditLogs = async (incoming: AuditLog[], mode: 'replace' | 'merge', archived: AuditArchivedRange[] = []): Promise<AuditLog[]> => {
+  if (incoming.length === 0) return [];
+  const report = verifyAuditChain(incoming, archived);
+  if (!report.ok) {
+    const at = report.firstBreak!;
+    throw new Error(`Nhật ký trong bản sao lưu đã bị sửa đổi (${at.reason}) tại bản ghi ${at.seq ? `#${at.seq}` : at.id} lúc ${new Date(at.createdAt).toLocaleString('vi-VN')}. Khôi phục bị từ chối.`);
+  }
+  if (mode === 'replace') return incoming;
+
+  const existing = new Set(await db.auditLogs.toCollection().primaryKeys());
+  const head = await db.auditLogs.orderBy('seq').last();
+  const added = incoming.filter(e => !existing.has(e.id)).map(e => ({ ...e, tags: [...(e.tags || []), 'restored'] }));
+  return sealAuditEntries(added, head && { seq: head.seq!, hash: head.hash! });
+};
+
+export type MergeStatus = 'new' | 'identical' | 'newerInBackup' | 'newerLocally';
+export type MergePolicy = 'newest' | 'local' | 'backup';
+
+// Audit entries are never compared: merged ones are appended after the local chain instead
+export type MergeTable = Exclude<BackupTable, 'auditLogs'>;
+const MERGE_TABLE_NAMES = BACKUP_TABLE_NAMES.filter((name): name is MergeTable => name !== 'auditLogs');
+
+export interface MergeRecord {
+  key: string;
+  label: string;
+  status: MergeStatus;
+  backupAt?: number;
+  localAt?: number;
+}
+
+export interface MergeTablePreview {
+  table: MergeTable;
+  counts: Record<MergeStatus, number>;
+  // Only rows that differ from the local copy need a decision
+  conflicts: MergeRecord[];
+}
+
+export interface MergeResolution {
+  policies: Partial<Record<MergeTable, MergePolicy>>;
+  // Record-level choices, keyed by primary key, that override the table's policy
+  decisions: Partial<Record<MergeTable, Record<string, 'local' | 'backup'>>>;
+}
+
+const rowTime = (row: any): number => row.updatedAt ?? row.createdAt ?? row.timestamp ?? 0;
+
+const recordLabel = (row: any, key: string): string => row.code || row.sku || row.name || key;
+
+const classifyRow = (local: any, incoming: any): MergeStatus => {
+  if (!local) return 'new';
+  if (canonicalize(local) === canonicalize(incoming)) return 'identical';
+  // A tie, or rows without timestamps, counts for the local copy
+  return rowTime(incoming) > rowTime(local) ? 'newerInBackup' : 'newerLocally';
+};
+
+const compareTable = async (name: MergeTable, rows: any[]) => {
+  const table = db.table(name);
+  const keyPath = table.schema.primKey.keyPath as string;
+  const locals = await table.bulkGet(rows.map(row => row[keyPath]));
+  return rows.map((row, idx) => ({ key: String(row[keyPath]), row, local: locals[idx], status: classifyRow(locals[idx], row) }));
+};
+
+const takesBackupRow = (status: MergeStatus, policy: MergePolicy = 'newest', decision?: 'local' | 'backup') => {
+  if (status === 'new') return true;
+  if (status === 'identical') return false;
+  if (decision) return decision === 'backup';
+  if (policy !== 'newest') return policy === 'backup';
+  return status === 'newerInBackup';
+};
+
+// Usernames are unique; a backup account whose name now belongs to a different local account is left out
+const usernameClashes = async (rows: AppUser[]) => {
+  const clashes = new Set<string>();
+  for (const row of rows) {
+    const owner = await db.users.where('username').equals(row.username).first();
+    if (owner && owner.id !== row.id) clashes.add(row.id);
+  }
+  return clashes;
+};
+
+// Dry run of a merge: nothing is written, the result only drives the conflict screen
+export const previewMerge = async (backup: BackupData): Promise<MergeTablePreview[]> => {
+  const previews: MergeTablePreview[] = [];
+  await (db as any).transaction('r', MERGE_TABLE_NAMES, async () => {
+    for (const table of MERGE_TABLE_NAMES) {
+      const rows = backup.data[table] || [];
+      if (rows.length === 0) continue;
+      const counts: Record<MergeStatus, number> = { new: 0, identical: 0, newerInBackup: 0, newerLocally: 0 };
+      const conflicts: MergeRecord[] = [];
+      const clashes = table === 'users' ? await usernameClashes(backup.data.users) : new Set<string>();
+      (await compareTable(table, rows)).forEach(({ key, row, local, status }) => {
+        if (clashes.has(key)) return;
+        counts[status]++;
+        if (status === 'newerInBackup' || status === 'newerLocally') {
+          conflicts.push({ key, label: recordLabel(row, key), status, backupAt: rowTime(row) || undefined, localAt: rowTime(local) || undefined });
+        }
+      });
+      previews.push({ table, counts, conflicts });
+    }
+  });
+  return previews;
+};
+
+interface RestoreOptions {
+  // Merge only: how rows that differ from the local copy are settled; without it the newest row wins
+  resolution?: MergeResolution;
+  // Required when the backup holds pre-chain audit entries whose content cannot be verified
+  acceptUnverifiedHistory?: boolean;
+  actor?: { id: string; name: string };
+}
+
+export const restoreBackup = async (backup: BackupData, mode: 'replace' | 'merge', options: RestoreOptions = {}): Promise<void> => {
   const tables = [
     'products', 'partners', 'orders', 'quotes', 'importOrders', 
     'debtRecords', 'transactions', 'inventoryLogs', 'deliveryNotes', 'settings', 'auditLogs',
-    'returnNotes', 'purchaseReturnNotes', 'receivingNotes', 'aiCache'
-  ] as const;
+    'returnNotes', 'purchaseReturnNotes', 'receivingNotes', 'costHistory', 'costLayers', 'aiCache', 'approvals', 'users'
+ ] as const;
+  const unverified = backup.metadata.unverifiedAuditLogs || 0;
+  if (unverified > 0 && !options.acceptUnverifiedHistory) {
+    throw new Error(`Bản sao lưu có ${unverified} nhật ký hoạt động chưa được xác minh. Hãy xác nhận trước khi khôi phục.`);
+  }
+
+  await (db as any).transaction('rw', [...tables, 'meta'], async () => { 
+    const auditLogs = await prepareAuditLogs(backup.data.auditLogs || [], mode, backup.data.auditArchive);
+    backup = { ...backup, data: { ...backup.data, auditLogs } };
+    // Restored rows keep their old timestamps, so the next backup must be a full one
+    await db.meta.delete(BACKUP_CHECKPOINT_KEY);
 
-  await (db as any).transaction('rw', tables, async () => { 
     if (mode === 'replace') {
-      // Clear all tables first
+      // Clear all tables first. A backup from before accounts were included keeps the local ones, so nobody is locked out
+      const keepsUsers = (backup.data.users || []).length === 0;
       for (const table of tables) {
+        if (table === 'users' && keepsUsers) continue;
         await (db as any).table(table).clear(); 
       }
+      // Merged rows are re-sealed onto the local chain, so only a replace takes over the backup's archived ranges
+      await db.meta.put({ key: AUDIT_ARCHIVE_KEY, value: backup.data.auditArchive || [] });
       
       // Bulk add
       for (const table of tables) {
@@ -166,12 +440,83 @@ export const restoreBackup = async (backup: BackupData, mode: 'replace' | 'merge
         }
       }
     } else {
-      // Merge (Upsert)
-      for (const table of tables) {
-        if (backup.data[table] && Array.isArray(backup.data[table]) && backup.data[table].length > 0) {
-          await (db as any).table(table).bulkPut(backup.data[table]); 
-        }
+      // Rows are classified again here, so edits made after the preview are not overwritten blindly
+      const { policies = {}, decisions = {} } = options.resolution || {};
+      const totals = { added: 0, updated: 0, keptLocal: 0, identical: 0 };
+      const perTable: Record<string, typeof totals> = {};
+      if (auditLogs.length > 0) await db.auditLogs.bulkPut(auditLogs);
+
+      for (const table of MERGE_TABLE_NAMES) {
+        const rows = backup.data[table];
+        if (!Array.isArray(rows) || rows.length === 0) continue;
+        const counts = { added: 0, updated: 0, keptLocal: 0, identical: 0 };
+        const clashes = table === 'users' ? await usernameClashes(backup.data.users) : new Set<string>();
+        const taken = (await compareTable(table, rows)).filter(({ key, status }) => {
+          const take = !clashes.has(key) && takesBackupRow(status, policies[table], decisions[table]?.[key]);
+          if (status === 'identical') counts.identical++;
+          else if (!take) counts.keptLocal++;
+          else if (status === 'new') counts.added++;
+          else counts.updated++;
+          return take;
+        });
+        if (taken.length > 0) await db.table(table).bulkPut(taken.map(t => t.row));
+        perTable[table] = counts;
+        (Object.keys(totals) as (keyof typeof totals)[]).forEach(k => { totals[k] += counts[k]; });
+      }
+
+      if (options.actor) {
+        const exportedAt = new Date(backup.metadata.exportedAt).toLocaleString('vi-VN');
+        await logAudit({
+          module: 'System', entityType: 'Backup', entityId: backup.metadata.backupId || String(backup.metadata.exportedAt), entityCode: exportedAt,
+          action: 'Restore', summary: `Merged backup from ${exportedAt}: ${totals.added} added, ${totals.updated} updated, ${totals.keptLocal} kept local, ${totals.identical} identical`,
+          actor: options.actor, after: { totals, tables: perTable, auditLogs: auditLogs.length, policies },
+          severity: 'warn', tags: ['backup', 'merge']
+        });
       }
     }
+
+    // The restored history starts with entries that were sealed here, not when they were written
+    if (unverified > 0 && options.actor) {
+      const exportedAt = new Date(backup.metadata.exportedAt).toLocaleString('vi-VN');
+      await logAudit({
+        module: 'System', entityType: 'Backup', entityId: backup.metadata.backupId || String(backup.metadata.exportedAt), entityCode: exportedAt,
+        action: 'Restore', summary: `Accepted ${unverified} unverified pre-chain audit entries from backup ${exportedAt} (schema v${backup.metadata.schemaVersion || 0})`,
+        actor: options.actor, after: { mode, unverifiedAuditLogs: unverified, schemaVersion: backup.metadata.schemaVersion || 0 },
+        severity: 'warn', tags: ['backup', 'unverified-history']
+      });
+    }
   });
 };
+
+// The streamed format lives in a worker so paging, hashing and compression never block the UI
+const runBackupStreamTask = <T>(task: BackupStreamTask, onProgress: (progress: BackupProgress) => void): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./backupStream.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<BackupStreamMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') return onProgress(message.progress);
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Không khởi chạy được tiến trình sao lưu.'));
+    };
+    worker.postMessage(task);
+  });
+
+export const exportStreamedBackup = async (onProgress: (progress: BackupProgress) => void): Promise<void> => {
+  const { blob, fileName } = await runBackupStreamTask<{ blob: Blob; fileName: string }>({ task: 'export' }, onProgress);
+  if (!(await downloadBlob(fileName, blob))) throw new Error('Chưa lưu tệp sao lưu.');
+};
+
+// Replace only: a streamed backup is too large to hold in memory for a merge preview
+export const restoreStreamedBackup = (file: File, onProgress: (progress: BackupProgress) => void) =>
+  runBackupStreamTask<Record<string, number>>({ task: 'restore', file }, onProgress);
+
+// Streamed backups are gzip files; plain and encrypted ones are JSON text
+export const isStreamedBackupFile = async (file: File) => {
+  const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return magic[0] === 0x1f && magic[1] === 0x8b;
+};
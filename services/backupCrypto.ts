@@ -0,0 +1,81 @@
+// Passphrase-protected backup envelope. The header stays readable so the file can be recognised
+// and opened with the right parameters; it is also bound to the ciphertext as AES-GCM additional
+// data, so editing any header field makes decryption fail.
+
+const FORMAT = 'erp-encrypted-backup';
+const FORMAT_VERSION = 1;
+const CIPHER = 'AES-256-GCM';
+const KDF_ITERATIONS = 310000;
+
+export interface EncryptedBackupHeader {
+    format: typeof FORMAT;
+    version: number;
+    cipher: typeof CIPHER;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    iv: string;
+    // Hash of a second key derived alongside the cipher key, to tell a wrong passphrase from a damaged file
+    keyCheck: string;
+}
+
+export interface EncryptedBackup extends EncryptedBackupHeader {
+    data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const deriveKeys = async (passphrase: string, kdf: EncryptedBackupHeader['kdf'], salt: Uint8Array<ArrayBuffer>) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+    const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: kdf.iterations, hash: kdf.hash }, material, 512));
+    const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+    const keyCheck = toHex(await crypto.subtle.digest('SHA-256', bits.slice(32)));
+    return { key, keyCheck };
+};
+
+// The header is serialized with a fixed key order so both sides authenticate the same bytes
+const headerBytes = (h: EncryptedBackupHeader) => new TextEncoder().encode(JSON.stringify({
+    format: h.format, version: h.version, cipher: h.cipher, kdf: { name: h.kdf.name, hash: h.kdf.hash, iterations: h.kdf.iterations, salt: h.kdf.salt }, iv: h.iv, keyCheck: h.keyCheck,
+}));
+
+export const isEncryptedBackup = (json: any): json is EncryptedBackup => json?.format === FORMAT;
+
+export const encryptBackupText = async (plainText: string, passphrase: string): Promise<EncryptedBackup> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const kdf: EncryptedBackupHeader['kdf'] = { name: 'PBKDF2', hash: 'SHA-256', iterations: KDF_ITERATIONS, salt: toBase64(salt) };
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const { key, keyCheck } = await deriveKeys(passphrase, kdf, salt);
+    const header: EncryptedBackupHeader = { format: FORMAT, version: FORMAT_VERSION, cipher: CIPHER, kdf, iv: toBase64(iv), keyCheck };
+    const cipherText = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: headerBytes(header) }, key, new TextEncoder().encode(plainText));
+    return { ...header, data: toBase64(new Uint8Array(cipherText)) };
+};
+
+export const decryptBackupText = async (backup: EncryptedBackup, passphrase: string): Promise<string> => {
+    if (backup.version !== FORMAT_VERSION || backup.cipher !== CIPHER || backup.kdf?.name !== 'PBKDF2') {
+        throw new Error(`Định dạng mã hóa không được hỗ trợ (${backup.cipher || '?'}, phiên bản ${backup.version ?? '?'}).`);
+    }
+    if (!passphrase) throw new Error('Bản sao lưu đã được mã hóa. Vui lòng nhập mật khẩu.');
+
+    const decoded = (() => {
+        try {
+            return { salt: fromBase64(backup.kdf.salt), iv: fromBase64(backup.iv), data: fromBase64(backup.data) };
+        } catch {
+            throw new Error('Tệp sao lưu mã hóa bị hỏng: dữ liệu không đọc được.');
+        }
+    })();
+
+    const { key, keyCheck } = await deriveKeys(passphrase, backup.kdf, decoded.salt);
+    if (keyCheck !== backup.keyCheck) throw new Error('Sai mật khẩu sao lưu.');
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decoded.iv, additionalData: headerBytes(backup) }, key, decoded.data);
+        return new TextDecoder().decode(plain);
+    } catch {
+        throw new Error('Tệp sao lưu mã hóa bị hỏng hoặc đã bị chỉnh sửa.');
+    }
+};
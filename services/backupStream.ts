@@ -0,0 +1,274 @@
+import Dexie from 'dexie';
+import { db } from './db';
+import { AuditArchivedRange, BackupData } from '../types';
+import { createAuditChainVerifier } from './auditChain';
+import { AUDIT_ARCHIVE_KEY, getArchivedAuditRanges } from './audit';
+import { SCHEMA_VERSION, migrateBackupData } from './migrations';
+import { APP_VERSION, BACKUP_CHECKPOINT_KEY, BACKUP_TABLE_NAMES, BackupTable, PLAIN_BACKUP_TABLE_NAMES } from './backup';
+import { generateUUID } from '../utils/helpers';
+
+// Backup format for databases too large to build as one JSON object: a gzip file of newline-delimited
+// JSON, written and read a page at a time inside a worker. The first line is a header, then one line
+// per page of rows, then a manifest with each table's row count and a SHA-256 chained over its page
+// lines, so a truncated or edited file is rejected before anything is restored.
+
+const FORMAT = 'erp-backup-stream';
+const FORMAT_VERSION = 1;
+const PAGE_SIZE = 2000;
+
+export interface BackupProgress {
+    phase: 'export' | 'verify' | 'restore';
+    table?: string;
+    percent: number;
+}
+
+export type BackupStreamTask = { task: 'export' } | { task: 'restore'; file: File };
+
+export type BackupStreamMessage =
+    | { type: 'progress'; progress: BackupProgress }
+    | { type: 'done'; result: any }
+    | { type: 'error'; message: string };
+
+interface StreamHeader {
+    type: 'header';
+    format: typeof FORMAT;
+    version: number;
+    metadata: BackupData['metadata'];
+    auditArchive: AuditArchivedRange[];
+}
+
+interface StreamPage {
+    type: 'page';
+    table: BackupTable;
+    rows: any[];
+}
+
+interface TableChecksum {
+    rows: number;
+    pages: number;
+    sha256: string;
+}
+
+interface StreamManifest {
+    type: 'manifest';
+    tables: Partial<Record<BackupTable, TableChecksum>>;
+}
+
+type StreamLine = StreamHeader | StreamPage | StreamManifest;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Each page line is hashed onto the previous digest, so pages cannot be dropped, reordered or edited
+const chainHash = async (previous: string, line: string) => toHex(await crypto.subtle.digest('SHA-256', encoder.encode(previous + line)));
+
+// Posts only when the rounded percentage moves, not once per chunk
+const throttle = (onProgress: (progress: BackupProgress) => void) => {
+    let last = '';
+    return (progress: BackupProgress) => {
+        const key = `${progress.phase}:${progress.table}:${progress.percent}`;
+        if (key !== last) onProgress(progress);
+        last = key;
+    };
+};
+
+const parseLine = (text: string): StreamLine => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error('Tệp sao lưu nén bị hỏng: có dòng dữ liệu không đọc được.');
+    }
+};
+
+// Audit entries go out in seq order so the importer can verify the chain as they stream past
+const exportPages = async (name: BackupTable, writePage: (rows: any[]) => Promise<void>) => {
+    const table = db.table(name);
+    const index = name === 'auditLogs' ? 'seq' : ':id';
+    const keyOf = (row: any) => name === 'auditLogs' ? row.seq : row[table.schema.primKey.keyPath as string];
+
+    let page = await table.orderBy(index).limit(PAGE_SIZE).toArray();
+    while (page.length > 0) {
+        await writePage(page);
+        if (page.length < PAGE_SIZE) break;
+        page = await table.where(index).above(keyOf(page[page.length - 1])).limit(PAGE_SIZE).toArray();
+    }
+    // Rows without a seq are not in that index; they would fail verification, but must not vanish from the file
+    if (name === 'auditLogs') {
+        const unsealed = await db.auditLogs.filter(e => !e.seq).toArray();
+        if (unsealed.length > 0) await writePage(unsealed);
+    }
+};
+
+export const writeBackupStream = async (onProgress: (progress: BackupProgress) => void): Promise<{ blob: Blob; fileName: string }> => {
+    const report = throttle(onProgress);
+    const compressor = new CompressionStream('gzip');
+    const writer = compressor.writable.getWriter();
+    const output = new Response(compressor.readable).blob();
+    const writeLine = (line: string) => writer.write(encoder.encode(line + '\n'));
+    const exportedAt = Date.now();
+    const manifest: StreamManifest = { type: 'manifest', tables: {} };
+
+    try {
+        // One read transaction keeps the pages a single snapshot; `Dexie.waitFor` holds it open while
+        // the hashing and the compressor, which are not IndexedDB work, catch up
+        // The file is not encrypted, so it leaves out the accounts and their PIN hashes
+        await (db as any).transaction('r', [...PLAIN_BACKUP_TABLE_NAMES, 'meta'], async () => {
+            const counts = await Promise.all(PLAIN_BACKUP_TABLE_NAMES.map(name => db.table(name).count()));
+            const total = counts.reduce((sum, n) => sum + n, 0) || 1;
+            let done = 0;
+
+            const header: StreamHeader = {
+                type: 'header', format: FORMAT, version: FORMAT_VERSION,
+                metadata: { appVersion: APP_VERSION, schemaVersion: SCHEMA_VERSION, exportedAt, source: 'ERP_HUNGTHINH', backupId: generateUUID('backup'), kind: 'full' },
+                auditArchive: await getArchivedAuditRanges(),
+            };
+            await Dexie.waitFor(writeLine(JSON.stringify(header)));
+
+            for (const name of PLAIN_BACKUP_TABLE_NAMES) {
+                const checksum: TableChecksum = { rows: 0, pages: 0, sha256: '' };
+                await exportPages(name, async rows => {
+                    const line = JSON.stringify({ type: 'page', table: name, rows } as StreamPage);
+                    checksum.sha256 = await Dexie.waitFor(chainHash(checksum.sha256, line));
+                    await Dexie.waitFor(writeLine(line));
+                    checksum.rows += rows.length;
+                    checksum.pages++;
+                    done += rows.length;
+                    report({ phase: 'export', table: name, percent: Math.round(done / total * 100) });
+                });
+                manifest.tables[name] = checksum;
+            }
+        });
+        await writeLine(JSON.stringify(manifest));
+        await writer.close();
+    } catch (error) {
+        output.catch(() => undefined);
+        await writer.abort(error).catch(() => undefined);
+        throw error;
+    }
+
+    return { blob: await output, fileName: `erp-backup-${new Date(exportedAt).toISOString().slice(0, 10)}.ndjson.gz` };
+};
+
+// Yields the decompressed file line by line, holding no more than one page of text at a time
+async function* readLines(file: File, onRead?: (bytes: number) => void): AsyncGenerator<string> {
+    let read = 0;
+    const counted = file.stream().pipeThrough(new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+        transform(chunk, controller) {
+            read += chunk.length;
+            onRead?.(read);
+            controller.enqueue(chunk);
+        },
+    }));
+    const reader = counted.pipeThrough(new DecompressionStream('gzip')).pipeThrough(new TextDecoderStream()).getReader();
+
+    const readChunk = async () => {
+        try {
+            return await reader.read();
+        } catch {
+            throw new Error('Không giải nén được tệp. Tệp sao lưu nén phải có dạng .ndjson.gz.');
+        }
+    };
+
+    let buffer = '';
+    while (true) {
+        const { done, value } = await readChunk();
+        if (done) break;
+        buffer += value;
+        let newline = buffer.indexOf('\n');
+        while (newline >= 0) {
+            yield buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 1);
+            newline = buffer.indexOf('\n');
+        }
+    }
+    if (buffer) yield buffer;
+}
+
+// First pass over the file: checks every checksum and the audit chain without touching the database
+const verifyBackupStream = async (file: File, report: (progress: BackupProgress) => void) => {
+    let header: StreamHeader | undefined;
+    let manifest: StreamManifest | undefined;
+    let verifier: ReturnType<typeof createAuditChainVerifier> | undefined;
+    const seen: Partial<Record<BackupTable, TableChecksum>> = {};
+
+    for await (const text of readLines(file, read => report({ phase: 'verify', percent: Math.round(read / (file.size || 1) * 100) }))) {
+        const line = parseLine(text);
+        if (!header) {
+            if (line.type !== 'header' || line.format !== FORMAT) throw new Error('Tệp này không phải là bản sao lưu nén của hệ thống.');
+            if (line.version !== FORMAT_VERSION) throw new Error(`Định dạng sao lưu nén phiên bản ${line.version} không được hỗ trợ.`);
+            if ((line.metadata?.schemaVersion || 0) > SCHEMA_VERSION) {
+                throw new Error(`Phiên bản backup (v${line.metadata.schemaVersion}) mới hơn hệ thống hiện tại (v${SCHEMA_VERSION}). Hãy cập nhật ứng dụng trước khi khôi phục.`);
+            }
+            header = line;
+            verifier = createAuditChainVerifier(line.auditArchive || []);
+            continue;
+        }
+        if (manifest) throw new Error('Tệp sao lưu nén bị hỏng: có dữ liệu sau phần kiểm tra.');
+        if (line.type === 'manifest') {
+            manifest = line;
+            continue;
+        }
+        if (line.type !== 'page' || !BACKUP_TABLE_NAMES.includes(line.table) || !Array.isArray(line.rows)) {
+            throw new Error('Tệp sao lưu nén bị hỏng: có dòng dữ liệu không hợp lệ.');
+        }
+        const checksum = seen[line.table] ||= { rows: 0, pages: 0, sha256: '' };
+        checksum.sha256 = await chainHash(checksum.sha256, text);
+        checksum.rows += line.rows.length;
+        checksum.pages++;
+        if (line.table === 'auditLogs') line.rows.forEach(verifier!.push);
+    }
+
+    if (!header) throw new Error('Tệp sao lưu rỗng.');
+    if (!manifest) throw new Error('Tệp sao lưu bị cắt ngang: thiếu phần kiểm tra ở cuối tệp.');
+    for (const name of BACKUP_TABLE_NAMES) {
+        const expected = manifest.tables[name];
+        const actual = seen[name];
+        if ((expected?.rows || 0) !== (actual?.rows || 0) || (expected?.sha256 || '') !== (actual?.sha256 || '')) {
+            throw new Error(`Bảng ${name} không khớp mã kiểm tra (${actual?.rows || 0}/${expected?.rows || 0} bản ghi). Tệp sao lưu đã bị sửa đổi hoặc hỏng.`);
+        }
+    }
+
+    const chain = verifier!.finish();
+    if (!chain.ok) {
+        const at = chain.firstBreak!;
+        throw new Error(`Nhật ký trong bản sao lưu đã bị sửa đổi (${at.reason}) tại bản ghi ${at.seq ? `#${at.seq}` : at.id} lúc ${new Date(at.createdAt).toLocaleString('vi-VN')}. Khôi phục bị từ chối.`);
+    }
+    return { header, manifest };
+};
+
+// Replaces the whole database from a streamed backup. The file is read twice: once to verify it, then
+// again inside a single transaction so a failure part way leaves the current data untouched.
+export const restoreBackupStream = async (file: File, onProgress: (progress: BackupProgress) => void): Promise<Record<string, number>> => {
+    const report = throttle(onProgress);
+    const { header, manifest } = await verifyBackupStream(file, report);
+    const total = Object.values(manifest.tables).reduce((sum, t) => sum + (t?.rows || 0), 0) || 1;
+    // Pages are migrated one at a time, which holds because the steps after this format appeared work row by row
+    const fromVersion = header.metadata.schemaVersion || 0;
+    let done = 0;
+
+    await (db as any).transaction('rw', [...BACKUP_TABLE_NAMES, 'meta'], async () => {
+        // Files from before accounts were included carry none; the local accounts stay so nobody is locked out
+        for (const name of BACKUP_TABLE_NAMES) {
+            if (name === 'users' && !manifest.tables.users?.rows) continue;
+            await db.table(name).clear();
+        }
+        await db.meta.put({ key: AUDIT_ARCHIVE_KEY, value: header.auditArchive || [] });
+        await db.meta.delete(BACKUP_CHECKPOINT_KEY);
+
+        const lines = readLines(file);
+        while (true) {
+            const next = await Dexie.waitFor(lines.next());
+            if (next.done) break;
+            const line = parseLine(next.value);
+            if (line.type !== 'page') continue;
+            const data: Record<string, any[]> = { [line.table]: line.rows };
+            if (fromVersion < SCHEMA_VERSION) await Dexie.waitFor(migrateBackupData(data, fromVersion));
+            await db.table(line.table).bulkAdd(data[line.table]);
+            done += line.rows.length;
+            report({ phase: 'restore', table: line.table, percent: Math.round(done / total * 100) });
+        }
+    });
+
+    return Object.fromEntries(Object.entries(manifest.tables).map(([name, t]) => [name, t?.rows || 0]));
+};
@@ -0,0 +1,15 @@
+import { BackupProgress, BackupStreamMessage, BackupStreamTask, restoreBackupStream, writeBackupStream } from './backupStream';
+
+// Runs the streamed export and restore off the main thread, posting progress back as it goes
+const post = (message: BackupStreamMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<BackupStreamTask>) => {
+    const onProgress = (progress: BackupProgress) => post({ type: 'progress', progress });
+    try {
+        const result = e.data.task === 'export' ? await writeBackupStream(onProgress) : await restoreBackupStream(e.data.file, onProgress);
+        post({ type: 'done', result });
+    } catch (error: any) {
+        console.error('Streamed backup failed:', error);
+        post({ type: 'error', message: error?.message || 'Sao lưu dạng nén thất bại.' });
+    }
+};
@@ -0,0 +1,184 @@
+import { db } from './db';
+import { CostLayer, Product } from '../types';
+import { generateUUID, getCurrentDate } from '../utils/helpers';
+
+// FIFO cost layers are maintained for every product regardless of the active costing method,
+// so the accountant can switch methods or compare valuations at any time.
+// Writers must run inside a transaction that includes `costLayers`.
+
+const getProductLayers = (productId: string) =>
+    db.costLayers.where('productId').equals(productId).sortBy('timestamp');
+
+// Stock that predates cost layers (or was written outside them) becomes an opening layer at the current cost
+const ensureOpeningLayer = async (product: Product, layers: CostLayer[]) => {
+    const layered = layers.reduce((sum, l) => sum + l.remaining, 0);
+    if (product.stock <= layered) return layers;
+
+    const now = Date.now();
+    const opening: CostLayer = {
+        id: generateUUID('layer'),
+        productId: product.id,
+        sku: product.sku,
+        source: 'opening',
+        date: getCurrentDate(),
+        timestamp: layers.length > 0 ? Math.min(product.createdAt || now, layers[0].timestamp - 1) : (product.createdAt || now),
+        quantity: product.stock - layered,
+        remaining: product.stock - layered,
+        unitCost: product.importPrice || 0,
+        consumptions: [],
+        createdAt: now, updatedAt: now
+    };
+    await db.costLayers.add(opening);
+    return [opening, ...layers];
+};
+
+// Takes up to `quantity` units from `layers` in the given order; returns the cost taken and the units left over
+const drainLayers = async (layers: CostLayer[], quantity: number, referenceCode?: string) => {
+    const now = Date.now();
+    let left = quantity;
+    let totalCost = 0;
+    for (const layer of layers) {
+        if (left <= 0) break;
+        const take = Math.min(left, layer.remaining);
+        await db.costLayers.update(layer.id, {
+            remaining: layer.remaining - take,
+            consumptions: [...layer.consumptions, { quantity: take, timestamp: now, referenceCode }],
+            updatedAt: now
+        });
+        totalCost += take * layer.unitCost;
+        left -= take;
+    }
+    return { totalCost, left };
+};
+
+export const addCostLayer = async (
+    product: Product,
+    quantity: number,
+    unitCost: number,
+    meta: { source: CostLayer['source']; date: string; referenceCode?: string; importCode?: string }
+) => {
+    if (quantity <= 0) return;
+    const layers = await ensureOpeningLayer(product, await getProductLayers(product.id));
+    // Units sold into negative stock were never taken from a layer, so layers hold more than the stock.
+    // The receipt covers that backlog first, so FIFO never values units that were already sold.
+    const backlog = layers.reduce((sum, l) => sum + l.remaining, 0) - product.stock;
+
+    const now = Date.now();
+    const layer: CostLayer = {
+        id: generateUUID('layer'),
+        productId: product.id,
+        sku: product.sku,
+        source: meta.source,
+        referenceCode: meta.referenceCode,
+        importCode: meta.importCode,
+        date: meta.date,
+        timestamp: now,
+        quantity,
+        remaining: quantity,
+        unitCost,
+        consumptions: [],
+        createdAt: now, updatedAt: now
+    };
+    await db.costLayers.add(layer);
+    if (backlog > 0) await drainLayers([...layers.filter(l => l.remaining > 0), layer], backlog, meta.referenceCode);
+};
+
+// Takes `quantity` units out of the oldest layers and returns their cost.
+// `importCode` drains layers from that purchase order first (supplier returns).
+// Units beyond the available layers (negative stock) are valued at the current average cost.
+export const consumeCostLayers = async (
+    product: Product,
+    quantity: number,
+    meta: { referenceCode?: string; importCode?: string } = {}
+) => {
+    if (quantity <= 0) return { totalCost: 0, unitCost: product.importPrice || 0 };
+
+    const layers = (await ensureOpeningLayer(product, await getProductLayers(product.id)))
+        .filter(l => l.remaining > 0)
+        .sort((a, b) => {
+            if (meta.importCode) {
+                const aMatch = a.importCode === meta.importCode ? 0 : 1;
+                const bMatch = b.importCode === meta.importCode ? 0 : 1;
+                if (aMatch !== bMatch) return aMatch - bMatch;
+            }
+            return a.timestamp - b.timestamp;
+        });
+
+    const taken = await drainLayers(layers, quantity, meta.referenceCode);
+    const totalCost = taken.totalCost + taken.left * (product.importPrice || 0);
+
+    return { totalCost, unitCost: Math.round(totalCost / quantity) };
+};
+
+// --- Valuation ---
+
+export interface ValuationRow {
+    productId: string;
+    sku: string;
+    name: string;
+    quantity: number;
+    avgUnitCost: number;
+    avgValue: number;
+    fifoValue: number;
+    layers: { date: string; source: CostLayer['source']; referenceCode?: string; remaining: number; unitCost: number }[];
+}
+
+// Inventory valuation as of a timestamp, under both FIFO (by layer) and moving average
+export const getInventoryValuation = async (asOf: number): Promise<{ rows: ValuationRow[]; totalFifo: number; totalAvg: number }> => {
+    const [products, layers, history, logs] = await Promise.all([
+        db.products.filter(p => !p.isDeleted).toArray(),
+        db.costLayers.where('timestamp').belowOrEqual(asOf).toArray(),
+        db.costHistory.orderBy('timestamp').toArray(),
+        db.inventoryLogs.orderBy('timestamp').toArray(),
+    ]);
+
+    const byProduct = <T extends { productId: string }>(items: T[]) => {
+        const map = new Map<string, T[]>();
+        items.forEach(i => {
+            const bucket = map.get(i.productId);
+            if (bucket) bucket.push(i); else map.set(i.productId, [i]);
+        });
+        return map;
+    };
+    const logsByProduct = byProduct(logs);
+    const historyByProduct = byProduct(history);
+    const layersByProduct = byProduct(layers);
+
+    const rows: ValuationRow[] = products.map(p => {
+        // Quantity on hand from the stock ledger
+        const productLogs = logsByProduct.get(p.id) || [];
+        const lastBefore = [...productLogs].reverse().find(l => l.timestamp <= asOf);
+        const quantity = lastBefore ? lastBefore.newStock : productLogs.length > 0 ? productLogs[0].oldStock : p.stock;
+
+        // Average cost in force at that time
+        const productHistory = historyByProduct.get(p.id) || [];
+        const lastCost = [...productHistory].reverse().find(h => h.timestamp <= asOf);
+        const avgUnitCost = lastCost ? lastCost.newAvgCost : productHistory.length > 0 ? productHistory[0].oldAvgCost : (p.importPrice || 0);
+
+        // FIFO layers as they stood at that time
+        const allLayers = layersByProduct.get(p.id) || [];
+        const productLayers = allLayers
+            .map(l => ({
+                date: l.date, source: l.source, referenceCode: l.referenceCode, unitCost: l.unitCost,
+                remaining: l.quantity - l.consumptions.filter(c => c.timestamp <= asOf).reduce((s, c) => s + c.quantity, 0)
+            }))
+            .filter(l => l.remaining > 0);
+        const fifoValue = allLayers.length > 0
+            ? productLayers.reduce((s, l) => s + l.remaining * l.unitCost, 0)
+            : Math.max(0, quantity) * avgUnitCost; // No layers yet: the whole stock is one opening layer
+
+        return {
+            productId: p.id, sku: p.sku, name: p.name,
+            quantity, avgUnitCost,
+            avgValue: Math.max(0, quantity) * avgUnitCost,
+            fifoValue,
+            layers: productLayers
+        };
+    }).filter(r => r.quantity !== 0 || r.fifoValue !== 0);
+
+    return {
+        rows,
+        totalFifo: rows.reduce((s, r) => s + r.fifoValue, 0),
+        totalAvg: rows.reduce((s, r) => s + r.avgValue, 0)
+    };
+};
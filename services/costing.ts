@@ -0,0 +1,132 @@
+import { db } from './db';
+import { LandedCost, ReceivingItem, Product, CostMovementType, Order, OrderItem } from '../types';
+import { generateUUID } from '../utils/helpers';
+
+export const getLandedCostTotal = (landedCost?: LandedCost) =>
+    landedCost ? (landedCost.freight || 0) + (landedCost.duty || 0) + (landedCost.other || 0) : 0;
+
+// Spreads the landed cost of a receipt across its lines and stamps the resulting unit cost.
+// Rounding leftovers go to the last line so the allocations always add up to the total.
+export const allocateLandedCost = (items: ReceivingItem[], landedCost?: LandedCost): ReceivingItem[] => {
+    const total = getLandedCostTotal(landedCost);
+    if (!landedCost || total <= 0 || items.length === 0) {
+        return items.map(i => ({ ...i, costAllocation: 0, finalUnitCost: i.importPrice }));
+    }
+
+    let weights: number[];
+    if (landedCost.method === 'manual') {
+        const split = landedCost.manualSplit || {};
+        weights = items.map(i => split[i.id] || 0);
+        const manualTotal = weights.reduce((s, w) => s + w, 0);
+        if (Math.round(manualTotal) !== Math.round(total)) {
+            throw new Error(`Tổng phân bổ thủ công (${manualTotal}) không khớp chi phí (${total}).`);
+        }
+    } else if (landedCost.method === 'quantity') {
+        weights = items.map(i => i.quantity);
+    } else {
+        weights = items.map(i => i.quantity * i.importPrice);
+    }
+
+    const weightSum = weights.reduce((s, w) => s + w, 0);
+    // Zero-value lines (e.g. free samples) fall back to an even split
+    if (weightSum <= 0) weights = items.map(() => 1);
+    const base = weightSum > 0 ? weightSum : items.length;
+
+    let allocated = 0;
+    return items.map((item, idx) => {
+        const share = idx === items.length - 1
+            ? total - allocated
+            : Math.round(total * weights[idx] / base);
+        allocated += share;
+        return {
+            ...item,
+            costAllocation: share,
+            finalUnitCost: item.quantity > 0 ? item.importPrice + share / item.quantity : item.importPrice
+        };
+    });
+};
+
+// --- Moving weighted-average cost ---
+
+// Average unit cost after `quantity` units (signed) move at `unitCost`.
+// Receipts into empty or negative stock restart the average at the receipt cost;
+// removals that empty the stock keep the last known average.
+export const computeMovingAverage = (onHand: number, avgCost: number, quantity: number, unitCost: number) => {
+    if (quantity > 0 && onHand <= 0) return unitCost;
+    const newQty = onHand + quantity;
+    if (newQty <= 0) return avgCost;
+    return Math.max(0, (onHand * avgCost + quantity * unitCost) / newQty);
+};
+
+interface CostMovement {
+    type: CostMovementType;
+    quantity: number;
+    unitCost: number;
+    date: string;
+    referenceCode?: string;
+}
+
+// Re-averages the product cost for a stock movement and records it in cost history.
+// Must run inside a transaction that includes `products` and `costHistory`; stock itself is left to the caller.
+export const postCostMovement = async (product: Product, movement: CostMovement) => {
+    const now = Date.now();
+    const oldAvgCost = product.importPrice || 0;
+    const newAvgCost = movement.type === 'adjustment'
+        ? oldAvgCost // Count differences are valued at the current average
+        : Math.round(computeMovingAverage(product.stock, oldAvgCost, movement.quantity, movement.unitCost));
+
+    if (newAvgCost !== oldAvgCost) {
+        await db.products.update(product.id, { importPrice: newAvgCost, updatedAt: now });
+    }
+    await db.costHistory.add({
+        id: generateUUID('cost'),
+        productId: product.id,
+        sku: product.sku,
+        type: movement.type,
+        date: movement.date,
+        timestamp: now,
+        quantity: movement.quantity,
+        unitCost: movement.unitCost,
+        onHandBefore: product.stock,
+        oldAvgCost,
+        newAvgCost,
+        referenceCode: movement.referenceCode,
+        createdAt: now, updatedAt: now
+    });
+    return newAvgCost;
+};
+
+// Running totals for gross margin. Revenue excludes VAT and customer returns.
+// Lines without a stamped cost (a zero stamp means the product had no purchase
+// price yet) are counted in revenue but kept out of profit and margin.
+export interface MarginTally { revenue: number; costedRevenue: number; cost: number; uncostedLines: number }
+
+export const emptyMarginTally = (): MarginTally => ({ revenue: 0, costedRevenue: 0, cost: 0, uncostedLines: 0 });
+
+// Spreads the order discount over its lines and strips VAT, so line revenue sums to total - vatAmount
+export const netRevenueFactor = (o: Order) => {
+    const gross = o.items.reduce((sum, i) => sum + i.total, 0);
+    return gross > 0 ? (o.total - (o.vatAmount || 0)) / gross : 0;
+};
+
+export const tallyLineMargin = (t: MarginTally, i: OrderItem, factor: number) => {
+    if (i.quantity <= 0) return;
+    const kept = Math.max(0, i.quantity - (i.returnedQuantity || 0));
+    const revenue = i.total * (kept / i.quantity) * factor;
+    t.revenue += revenue;
+    if (!i.costPrice) {
+        if (kept > 0) t.uncostedLines++;
+        return;
+    }
+    t.costedRevenue += revenue;
+    t.cost += i.costPrice * kept;
+};
+
+export const tallyOrderMargin = (t: MarginTally, o: Order) => {
+    const factor = netRevenueFactor(o);
+    o.items.forEach(i => tallyLineMargin(t, i, factor));
+    return t;
+};
+
+export const marginProfit = (t: MarginTally) => t.costedRevenue - t.cost;
+export const marginPercent = (t: MarginTally) => t.costedRevenue > 0 ? (marginProfit(t) / t.costedRevenue) * 100 : 0;
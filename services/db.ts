@@ -1,6 +1,12 @@
 
 import Dexie, { type Table } from 'dexie';
-import { Product, Order, Partner, DebtRecord, ImportOrder, Transaction, InventoryLog, DeliveryNote, Quote, AuditLog, ReturnNote, PurchaseReturnNote, ReceivingNote, ErrorLog, AICacheEntry } from '../types';
+import { Product, Order, Partner, DebtRecord, ImportOrder, Transaction, InventoryLog, DeliveryNote, Quote, AuditLog, ReturnNote, PurchaseReturnNote, ReceivingNote, ErrorLog, AICacheEntry, CostHistoryEntry, CostLayer, AppUser, ApprovalRequest } from '../types';
+import { MIGRATIONS } from './migrations';
+
+const STAMPED_TABLES = [
+  'products', 'orders', 'partners', 'debtRecords', 'importOrders', 'transactions', 'inventoryLogs', 'deliveryNotes', 'quotes',
+  'returnNotes', 'purchaseReturnNotes', 'receivingNotes', 'costHistory', 'costLayers', 'approvals'
+];
 
 export class ERPDatabase extends Dexie {
   products!: Table<Product>;
@@ -17,33 +23,34 @@ export class ERPDatabase extends Dexie {
   returnNotes!: Table<ReturnNote>;
   purchaseReturnNotes!: Table<PurchaseReturnNote>;
   receivingNotes!: Table<ReceivingNote>;
+  costHistory!: Table<CostHistoryEntry>;
+  costLayers!: Table<CostLayer>;
   errorLogs!: Table<ErrorLog>;
   aiCache!: Table<AICacheEntry>;
   meta!: Table<{key: string, value: any}>;
+  users!: Table<AppUser>;
+  approvals!: Table<ApprovalRequest>;
 
   constructor() {
     super('ERP_Bearing_DB');
     
-    // Updated schema version 23 to include aiCache
-    (this as any).version(23).stores({
-      products: 'id, sku, name, brand, location, stock, retailPrice, createdAt, updatedAt, isDeleted, seedTag',
-      orders: 'id, code, customerName, phone, date, status, total, quoteId, createdAt, updatedAt, isDeleted, seedTag',
-      partners: 'id, code, name, type, phone, createdAt, updatedAt, isDeleted, seedTag',
-      debtRecords: 'id, partnerId, partnerName, orderCode, status, type, totalAmount, remainingAmount, dueDate, createdAt, updatedAt, seedTag',
-      importOrders: 'id, code, supplierId, supplierName, date, status, total, warehouse, invoiceNo, createdAt, updatedAt, seedTag',
-      transactions: 'id, date, type, category, method, amount, referenceCode, createdAt, updatedAt, seedTag',
-      inventoryLogs: 'id, productId, sku, type, date, timestamp, createdAt, updatedAt, seedTag',
-      deliveryNotes: 'id, code, orderCode, date, status, createdAt, updatedAt, seedTag',
-      quotes: 'id, code, customerName, date, status, total, convertedOrderId, createdAt, updatedAt, seedTag',
-      settings: 'key',
-      // Audit Logs: Optimized indexing for fast filtering
-      auditLogs: 'id, module, entityType, entityId, entityCode, action, createdAt, createdById, refCode, severity, seedTag, [module+createdAt], [entityType+entityId]',
-      returnNotes: 'id, code, orderCode, customerId, date, createdAt, seedTag',
-      purchaseReturnNotes: 'id, code, importCode, supplierId, date, createdAt, seedTag',
-      receivingNotes: 'id, code, importCode, supplierId, date, createdAt, seedTag',
-      errorLogs: '++id, timestamp, severity, route',
-      aiCache: 'key, expiresAt', // Simple key-value store for AI responses with TTL
-      meta: 'key'
+    // Stores and upgrade steps per version live in the migration registry, shared with backup restore
+    MIGRATIONS.forEach(step => {
+      const version = (this as any).version(step.version).stores(step.stores);
+      if (!step.migrate) return;
+      version.upgrade((tx: any) => step.migrate!({
+        update: async (table, transform) => {
+          // Rows handed back as-is are skipped, so the `updatedAt` hook does not mark them for the next incremental backup
+          const before = new Set(await tx.table(table).toArray());
+          const changed = transform([...before]).filter(row => !before.has(row));
+          if (changed.length > 0) await tx.table(table).bulkPut(changed);
+        }
+      }));
+    });
+
+    // Every write moves `updatedAt`, which incremental backups use to find what changed since the last checkpoint
+    STAMPED_TABLES.forEach(name => {
+      this.table(name).hook('updating', (mods: any) => 'updatedAt' in mods ? undefined : { updatedAt: Date.now() });
     });
   }
 }
@@ -0,0 +1,30 @@
+import { Order, OrderItem, DeliveryNote } from '../types';
+
+// Order statuses that still follow the delivery notes; Completed and Cancelled are set by hand
+const SHIPPING_DRIVEN_STATUSES: Order['status'][] = ['PendingPayment', 'Processing', 'PartiallyShipped', 'Shipping'];
+
+export const getOutstandingQuantity = (item: OrderItem) => Math.max(0, item.quantity - (item.deliveredQuantity || 0));
+
+// Derives fulfilment (and the shipping part of the order status) from delivered/returned quantities
+// and the delivery notes of the order that are not cancelled.
+export const deriveFulfillment = (order: Order, notes: DeliveryNote[]): Pick<Order, 'status' | 'fulfillmentStatus'> => {
+    const ordered = order.items.reduce((sum, i) => sum + i.quantity, 0);
+    const delivered = order.items.reduce((sum, i) => sum + Math.min(i.quantity, i.deliveredQuantity || 0), 0);
+    const returned = order.items.reduce((sum, i) => sum + (i.returnedQuantity || 0), 0);
+    const activeNotes = notes.filter(n => n.status !== 'Cancelled');
+
+    let fulfillmentStatus: Order['fulfillmentStatus'];
+    if (returned > 0) fulfillmentStatus = returned >= ordered ? 'Returned' : 'PartiallyReturned';
+    else if (delivered <= 0) fulfillmentStatus = 'NotShipped';
+    else if (delivered < ordered) fulfillmentStatus = 'PartiallyShipped';
+    else if (activeNotes.length > 0 && activeNotes.every(n => n.status === 'Delivered')) fulfillmentStatus = 'Delivered';
+    else fulfillmentStatus = 'Shipped';
+
+    let status = order.status;
+    if (SHIPPING_DRIVEN_STATUSES.includes(order.status)) {
+        if (delivered <= 0) status = order.status === 'PendingPayment' ? 'PendingPayment' : 'Processing';
+        else if (delivered < ordered) status = 'PartiallyShipped';
+        else status = 'Shipping';
+    }
+    return { status, fulfillmentStatus };
+};
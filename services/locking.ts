@@ -0,0 +1,114 @@
+import { db } from './db';
+import { logAudit } from './audit';
+import { DebtRecord } from '../types';
+import { formatCurrency } from '../utils/helpers';
+
+export type LockableType = 'Order' | 'Import' | 'Transaction';
+
+const LOCKABLE_TABLES = {
+    Order: () => db.orders,
+    Import: () => db.importOrders,
+    Transaction: () => db.transactions,
+};
+
+const LOCKABLE_MODULES = { Order: 'Orders', Import: 'Imports', Transaction: 'Transactions' } as const;
+
+// Document dates are 'DD/MM/YYYY', but older rows came from toLocaleDateString and may be unpadded
+export const documentDayStart = (date: string | undefined) => {
+    const [d, m, y] = (date || '').split('/').map(Number);
+    if (!d || !m || !y) return NaN;
+    return new Date(y, m - 1, d).getTime();
+};
+
+export const assertUnlocked = (doc: { lockedAt?: number } | undefined, label: string) => {
+    if (doc?.lockedAt) {
+        throw new Error(`Chứng từ ${label} đã bị khóa sổ ngày ${new Date(doc.lockedAt).toLocaleDateString('vi-VN')}, không thể thay đổi.`);
+    }
+};
+
+// Voiding or reversing a debt undoes its payments too, so none of them may sit in a closed period
+export const assertDebtUnlocked = (debt: DebtRecord) => {
+    assertUnlocked(debt, `công nợ ${debt.orderCode}`);
+    const locked = (debt.payments || []).find(p => p.lockedAt);
+    if (locked) assertUnlocked(locked, `thanh toán ${formatCurrency(locked.amount)} ngày ${locked.date} của công nợ ${debt.orderCode}`);
+};
+
+// `lockedBefore` is the cut-off of the last period close; nothing may be dated before it
+export const assertOpenPeriod = (date: string, lockedBefore?: string) => {
+    if (!lockedBefore) return;
+    if (documentDayStart(date) < documentDayStart(lockedBefore)) {
+        throw new Error(`Ngày ${date} thuộc kỳ đã khóa sổ (trước ${lockedBefore}).`);
+    }
+};
+
+export const setDocumentLock = async (
+    type: LockableType,
+    id: string,
+    locked: boolean,
+    actor: { id: string; name: string },
+    reason?: string
+) => {
+    const table = LOCKABLE_TABLES[type]();
+    await (db as any).transaction('rw', table, db.auditLogs, async () => {
+        const doc: any = await table.get(id);
+        if (!doc) throw new Error('Không tìm thấy chứng từ.');
+        if (!!doc.lockedAt === locked) return;
+
+        const lockedAt = locked ? Date.now() : undefined;
+        await table.update(id, { lockedAt, updatedAt: Date.now() });
+        await logAudit({
+            module: LOCKABLE_MODULES[type],
+            entityType: type,
+            entityId: id,
+            entityCode: doc.code || doc.referenceCode,
+            action: 'Lock',
+            summary: locked ? `Locked ${type} ${doc.code || id}` : `Unlocked ${type} ${doc.code || id}: ${reason}`,
+            actor,
+            before: { lockedAt: doc.lockedAt },
+            after: { lockedAt, reason },
+            severity: locked ? 'info' : 'warn'
+        });
+    });
+};
+
+// Locks every order, import, transaction and debt payment dated before `cutoff` (DD/MM/YYYY), and the debts
+// that were settled entirely before it
+export const closePeriod = async (cutoff: string, actor: { id: string; name: string }) => {
+    const cutoffTs = documentDayStart(cutoff);
+    if (isNaN(cutoffTs)) throw new Error('Ngày khóa sổ không hợp lệ.');
+    const isBefore = (date: string) => documentDayStart(date) < cutoffTs;
+    const now = Date.now();
+    const counts = { orders: 0, imports: 0, transactions: 0, payments: 0, debts: 0 };
+
+    await (db as any).transaction('rw', db.orders, db.importOrders, db.transactions, db.debtRecords, db.auditLogs, async () => {
+        counts.orders = await db.orders.filter(o => !o.lockedAt && isBefore(o.date)).modify({ lockedAt: now });
+        counts.imports = await db.importOrders.filter(i => !i.lockedAt && isBefore(i.date)).modify({ lockedAt: now });
+        counts.transactions = await db.transactions.filter(t => !t.lockedAt && isBefore(t.date)).modify({ lockedAt: now });
+        counts.debts = await db.debtRecords.filter(d => !d.lockedAt && (d.status === 'Paid' || d.status === 'Void')
+            && isBefore(d.issueDate) && (d.payments || []).every(p => isBefore(p.date))).modify({ lockedAt: now });
+
+        const debts = await db.debtRecords.filter(d => (d.payments || []).some(p => !p.lockedAt && isBefore(p.date))).toArray();
+        for (const debt of debts) {
+            const payments = (debt.payments || []).map(p => {
+                if (p.lockedAt || !isBefore(p.date)) return p;
+                counts.payments++;
+                return { ...p, lockedAt: now };
+            });
+            await db.debtRecords.update(debt.id, { payments });
+        }
+
+        await logAudit({
+            module: 'System',
+            entityType: 'Period',
+            entityId: cutoff,
+            entityCode: cutoff,
+            action: 'Lock',
+            summary: `Closed period before ${cutoff}: ${counts.orders} orders, ${counts.imports} imports, ${counts.transactions} transactions, ${counts.payments} debt payments, ${counts.debts} settled debts`,
+            actor,
+            after: counts,
+            severity: 'warn',
+            tags: ['period-close']
+        });
+    });
+    return counts;
+};
@@ -0,0 +1,123 @@
+import Dexie from 'dexie';
+import { db } from './db';
+import { logAudit, verifyStoredAuditChain, getArchivedAuditRanges, AUDIT_ARCHIVE_KEY } from './audit';
+import { AuditChainReport, mergeArchivedRanges, verifyAuditSegments } from './auditChain';
+import { AuditLog, AuditModule, ErrorLog, LogRetentionRule, LogRetentionSettings } from '../types';
+import { downloadBlob, gunzipText, gzipText } from '../utils/helpers';
+
+export const AUDIT_MODULE_LABELS: Record<AuditModule, string> = {
+    Orders: 'Đơn hàng', Inventory: 'Kho hàng', Debts: 'Công nợ', Imports: 'Nhập hàng', Partners: 'Đối tác',
+    Settings: 'Cài đặt', Returns: 'Trả hàng', Transactions: 'Thu chi', Quotes: 'Báo giá', Delivery: 'Giao hàng', System: 'Hệ thống',
+};
+
+export const AUDIT_SEVERITY_LABELS: Record<AuditLog['severity'], string> = { info: 'Thông tin', warn: 'Cảnh báo', error: 'Lỗi' };
+
+const AUDIT_MODULES = Object.keys(AUDIT_MODULE_LABELS) as AuditModule[];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LogArchiveFile {
+    metadata: {
+        kind: 'erp-log-archive';
+        archivedAt: number;
+        archivedBy: string;
+        source: string;
+    };
+    auditLogs: AuditLog[];
+    errorLogs: ErrorLog[];
+}
+
+// A rule naming both module and severity beats a module-wide one, which beats a severity-wide one
+const specificity = (rule: LogRetentionRule) => (rule.module !== 'all' ? 2 : 0) + (rule.severity !== 'all' ? 1 : 0);
+
+export const resolveRetentionDays = (rules: LogRetentionRule[], log: Pick<AuditLog, 'module' | 'severity'>) => {
+    const match = rules
+        .filter(r => (r.module === 'all' || r.module === log.module) && (r.severity === 'all' || r.severity === log.severity))
+        .sort((a, b) => specificity(b) - specificity(a))[0];
+    return match?.days || 0;
+};
+
+const findExpiredAuditLogs = async (rules: LogRetentionRule[], now: number) => {
+    // The head stays so new entries keep chaining onto a row that is still here
+    const head = await db.auditLogs.orderBy('seq').last();
+    const groups = await Promise.all(AUDIT_MODULES.map(module => {
+        // Widest window any rule for this module allows; the per-entry check below settles severities
+        const days = rules.filter(r => r.module === 'all' || r.module === module).map(r => r.days).filter(d => d > 0);
+        if (days.length === 0) return [];
+        const cutoff = now - Math.min(...days) * DAY_MS;
+        return db.auditLogs.where('[module+createdAt]').between([module, Dexie.minKey], [module, cutoff]).toArray();
+    }));
+    return groups.flat().filter(log => {
+        const days = resolveRetentionDays(rules, log);
+        return days > 0 && log.createdAt < now - days * DAY_MS && !!log.seq && log.id !== head?.id;
+    });
+};
+
+const findExpiredErrorLogs = async (retention: LogRetentionSettings['errors'], now: number) => {
+    const days = Object.values(retention).filter((d): d is number => !!d && d > 0);
+    if (days.length === 0) return [];
+    const candidates = await db.errorLogs.where('timestamp').below(now - Math.min(...days) * DAY_MS).toArray();
+    return candidates.filter(e => {
+        const keep = retention[e.severity] || 0;
+        return keep > 0 && e.timestamp < now - keep * DAY_MS;
+    });
+};
+
+export const countExpiredLogs = async (policy?: LogRetentionSettings) => {
+    if (!policy) return { audit: 0, errors: 0 };
+    const now = Date.now();
+    const [audit, errors] = await Promise.all([findExpiredAuditLogs(policy.audit, now), findExpiredErrorLogs(policy.errors, now)]);
+    return { audit: audit.length, errors: errors.length };
+};
+
+// Downloads the expired entries as a gzipped file, then removes them. The seq ranges they leave
+// behind are recorded so the live chain still verifies, and the file can be checked on its own.
+export const archiveExpiredLogs = async (policy: LogRetentionSettings | undefined, actor: { id: string; name: string }) => {
+    if (!policy) return null;
+    const report = await verifyStoredAuditChain();
+    if (!report.ok) throw new Error('Chuỗi nhật ký đang bị đứt. Hãy kiểm tra tại mục Sức khỏe dữ liệu trước khi lưu trữ.');
+
+    const now = Date.now();
+    const auditLogs = await findExpiredAuditLogs(policy.audit, now);
+    const errorLogs = await findExpiredErrorLogs(policy.errors, now);
+    if (auditLogs.length === 0 && errorLogs.length === 0) return null;
+
+    const archive: LogArchiveFile = {
+        metadata: { kind: 'erp-log-archive', archivedAt: now, archivedBy: actor.name, source: 'ERP_HUNGTHINH' },
+        auditLogs: auditLogs.sort((a, b) => a.seq! - b.seq!),
+        errorLogs,
+    };
+    const fileName = `erp-log-archive-${new Date(now).toISOString().slice(0, 10)}.json.gz`;
+    // Compression and saving are not Dexie promises, so the file is written before the transaction opens.
+    // Nothing is deleted unless it was actually saved.
+    if (!(await downloadBlob(fileName, await gzipText(JSON.stringify(archive))))) {
+        throw new Error('Chưa lưu tệp lưu trữ nên nhật ký được giữ nguyên.');
+    }
+
+    await (db as any).transaction('rw', db.auditLogs, db.errorLogs, db.meta, async () => {
+        await db.auditLogs.bulkDelete(auditLogs.map(l => l.id));
+        await db.errorLogs.bulkDelete(errorLogs.map(e => e.id!));
+        await db.meta.put({ key: AUDIT_ARCHIVE_KEY, value: mergeArchivedRanges(await getArchivedAuditRanges(), auditLogs) });
+        await logAudit({
+            module: 'System', entityType: 'LogArchive', entityId: fileName, entityCode: fileName,
+            action: 'Delete', summary: `Archived ${auditLogs.length} audit entries and ${errorLogs.length} error logs to ${fileName}`,
+            actor, after: { auditLogs: auditLogs.length, errorLogs: errorLogs.length, firstSeq: auditLogs[0]?.seq, lastSeq: auditLogs[auditLogs.length - 1]?.seq },
+            severity: 'warn', tags: ['archive']
+        });
+    });
+    return { fileName, auditCount: auditLogs.length, errorCount: errorLogs.length };
+};
+
+// Archives are only ever opened for reading; nothing in them is written back to the database
+export const readLogArchive = async (file: File): Promise<{ archive: LogArchiveFile; report: AuditChainReport }> => {
+    let archive: LogArchiveFile;
+    try {
+        archive = JSON.parse(await gunzipText(file));
+    } catch {
+        throw new Error('Không đọc được tệp. Tệp lưu trữ nhật ký phải có dạng .json.gz.');
+    }
+    if (archive?.metadata?.kind !== 'erp-log-archive' || !Array.isArray(archive.auditLogs)) {
+        throw new Error('Tệp này không phải là tệp lưu trữ nhật ký.');
+    }
+    archive = { ...archive, errorLogs: archive.errorLogs || [] };
+    return { archive, report: verifyAuditSegments(archive.auditLogs) };
+};
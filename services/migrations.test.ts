@@ -0,0 +1,144 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ERPDatabase } from './db';
+import { MIGRATIONS, SCHEMA_VERSION, migrateBackupData } from './migrations';
+import { verifyAuditChain } from './auditChain';
+
+const DB_NAME = 'ERP_Bearing_DB';
+
+type Tables = Record<string, any[]>;
+
+// Creates the database as an install at `version` left it, with `rows` already stored
+const seedDatabase = async (version: number, rows: Tables) => {
+    const legacy = new Dexie(DB_NAME);
+    const steps = MIGRATIONS.filter(m => m.version <= version);
+    // Installs older than the registry baseline already had the baseline stores
+    if (steps.length === 0) legacy.version(version).stores(MIGRATIONS[0].stores);
+    steps.forEach(step => legacy.version(step.version).stores(step.stores));
+    await legacy.open();
+    for (const [table, data] of Object.entries(rows)) await legacy.table(table).bulkAdd(data);
+    legacy.close();
+};
+
+// Opens the app database over the seeded one, which runs the Dexie upgrade, and reads back every table
+const upgradeDatabase = async (): Promise<{ tables: Tables; version: number }> => {
+    const upgraded = new ERPDatabase();
+    await upgraded.open();
+    const tables: Tables = {};
+    for (const table of upgraded.tables) tables[table.name] = await table.toArray();
+    const version = upgraded.verno;
+    upgraded.close();
+    return { tables, version };
+};
+
+interface StepCase {
+    version: number;
+    fixture: () => Tables;
+    check: (tables: Tables) => void;
+}
+
+const current = { id: 'p-current', sku: 'SKF-6205', name: '6205-2RS', brand: 'SKF', stock: 8, importPrice: 40000, retailPrice: 55000, createdAt: 1000, updatedAt: 2000 };
+
+const CASES: StepCase[] = [
+    {
+        version: 23,
+        fixture: () => ({
+            products: [{ id: 'p1', sku: 'NSK-6001', name: '6001ZZ', stock: '12', importPrice: '15000' }],
+            partners: [{ id: 'c1', code: 'KH001', name: 'Công ty A', type: 'Customer' }],
+            orders: [
+                { id: 'o1', code: 'DH001', customerName: 'Công ty A', date: '01/01/2023', status: 'Completed', total: '200000' },
+                { id: 'o2', code: 'DH002', customerName: 'Công ty A', date: '02/01/2023', status: 'Processing', total: 50000, amountPaid: 20000, items: [{ id: 'p1', quantity: 1 }] },
+            ],
+            quotes: [{ id: 'q1', code: 'BG001', customerName: 'Công ty A', date: '01/01/2023', total: 0 }],
+            importOrders: [{ id: 'i1', code: 'PN001', supplierName: 'NCC B', date: '01/01/2023', status: 'Completed' }],
+            debtRecords: [{ id: 'd1', partnerId: 'c1', orderCode: 'DH002', type: 'Receivable', status: 'Pending', totalAmount: 50000, payments: [{ amount: 20000 }] }],
+            transactions: [{ id: 't1', date: '01/01/2023', type: 'income', amount: '200000', createdAt: 500 }],
+        }),
+        check: tables => {
+            const [product] = tables.products;
+            expect(product).toMatchObject({ stock: 12, importPrice: 15000, retailPrice: 0, brand: '' });
+            expect(product.createdAt).toEqual(expect.any(Number));
+            expect(tables.partners[0].debt).toBe(0);
+            const [completed, partial] = [...tables.orders].sort((a, b) => a.code.localeCompare(b.code));
+            expect(completed).toMatchObject({ total: 200000, amountPaid: 200000, subtotal: 200000, items: [], paymentStatus: 'Paid' });
+            expect(partial).toMatchObject({ amountPaid: 20000, paymentStatus: 'Partial', vatAmount: 0 });
+            expect(tables.quotes[0]).toMatchObject({ status: 'Draft', items: [] });
+            expect(tables.importOrders[0]).toMatchObject({ items: [], total: 0 });
+            expect(tables.debtRecords[0].remainingAmount).toBe(30000);
+            expect(tables.transactions[0]).toMatchObject({ amount: 200000, createdAt: 500, updatedAt: 500 });
+        },
+    },
+    ...[24, 25, 26, 27].map(version => ({
+        version,
+        fixture: () => ({ products: [current] }),
+        // Store-only steps must carry existing rows over untouched
+        check: (tables: Tables) => expect(tables.products).toEqual([current]),
+    })),
+    {
+        version: 28,
+        fixture: () => ({
+            products: [{ ...current, id: 'p-archived', isDeleted: true }, current],
+            orders: [{ id: 'o-archived', code: 'DH009', total: 0, items: [], isDeleted: true, deletedAt: 1234, createdAt: 1, updatedAt: 1 }],
+        }),
+        check: tables => {
+            const archived = tables.products.find(p => p.id === 'p-archived');
+            expect(archived.deletedAt).toEqual(expect.any(Number));
+            expect(tables.products.find(p => p.id === current.id).deletedAt).toBeUndefined();
+            expect(tables.orders[0].deletedAt).toBe(1234);
+        },
+    },
+    {
+        version: 29,
+        fixture: () => ({
+            auditLogs: [
+                { id: 'a2', module: 'Orders', entityType: 'Order', entityId: 'o1', action: 'Update', summary: 'Cập nhật DH001', createdAt: 2000 },
+                { id: 'a1', module: 'Orders', entityType: 'Order', entityId: 'o1', action: 'Create', summary: 'Tạo DH001', createdAt: 1000 },
+            ],
+        }),
+        check: tables => {
+            const logs = [...tables.auditLogs].sort((a, b) => a.seq - b.seq);
+            expect(logs.map(l => l.id)).toEqual(['a1', 'a2']);
+            expect(verifyAuditChain(logs).ok).toBe(true);
+        },
+    },
+];
+
+afterEach(async () => {
+    await Dexie.delete(DB_NAME);
+});
+
+describe('migration registry', () => {
+    it('covers every schema version in ascending order', () => {
+        const versions = MIGRATIONS.map(m => m.version);
+        expect(versions).toEqual(CASES.map(c => c.version));
+        expect(SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+    });
+
+    describe.each(CASES)('v$version', ({ version, fixture, check }) => {
+        it('upgrades a database left at the previous version', async () => {
+            await seedDatabase(version - 1, fixture());
+            const { tables, version: upgradedTo } = await upgradeDatabase();
+            expect(upgradedTo).toBe(SCHEMA_VERSION);
+            for (const step of MIGRATIONS) {
+                for (const store of Object.keys(step.stores)) expect(tables).toHaveProperty(store);
+            }
+            check(tables);
+        });
+
+        it('migrates a backup exported at the previous version', async () => {
+            const data = fixture();
+            const applied = await migrateBackupData(data, version - 1);
+            expect(applied).toEqual(MIGRATIONS.filter(m => m.version >= version && m.migrate).map(m => `v${m.version}: ${m.description}`));
+            check(data);
+        });
+    });
+
+    it('leaves an already sealed audit chain alone when a backup claims an older version', async () => {
+        const data: Tables = { auditLogs: [{ id: 'a1', module: 'Orders', action: 'Create', summary: 'Tạo DH001', createdAt: 1000 }] };
+        await migrateBackupData(data, 28);
+        const sealed = data.auditLogs;
+        await migrateBackupData(data, 28);
+        expect(data.auditLogs).toBe(sealed);
+    });
+});
@@ -0,0 +1,145 @@
+import { sealAuditEntries } from './auditChain';
+
+// Single source for the schema version: `db.ts` declares every step below as a Dexie version,
+// and backups exported at an older version replay the same steps before they are restored.
+
+type Rows = any[];
+
+export interface MigrationContext {
+    // Hands `transform` every row of `table` and stores what it returns. Rows are written back by
+    // primary key and never removed, so a transform must return the unchanged rows too.
+    update: (table: string, transform: (rows: Rows) => Rows) => Promise<void>;
+}
+
+export interface SchemaMigration {
+    version: number;
+    description: string;
+    stores: Record<string, string>;
+    migrate?: (ctx: MigrationContext) => Promise<void>;
+}
+
+const withTimestamps = (row: any, now: number) => ({
+    ...row,
+    createdAt: row.createdAt ?? row.updatedAt ?? now,
+    updatedAt: row.updatedAt ?? row.createdAt ?? now,
+});
+
+const toNumber = (value: any) => Number(value) || 0;
+
+// From this version on every audit entry is written sealed; a backup at or above it with unhashed entries was altered
+export const AUDIT_CHAIN_VERSION = 29;
+
+export const MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 23,
+        description: 'Baseline schema (AI cache); older data is brought to the v23 row shapes',
+        stores: {
+            products: 'id, sku, name, brand, location, stock, retailPrice, createdAt, updatedAt, isDeleted, seedTag',
+            orders: 'id, code, customerName, phone, date, status, total, quoteId, createdAt, updatedAt, isDeleted, seedTag',
+            partners: 'id, code, name, type, phone, createdAt, updatedAt, isDeleted, seedTag',
+            debtRecords: 'id, partnerId, partnerName, orderCode, status, type, totalAmount, remainingAmount, dueDate, createdAt, updatedAt, seedTag',
+            importOrders: 'id, code, supplierId, supplierName, date, status, total, warehouse, invoiceNo, createdAt, updatedAt, seedTag',
+            transactions: 'id, date, type, category, method, amount, referenceCode, createdAt, updatedAt, seedTag',
+            inventoryLogs: 'id, productId, sku, type, date, timestamp, createdAt, updatedAt, seedTag',
+            deliveryNotes: 'id, code, orderCode, date, status, createdAt, updatedAt, seedTag',
+            quotes: 'id, code, customerName, date, status, total, convertedOrderId, createdAt, updatedAt, seedTag',
+            settings: 'key',
+            // Audit Logs: Optimized indexing for fast filtering
+            auditLogs: 'id, module, entityType, entityId, entityCode, action, createdAt, createdById, refCode, severity, seedTag, [module+createdAt], [entityType+entityId]',
+            returnNotes: 'id, code, orderCode, customerId, date, createdAt, seedTag',
+            purchaseReturnNotes: 'id, code, importCode, supplierId, date, createdAt, seedTag',
+            receivingNotes: 'id, code, importCode, supplierId, date, createdAt, seedTag',
+            errorLogs: '++id, timestamp, severity, route',
+            aiCache: 'key, expiresAt', // Simple key-value store for AI responses with TTL
+            meta: 'key'
+        },
+        // Early releases left timestamps, amounts and line arrays unset on rows they created
+        migrate: async ({ update }) => {
+            const now = Date.now();
+            await update('products', rows => rows.map(p => withTimestamps({
+                ...p, brand: p.brand || '', stock: toNumber(p.stock), importPrice: toNumber(p.importPrice), retailPrice: toNumber(p.retailPrice),
+            }, now)));
+            await update('partners', rows => rows.map(p => withTimestamps({ ...p, debt: toNumber(p.debt) }, now)));
+            await update('orders', rows => rows.map(o => {
+                const total = toNumber(o.total);
+                const amountPaid = o.amountPaid ?? (o.status === 'Completed' ? total : 0);
+                return withTimestamps({
+                    ...o, items: o.items || [], total, amountPaid,
+                    subtotal: o.subtotal ?? total, discount: toNumber(o.discount), vatRate: toNumber(o.vatRate), vatAmount: toNumber(o.vatAmount),
+                    paymentStatus: o.paymentStatus ?? (amountPaid >= total ? 'Paid' : amountPaid > 0 ? 'Partial' : 'Unpaid'),
+                }, now);
+            }));
+            await update('quotes', rows => rows.map(q => withTimestamps({ ...q, items: q.items || [], status: q.status || 'Draft' }, now)));
+            await update('importOrders', rows => rows.map(i => withTimestamps({ ...i, items: i.items || [], total: toNumber(i.total) }, now)));
+            await update('debtRecords', rows => rows.map(d => {
+                const paid = (d.payments || []).reduce((sum: number, p: any) => sum + toNumber(p.amount), 0);
+                return withTimestamps({ ...d, payments: d.payments || [], remainingAmount: d.remainingAmount ?? toNumber(d.totalAmount) - paid }, now);
+            }));
+            await update('transactions', rows => rows.map(t => withTimestamps({ ...t, amount: toNumber(t.amount) }, now)));
+        },
+    },
+    {
+        version: 24,
+        description: 'Moving-average cost history per product',
+        stores: { costHistory: 'id, productId, sku, type, timestamp, referenceCode, createdAt, seedTag' },
+    },
+    {
+        version: 25,
+        description: 'FIFO cost layers',
+        stores: { costLayers: 'id, productId, importCode, timestamp, remaining, createdAt, seedTag, [productId+timestamp]' },
+    },
+    {
+        version: 26,
+        description: 'Local user accounts',
+        stores: { users: 'id, &username, role' },
+    },
+    {
+        version: 27,
+        description: 'Approval requests',
+        stores: { approvals: 'id, status, documentType, documentId, requestedAt' },
+    },
+    {
+        version: 28,
+        description: 'Recycle bin, `deletedAt` marks soft-deleted rows',
+        stores: {
+            products: 'id, sku, name, brand, location, stock, retailPrice, createdAt, updatedAt, isDeleted, deletedAt, seedTag',
+            orders: 'id, code, customerName, phone, date, status, total, quoteId, createdAt, updatedAt, isDeleted, deletedAt, seedTag',
+            partners: 'id, code, name, type, phone, createdAt, updatedAt, isDeleted, deletedAt, seedTag',
+            transactions: 'id, date, type, category, method, amount, referenceCode, createdAt, updatedAt, deletedAt, seedTag',
+            deliveryNotes: 'id, code, orderCode, date, status, createdAt, updatedAt, deletedAt, seedTag',
+            quotes: 'id, code, customerName, date, status, total, convertedOrderId, createdAt, updatedAt, deletedAt, seedTag'
+        },
+        // Rows archived before the bin existed start their retention period now
+        migrate: async ({ update }) => {
+            const now = Date.now();
+            for (const table of ['products', 'orders', 'partners']) {
+                await update(table, rows => rows.map(row => row.isDeleted && !row.deletedAt ? { ...row, deletedAt: now } : row));
+            }
+        },
+    },
+    {
+        version: AUDIT_CHAIN_VERSION,
+        description: 'Audit hash chain; existing entries are sealed in the order they were written',
+        stores: {
+            auditLogs: 'id, module, entityType, entityId, entityCode, action, createdAt, createdById, refCode, severity, seedTag, seq, [module+createdAt], [entityType+entityId]'
+        },
+        // Backups used to be stamped with a stale version, so a payload claiming an older schema may already be sealed
+        migrate: async ({ update }) => {
+            await update('auditLogs', rows => rows.some(e => e.hash) ? rows : sealAuditEntries(rows));
+        },
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Replays every step above `fromVersion` on a backup's tables, returning the descriptions of the steps applied
+export const migrateBackupData = async (data: Record<string, any>, fromVersion: number): Promise<string[]> => {
+    const steps = MIGRATIONS.filter(m => m.version > fromVersion && m.migrate);
+    const ctx: MigrationContext = {
+        update: async (table, transform) => {
+            if (Array.isArray(data[table])) data[table] = transform(data[table]);
+        },
+    };
+    for (const step of steps) await step.migrate!(ctx);
+    return steps.map(step => `v${step.version}: ${step.description}`);
+};
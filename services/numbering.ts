@@ -0,0 +1,85 @@
+import { db } from './db';
+import { AppSettings, NumberedDocType, NumberingRule } from '../types';
+
+// Sequences live in `meta` under `seq:<type>:<period>`. Codes are issued inside the caller's
+// transaction (which must include `meta`), so a failed save rolls the counter back with it and
+// IndexedDB serialises concurrent tabs on the same row.
+
+export const DEFAULT_NUMBERING: Record<NumberedDocType, NumberingRule> = {
+    order: { prefix: 'DH', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    quote: { prefix: 'BG', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    import: { prefix: 'PN', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    delivery: { prefix: 'PGH', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    receiving: { prefix: 'NK', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    return: { prefix: 'TL', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    purchaseReturn: { prefix: 'TH', format: '{prefix}{yyyy}-{seq:5}', reset: 'yearly' },
+    cashReceipt: { prefix: 'PT', format: '{prefix}{yyyy}{mm}-{seq:4}', reset: 'monthly' },
+    cashPayment: { prefix: 'PC', format: '{prefix}{yyyy}{mm}-{seq:4}', reset: 'monthly' },
+};
+
+export const NUMBERED_DOC_LABELS: Record<NumberedDocType, string> = {
+    order: 'Đơn hàng',
+    quote: 'Báo giá',
+    import: 'Phiếu nhập',
+    delivery: 'Phiếu giao hàng',
+    receiving: 'Phiếu nhận hàng',
+    return: 'Phiếu khách trả',
+    purchaseReturn: 'Phiếu trả NCC',
+    cashReceipt: 'Phiếu thu',
+    cashPayment: 'Phiếu chi',
+};
+
+// Order and import prefixes have always been edited as system.orderPrefix / system.importPrefix
+export const resolveNumberingRule = (type: NumberedDocType, settings: AppSettings): NumberingRule => {
+    const rule = { ...DEFAULT_NUMBERING[type], ...settings.system.numbering?.[type] };
+    if (type === 'order' && settings.system.orderPrefix) rule.prefix = settings.system.orderPrefix;
+    if (type === 'import' && settings.system.importPrefix) rule.prefix = settings.system.importPrefix;
+    return rule;
+};
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+const periodOf = (rule: NumberingRule, date: Date) => {
+    if (rule.reset === 'monthly') return `${date.getFullYear()}${pad(date.getMonth() + 1, 2)}`;
+    if (rule.reset === 'yearly') return String(date.getFullYear());
+    return 'all';
+};
+
+export const formatDocumentCode = (rule: NumberingRule, seq: number, date: Date) =>
+    rule.format.replace(/\{(\w+)(?::(\d+))?\}/g, (token, name: string, width?: string) => {
+        switch (name) {
+            case 'prefix': return rule.prefix;
+            case 'yyyy': return String(date.getFullYear());
+            case 'yy': return String(date.getFullYear()).slice(-2);
+            case 'mm': return pad(date.getMonth() + 1, 2);
+            case 'dd': return pad(date.getDate(), 2);
+            case 'seq': return pad(seq, Number(width) || 1);
+            default: return token;
+        }
+    });
+
+// A format that repeats across reset periods would hand out duplicate codes
+export const validateNumberingRule = (rule: NumberingRule): string | null => {
+    if (!rule.prefix.trim()) return 'Tiền tố không được để trống.';
+    if (!/\{seq(:\d+)?\}/.test(rule.format)) return 'Mẫu số phải chứa {seq}.';
+    if (rule.reset !== 'never' && !/\{(yyyy|yy)\}/.test(rule.format)) return 'Mẫu số đánh lại theo năm/tháng phải chứa {yyyy} hoặc {yy}.';
+    if (rule.reset === 'monthly' && !rule.format.includes('{mm}')) return 'Mẫu số đánh lại theo tháng phải chứa {mm}.';
+    return null;
+};
+
+export const nextDocumentCode = async (type: NumberedDocType, settings: AppSettings, date = new Date()): Promise<string> => {
+    const rule = resolveNumberingRule(type, settings);
+    const key = `seq:${type}:${periodOf(rule, date)}`;
+    return (db as any).transaction('rw', db.meta, async () => {
+        const row = await db.meta.get(key);
+        const seq = (Number(row?.value) || 0) + 1;
+        await db.meta.put({ key, value: seq });
+        return formatDocumentCode(rule, seq, date);
+    });
+};
+
+// Preview for the settings screen; does not consume a number
+export const peekDocumentCode = async (type: NumberedDocType, rule: NumberingRule, date = new Date()): Promise<string> => {
+    const row = await db.meta.get(`seq:${type}:${periodOf(rule, date)}`);
+    return formatDocumentCode(rule, (Number(row?.value) || 0) + 1, date);
+};
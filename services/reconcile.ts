@@ -0,0 +1,304 @@
+import { db } from './db';
+import { logAudit } from './audit';
+import { assertDebtUnlocked, assertUnlocked } from './locking';
+import { addCostLayer, consumeCostLayers } from './costLayers';
+import { postCostMovement } from './costing';
+import { ReconcileIssue, ReconcileFix, InventoryLog, Transaction, Product, DebtRecord } from '../types';
+import { formatCurrency, generateUUID, getCurrentDate } from '../utils/helpers';
+
+// Debt statuses that no longer contribute to a partner balance
+const CLOSED_DEBT_STATUSES = ['Paid', 'Void'];
+
+// Transaction categories that represent the upfront payment of a document
+const ORDER_PAYMENT_CATEGORIES = ['sale'];
+const ORDER_REFUND_CATEGORIES = ['sale_return'];
+const IMPORT_PAYMENT_CATEGORIES = ['import'];
+
+// Amounts below this are treated as rounding noise
+const MONEY_TOLERANCE = 1;
+
+const sumBy = <T>(rows: T[], pick: (row: T) => number) => rows.reduce((sum, row) => sum + (pick(row) || 0), 0);
+
+const groupBy = <T>(rows: T[], key: (row: T) => string | undefined) => {
+    const map = new Map<string, T[]>();
+    rows.forEach(row => {
+        const k = key(row);
+        if (!k) return;
+        const bucket = map.get(k);
+        if (bucket) bucket.push(row); else map.set(k, [row]);
+    });
+    return map;
+};
+
+// Replays the movement ledger of one product: opening stock of the first movement plus every change
+const replayStock = (logs: InventoryLog[]) => {
+    const sorted = [...logs].sort((a, b) => (a.timestamp - b.timestamp) || (a.createdAt - b.createdAt));
+    return sorted[0].oldStock + sumBy(sorted, l => l.changeAmount);
+};
+
+const sumPayments = (txns: Transaction[], type: Transaction['type'], categories: string[]) =>
+    sumBy(txns.filter(t => t.type === type && categories.includes(t.category)), t => t.amount);
+
+export const reconcileDatabase = async (): Promise<ReconcileIssue[]> => {
+    const issues: ReconcileIssue[] = [];
+
+    const [partners, products, orders, importOrders, debtRecords, transactions, inventoryLogs] = await Promise.all([
+        db.partners.toArray(),
+        db.products.toArray(),
+        db.orders.toArray(),
+        db.importOrders.toArray(),
+        db.debtRecords.toArray(),
+        db.transactions.filter(t => !t.isDeleted).toArray(),
+        db.inventoryLogs.toArray(),
+    ]);
+    const [quotes, deliveryNotes, returnNotes, purchaseReturnNotes, receivingNotes] = await Promise.all([
+        db.quotes.toArray(),
+        db.deliveryNotes.toArray(),
+        db.returnNotes.toArray(),
+        db.purchaseReturnNotes.toArray(),
+        db.receivingNotes.toArray(),
+    ]);
+
+    // 1. Partner balance vs open debt records
+    const openDebtsByPartner = groupBy(
+        debtRecords.filter(d => !CLOSED_DEBT_STATUSES.includes(d.status)),
+        d => d.partnerId
+    );
+    partners.filter(p => !p.isDeleted).forEach(p => {
+        const expected = sumBy(openDebtsByPartner.get(p.id) || [], d => d.remainingAmount);
+        const actual = p.debt || 0;
+        if (Math.abs(expected - actual) > MONEY_TOLERANCE) {
+            issues.push({
+                type: 'Lệch công nợ đối tác',
+                severity: 'High',
+                entityId: p.id,
+                entityName: `${p.code} - ${p.name}`,
+                message: `Công nợ ghi trên đối tác là ${formatCurrency(actual)} nhưng tổng các khoản nợ còn mở là ${formatCurrency(expected)}.`,
+                suggestedFix: {
+                    description: `Cập nhật công nợ đối tác thành ${formatCurrency(expected)}`,
+                    table: 'partners', entityId: p.id, patch: { debt: expected }
+                }
+            });
+        }
+    });
+
+    // 2. Product stock vs inventory ledger replay, and negative stock
+    const logsByProduct = groupBy(inventoryLogs, l => l.productId);
+    products.filter(p => !p.isDeleted).forEach(p => {
+        const logs = logsByProduct.get(p.id);
+        if (logs && logs.length > 0) {
+            const expected = replayStock(logs);
+            if (expected !== p.stock) {
+                issues.push({
+                    type: 'Lệch tồn kho',
+                    severity: 'High',
+                    entityId: p.id,
+                    entityName: `${p.sku} - ${p.name}`,
+                    message: `Tồn kho hiện tại là ${p.stock} nhưng thẻ kho (${logs.length} phát sinh) cho kết quả ${expected}.`,
+                    suggestedFix: {
+                        description: `Đặt tồn kho theo thẻ kho: ${expected}`,
+                        table: 'products', entityId: p.id, patch: { stock: expected }
+                    }
+                });
+                return;
+            }
+        }
+        if (p.stock < 0) {
+            issues.push({
+                type: 'Tồn kho âm',
+                severity: 'High',
+                entityId: p.id,
+                entityName: `${p.sku} - ${p.name}`,
+                message: `Sản phẩm đang có tồn kho âm (${p.stock}).`,
+                suggestedFix: {
+                    description: 'Điều chỉnh tồn kho về 0 (ghi nhận phiếu điều chỉnh)',
+                    table: 'products', entityId: p.id, patch: { stock: 0 }, stockAdjustment: true
+                }
+            });
+        }
+    });
+
+    // 2b. Reserved stock vs the lines holding it
+    const heldByProduct = new Map<string, number>();
+    [...orders.filter(o => !o.isDeleted).flatMap(o => o.items), ...quotes.flatMap(q => q.items)].forEach(i => {
+        if (i.reservedQuantity) heldByProduct.set(i.id, (heldByProduct.get(i.id) || 0) + i.reservedQuantity);
+    });
+    products.filter(p => !p.isDeleted).forEach(p => {
+        const expected = heldByProduct.get(p.id) || 0;
+        if (expected !== (p.stockReserved || 0)) {
+            issues.push({
+                type: 'Lệch tồn giữ hàng',
+                severity: 'Medium',
+                entityId: p.id,
+                entityName: `${p.sku} - ${p.name}`,
+                message: `Sản phẩm ghi đang giữ ${p.stockReserved || 0} nhưng các đơn hàng/báo giá mở chỉ giữ ${expected}.`,
+                suggestedFix: {
+                    description: `Đặt tồn giữ hàng theo chứng từ: ${expected}`,
+                    table: 'products', entityId: p.id, patch: { stockReserved: expected }
+                }
+            });
+        }
+    });
+
+    // 3. Paid amounts vs cash book
+    const txnsByRef = groupBy(transactions, t => t.referenceCode);
+    orders.filter(o => !o.isDeleted && o.status !== 'Cancelled').forEach(o => {
+        const orderTxns = txnsByRef.get(o.code) || [];
+        const paid = sumPayments(orderTxns, 'income', ORDER_PAYMENT_CATEGORIES) - sumPayments(orderTxns, 'expense', ORDER_REFUND_CATEGORIES);
+        if (Math.abs(paid - (o.amountPaid || 0)) > MONEY_TOLERANCE) {
+            const paymentStatus = paid <= 0 ? 'Unpaid' : paid >= o.total - (o.returnedAmount || 0) ? 'Paid' : 'Partial';
+            issues.push({
+                type: 'Lệch thanh toán đơn hàng',
+                severity: 'Medium',
+                entityId: o.id,
+                entityName: o.code,
+                message: `Đơn hàng ghi đã thu ${formatCurrency(o.amountPaid)} nhưng sổ quỹ ghi nhận ${formatCurrency(paid)}.`,
+                suggestedFix: {
+                    description: `Cập nhật số đã thu theo sổ quỹ: ${formatCurrency(paid)}`,
+                    table: 'orders', entityId: o.id, patch: { amountPaid: paid, paymentStatus }
+                }
+            });
+        }
+    });
+    importOrders.filter(i => i.status !== 'Cancelled').forEach(i => {
+        const paid = sumPayments(txnsByRef.get(i.code) || [], 'expense', IMPORT_PAYMENT_CATEGORIES);
+        if (Math.abs(paid - (i.amountPaid || 0)) > MONEY_TOLERANCE) {
+            issues.push({
+                type: 'Lệch thanh toán phiếu nhập',
+                severity: 'Medium',
+                entityId: i.id,
+                entityName: i.code,
+                message: `Phiếu nhập ghi đã trả ${formatCurrency(i.amountPaid)} nhưng sổ quỹ ghi nhận ${formatCurrency(paid)}.`,
+                suggestedFix: {
+                    description: `Cập nhật số đã trả theo sổ quỹ: ${formatCurrency(paid)}`,
+                    table: 'importOrders', entityId: i.id, patch: { amountPaid: paid }
+                }
+            });
+        }
+    });
+
+    // 4. Orphaned reference codes
+    const knownCodes = new Set<string>([
+        ...orders.map(o => o.code),
+        ...importOrders.map(i => i.code),
+        ...quotes.map(q => q.code),
+        ...deliveryNotes.map(d => d.code),
+        ...returnNotes.map(r => r.code),
+        ...purchaseReturnNotes.map(r => r.code),
+        ...receivingNotes.map(r => r.code),
+    ]);
+    transactions.filter(t => t.referenceCode && !knownCodes.has(t.referenceCode)).forEach(t => {
+        issues.push({
+            type: 'Chứng từ tham chiếu không tồn tại',
+            severity: 'Low',
+            entityId: t.id,
+            entityName: t.referenceCode,
+            message: `Giao dịch ${formatCurrency(t.amount)} ngày ${t.date} tham chiếu tới chứng từ ${t.referenceCode} không còn tồn tại.`,
+            suggestedFix: {
+                description: 'Gỡ mã tham chiếu khỏi giao dịch',
+                table: 'transactions', entityId: t.id, patch: { referenceCode: undefined }
+            }
+        });
+    });
+    inventoryLogs.filter(l => l.referenceCode && !knownCodes.has(l.referenceCode)).forEach(l => {
+        issues.push({
+            type: 'Chứng từ tham chiếu không tồn tại',
+            severity: 'Low',
+            entityId: l.id,
+            entityName: l.referenceCode,
+            message: `Phát sinh kho ${l.sku} (${l.changeAmount > 0 ? '+' : ''}${l.changeAmount}) ngày ${l.date} tham chiếu tới chứng từ ${l.referenceCode} không còn tồn tại.`,
+            suggestedFix: {
+                description: 'Gỡ mã tham chiếu khỏi thẻ kho',
+                table: 'inventoryLogs', entityId: l.id, patch: { referenceCode: undefined }
+            }
+        });
+    });
+
+    // 5. Debts paid beyond their total (a voided debt no longer counts, whatever was paid on it)
+    debtRecords.filter(d => d.status !== 'Void').forEach(d => {
+        const paid = sumBy(d.payments || [], p => p.amount);
+        if (paid - d.totalAmount > MONEY_TOLERANCE) {
+            issues.push({
+                type: 'Thanh toán vượt công nợ',
+                severity: 'High',
+                entityId: d.id,
+                entityName: `${d.orderCode} - ${d.partnerName}`,
+                message: `Tổng thanh toán ${formatCurrency(paid)} vượt quá giá trị khoản nợ ${formatCurrency(d.totalAmount)}.`,
+                suggestedFix: {
+                    description: 'Đóng khoản nợ (còn lại = 0, trạng thái Đã thanh toán)',
+                    table: 'debtRecords', entityId: d.id, patch: { remainingAmount: 0, status: 'Paid' }
+                }
+            });
+        }
+    });
+
+    const rank = { High: 0, Medium: 1, Low: 2 };
+    return issues.sort((a, b) => rank[a.severity] - rank[b.severity]);
+};
+
+// Values the units an adjusting fix adds or removes the way a stock count does: FIFO layers
+// and an 'adjustment' cost history entry at the current average cost
+const postStockAdjustmentCost = async (product: Product, newStock: number) => {
+    const diff = newStock - product.stock;
+    if (diff > 0) await addCostLayer(product, diff, product.importPrice || 0, { source: 'adjustment', date: getCurrentDate() });
+    else if (diff < 0) await consumeCostLayers(product, -diff);
+    if (diff !== 0) await postCostMovement(product, { type: 'adjustment', quantity: diff, unitCost: product.importPrice || 0, date: getCurrentDate() });
+};
+
+// Moves the partner balance by what the debt's open amount changed by, as the debt mutations do
+const syncPartnerDebt = async (before: DebtRecord, after: DebtRecord) => {
+    const openAmount = (d: DebtRecord) => CLOSED_DEBT_STATUSES.includes(d.status) ? 0 : d.remainingAmount;
+    const delta = openAmount(after) - openAmount(before);
+    const partner = delta !== 0 ? await db.partners.get(before.partnerId) : undefined;
+    if (partner) await db.partners.update(partner.id, { debt: Math.max(0, (partner.debt || 0) + delta), updatedAt: Date.now() });
+};
+
+export const applyReconcileFix = async (issue: ReconcileIssue, actor: { id: string; name: string }) => {
+    const fix: ReconcileFix | undefined = issue.suggestedFix;
+    if (!fix) throw new Error('Vấn đề này không có phương án sửa tự động.');
+
+    // A fix touches whatever is derived from the row it patches: cost layers and history for stock, the partner balance for a debt
+    const table = db.table(fix.table);
+    const scope = [...new Set([fix.table, 'products', 'inventoryLogs', 'costLayers', 'costHistory', 'partners', 'auditLogs'])];
+    await (db as any).transaction('rw', scope, async () => {
+        const current = await table.get(fix.entityId);
+        if (!current) throw new Error(`Không tìm thấy bản ghi ${fix.entityId}.`);
+        if (fix.table === 'debtRecords') assertDebtUnlocked(current);
+        else assertUnlocked(current, issue.entityName);
+
+        const now = Date.now();
+        const before: Record<string, any> = {};
+        Object.keys(fix.patch).forEach(k => { before[k] = current[k]; });
+
+        if (fix.stockAdjustment && fix.table === 'products') await postStockAdjustmentCost(current, fix.patch.stock as number);
+        await table.update(fix.entityId, { ...fix.patch, updatedAt: now });
+        if (fix.table === 'debtRecords') await syncPartnerDebt(current, { ...current, ...fix.patch });
+
+        if (fix.stockAdjustment && fix.table === 'products') {
+            const newStock = fix.patch.stock as number;
+            await db.inventoryLogs.add({
+                id: generateUUID('log'),
+                productId: current.id, sku: current.sku, productName: current.name,
+                type: 'adjustment', changeAmount: newStock - current.stock,
+                oldStock: current.stock, newStock,
+                date: getCurrentDate(), timestamp: now,
+                note: `Đối soát dữ liệu: ${issue.type}`,
+                createdAt: now, updatedAt: now
+            });
+        }
+
+        await logAudit({
+            module: 'System',
+            entityType: fix.table,
+            entityId: fix.entityId,
+            entityCode: issue.entityName,
+            action: 'Adjust',
+            summary: `Reconcile fix "${issue.type}": ${fix.description}`,
+            actor,
+            before,
+            after: fix.patch,
+            severity: 'warn',
+            tags: ['reconcile']
+        });
+    });
+};
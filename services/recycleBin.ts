@@ -0,0 +1,111 @@
+import { Table } from 'dexie';
+import { db } from './db';
+import { logAudit } from './audit';
+import { AuditModule, Permission } from '../types';
+
+export type RecycleEntityType = 'Product' | 'Partner' | 'Order' | 'Quote' | 'DeliveryNote' | 'Transaction';
+
+interface RecycleSource {
+    module: AuditModule;
+    label: string;
+    icon: string;
+    // Restoring goes through the same permission as deleting did
+    permission: Permission;
+    table: () => Table<any>;
+    describe: (row: any) => { code: string; name: string };
+    // Reason the row must stay (so ledgers keep balancing), or null when it can be purged
+    purgeBlocker?: (row: any) => string | null;
+}
+
+export const RECYCLE_SOURCES: Record<RecycleEntityType, RecycleSource> = {
+    Product: {
+        module: 'Inventory', label: 'Sản phẩm', icon: 'inventory_2', permission: 'products.edit',
+        table: () => db.products,
+        describe: p => ({ code: p.sku, name: p.name }),
+        purgeBlocker: p => p.stock !== 0 || (p.stockReserved || 0) > 0 ? `Sản phẩm ${p.sku} còn tồn kho ${p.stock}` : null,
+    },
+    Partner: {
+        module: 'Partners', label: 'Đối tác', icon: 'group', permission: 'partners.edit',
+        table: () => db.partners,
+        describe: p => ({ code: p.code, name: p.name }),
+        purgeBlocker: p => (p.debt || 0) !== 0 || (p.creditBalance || 0) !== 0 ? `Đối tác ${p.name} còn công nợ hoặc số dư` : null,
+    },
+    Order: {
+        module: 'Orders', label: 'Đơn hàng', icon: 'receipt_long', permission: 'orders.delete',
+        table: () => db.orders,
+        describe: o => ({ code: o.code, name: o.customerName }),
+        purgeBlocker: o => o.lockedAt ? `Đơn hàng ${o.code} đã khóa sổ` : null,
+    },
+    Quote: {
+        module: 'Quotes', label: 'Báo giá', icon: 'request_quote', permission: 'quotes.manage',
+        table: () => db.quotes,
+        describe: q => ({ code: q.code, name: q.customerName }),
+    },
+    DeliveryNote: {
+        module: 'Delivery', label: 'Phiếu giao hàng', icon: 'local_shipping', permission: 'delivery.manage',
+        table: () => db.deliveryNotes,
+        describe: n => ({ code: n.code, name: n.customerName || n.orderCode }),
+    },
+    Transaction: {
+        module: 'Transactions', label: 'Phiếu thu / chi', icon: 'account_balance_wallet', permission: 'transactions.manage',
+        table: () => db.transactions,
+        describe: t => ({ code: t.code || t.referenceCode || t.id, name: t.description || t.partnerName || '' }),
+        purgeBlocker: t => t.lockedAt ? `Phiếu ${t.code || t.id} đã khóa sổ` : null,
+    },
+};
+
+export const RECYCLE_ENTITY_TYPES = Object.keys(RECYCLE_SOURCES) as RecycleEntityType[];
+
+export interface RecycleBinEntry {
+    entityType: RecycleEntityType;
+    id: string;
+    code: string;
+    name: string;
+    deletedAt: number;
+}
+
+export const listDeletedRecords = async (): Promise<RecycleBinEntry[]> => {
+    const groups = await Promise.all(RECYCLE_ENTITY_TYPES.map(async entityType => {
+        const source = RECYCLE_SOURCES[entityType];
+        const rows = await source.table().where('deletedAt').above(0).filter((row: any) => row.isDeleted).toArray();
+        return rows.map((row: any) => ({ entityType, id: row.id, deletedAt: row.deletedAt, ...source.describe(row) }));
+    }));
+    return groups.flat().sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+// Removes the row for good; the audit entry keeps its last snapshot as a tombstone
+export const purgeRecord = async (entityType: RecycleEntityType, id: string, actor: { id: string; name: string }) => {
+    const source = RECYCLE_SOURCES[entityType];
+    const table = source.table();
+    await (db as any).transaction('rw', table, db.auditLogs, async () => {
+        const row: any = await table.get(id);
+        if (!row) return;
+        if (!row.isDeleted) throw new Error('Chỉ có thể xóa vĩnh viễn dữ liệu đã nằm trong thùng rác.');
+        const blocker = source.purgeBlocker?.(row);
+        if (blocker) throw new Error(`${blocker}, không thể xóa vĩnh viễn.`);
+
+        const { code } = source.describe(row);
+        await table.delete(id);
+        await logAudit({
+            module: source.module, entityType, entityId: id, entityCode: code,
+            action: 'Delete', summary: `Purged ${entityType} ${code} from recycle bin`,
+            actor, before: row, severity: 'warn', tags: ['purge']
+        });
+    });
+};
+
+// Records that cannot be purged yet (stock on hand, locked periods) are left for a later run
+export const purgeExpiredRecords = async (retentionDays: number | undefined, actor: { id: string; name: string }) => {
+    if (!retentionDays || retentionDays <= 0) return 0;
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    let purged = 0;
+    for (const entityType of RECYCLE_ENTITY_TYPES) {
+        const source = RECYCLE_SOURCES[entityType];
+        const expired = await source.table().where('deletedAt').below(cutoff).filter((row: any) => row.isDeleted && !source.purgeBlocker?.(row)).primaryKeys();
+        for (const id of expired) {
+            await purgeRecord(entityType, id as string, actor);
+            purged++;
+        }
+    }
+    return purged;
+};
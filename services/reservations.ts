@@ -0,0 +1,99 @@
+import { db } from './db';
+import { logAudit } from './audit';
+import { OrderItem, Order, Quote } from '../types';
+import { parseDate } from '../utils/helpers';
+
+// Open orders and accepted quotes hold stock per line in `reservedQuantity`;
+// the product keeps the running total in `stockReserved`.
+// Every function here must run inside a transaction that includes `products`.
+
+export const ORDER_RESERVING_STATUSES: Order['status'][] = ['Processing', 'PendingPayment'];
+
+export const quoteHoldsStock = (quote: Pick<Quote, 'status' | 'convertedOrderId'>) =>
+    quote.status === 'Accepted' && !quote.convertedOrderId;
+
+const adjustReserved = async (productId: string, delta: number) => {
+    if (!delta) return;
+    const p = await db.products.get(productId);
+    if (!p) return;
+    await db.products.update(productId, { stockReserved: Math.max(0, (p.stockReserved || 0) + delta), updatedAt: Date.now() });
+};
+
+// Tops every line up to a full reservation of its outstanding quantity
+export const reserveItems = async <T extends OrderItem>(items: T[]): Promise<T[]> => {
+    const result: T[] = [];
+    for (const item of items) {
+        const target = Math.max(0, item.quantity - (item.deliveredQuantity || 0) - (item.returnedQuantity || 0));
+        await adjustReserved(item.id, target - (item.reservedQuantity || 0));
+        result.push({ ...item, reservedQuantity: target });
+    }
+    return result;
+};
+
+// Releases `quantities[productId]` units per line, or everything still held when omitted
+export const releaseItems = async <T extends OrderItem>(items: T[], quantities?: Record<string, number>): Promise<T[]> => {
+    const result: T[] = [];
+    for (const item of items) {
+        const held = item.reservedQuantity || 0;
+        const release = Math.min(held, quantities ? (quantities[item.id] || 0) : held);
+        await adjustReserved(item.id, -release);
+        result.push({ ...item, reservedQuantity: held - release });
+    }
+    return result;
+};
+
+// Puts `quantities[productId]` units back on hold, e.g. when a shipment is called off
+export const reserveQuantities = async <T extends OrderItem>(items: T[], quantities: Record<string, number>): Promise<T[]> => {
+    const result: T[] = [];
+    for (const item of items) {
+        const add = quantities[item.id] || 0;
+        await adjustReserved(item.id, add);
+        result.push({ ...item, reservedQuantity: (item.reservedQuantity || 0) + add });
+    }
+    return result;
+};
+
+export interface ReservationHolder {
+    type: 'Order' | 'Quote';
+    id: string;
+    code: string;
+    partnerName: string;
+    date: string;
+    status: string;
+    quantity: number;
+}
+
+export const getProductReservations = async (productId: string): Promise<ReservationHolder[]> => {
+    const heldBy = (items: OrderItem[]) => items
+        .filter(i => i.id === productId)
+        .reduce((sum, i) => sum + (i.reservedQuantity || 0), 0);
+
+    const [orders, quotes] = await Promise.all([
+        db.orders.filter(o => !o.isDeleted && heldBy(o.items) > 0).toArray(),
+        db.quotes.filter(q => heldBy(q.items) > 0).toArray(),
+    ]);
+    return [
+        ...orders.map(o => ({ type: 'Order' as const, id: o.id, code: o.code, partnerName: o.customerName, date: o.date, status: o.status, quantity: heldBy(o.items) })),
+        ...quotes.map(q => ({ type: 'Quote' as const, id: q.id, code: q.code, partnerName: q.customerName, date: q.date, status: q.status, quantity: heldBy(q.items) })),
+    ];
+};
+
+// Accepted quotes past their validity date give their stock back
+export const expireQuoteReservations = async (actor: { id: string; name: string }) => {
+    const today = new Date(); today.setHours(0, 0, 0, 0);
+    let expired = 0;
+    await (db as any).transaction('rw', db.quotes, db.products, db.auditLogs, async () => {
+        const stale = await db.quotes.filter(q => !q.isDeleted && quoteHoldsStock(q) && parseDate(q.validUntil) < today).toArray();
+        for (const quote of stale) {
+            const items = await releaseItems(quote.items);
+            await db.quotes.update(quote.id, { status: 'Expired', items, updatedAt: Date.now() });
+            await logAudit({
+                module: 'Quotes', entityType: 'Quote', entityId: quote.id, entityCode: quote.code,
+                action: 'StatusChange', summary: `Quote ${quote.code} expired, reservation released`,
+                actor, before: { status: quote.status }, after: { status: 'Expired' }, tags: ['stock']
+            });
+            expired++;
+        }
+    });
+    return expired;
+};
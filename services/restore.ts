@@ -0,0 +1,72 @@
+import { db } from './db';
+import { computeAuditDiff } from './audit';
+import { AppSettings, AuditDiff, AuditLog, AuditModule, Permission } from '../types';
+
+// Only master data and quotes can be rolled back: anything that posted stock, cost or cash is
+// corrected through its own reversing document instead
+export const RESTORE_TARGETS: Record<string, { module: AuditModule; permission: Permission; label: string }> = {
+    Product: { module: 'Inventory', permission: 'products.edit', label: 'sản phẩm' },
+    Partner: { module: 'Partners', permission: 'partners.edit', label: 'đối tác' },
+    Quote: { module: 'Quotes', permission: 'quotes.manage', label: 'báo giá' },
+    Settings: { module: 'Settings', permission: 'settings.edit', label: 'cài đặt' },
+};
+
+// Fields owned by ledgers rather than by the edit form; the restored version keeps today's values
+const PRESERVED_FIELDS: Record<string, string[]> = {
+    Product: ['stock', 'stockReserved', 'importPrice', 'image'],
+    Partner: ['debt', 'creditBalance'],
+    Quote: [],
+    Settings: [],
+};
+
+export interface RestorePreview {
+    current: any;
+    restored: any;
+    diff?: AuditDiff;
+}
+
+// A delete entry points back at the version that was deleted; every other entry at the version it produced
+export const getVersionSnapshot = (log: AuditLog) =>
+    log.action === 'Delete' || log.action === 'SoftDelete' ? log.before : log.after;
+
+export const isRestorableLog = (log: AuditLog) => {
+    const snapshot = getVersionSnapshot(log);
+    return !!RESTORE_TARGETS[log.entityType] && !!snapshot && typeof snapshot === 'object' && Object.keys(snapshot).length > 1;
+};
+
+export const buildRestorePreview = async (log: AuditLog, settings: AppSettings): Promise<RestorePreview> => {
+    const target = RESTORE_TARGETS[log.entityType];
+    const snapshot = getVersionSnapshot(log);
+    if (!target || !isRestorableLog(log)) throw new Error('Bản ghi này không lưu đủ dữ liệu để khôi phục.');
+
+    let current: any;
+    if (log.entityType === 'Settings') current = settings;
+    else if (log.entityType === 'Product') current = await db.products.get(log.entityId);
+    else if (log.entityType === 'Partner') current = await db.partners.get(log.entityId);
+    else current = await db.quotes.get(log.entityId);
+
+    // Products and partners are only ever soft-deleted; a missing row means the snapshot is from another data set
+    if (!current && log.entityType !== 'Quote') throw new Error(`Không tìm thấy ${target.label} ${log.entityCode || log.entityId}.`);
+    if (current?.lockedAt) throw new Error(`Chứng từ ${log.entityCode || log.entityId} đã bị khóa sổ, không thể khôi phục.`);
+
+    const restored: any = { ...(current || {}), ...snapshot, id: current?.id ?? snapshot.id ?? log.entityId };
+    PRESERVED_FIELDS[log.entityType].forEach(field => {
+        if (current && field in current) restored[field] = current[field];
+        else delete restored[field];
+    });
+
+    if (log.entityType === 'Quote') {
+        if (current?.convertedOrderId || snapshot.convertedOrderId) {
+            throw new Error(`Báo giá ${log.entityCode} đã chuyển thành đơn hàng, không thể khôi phục.`);
+        }
+        // Reservations are recomputed on save from the restored status, so the preview shows today's holds
+        const held = new Map<string, number>((current?.items || []).map((i: any) => [i.id, i.reservedQuantity || 0]));
+        restored.items = (restored.items || []).map((i: any) => ({ ...i, reservedQuantity: held.get(i.id) || 0 }));
+    }
+    if (log.entityType === 'Settings') {
+        // Restoring must never reopen a closed accounting period
+        restored.finance = { ...restored.finance, lockedBefore: current.finance?.lockedBefore };
+    }
+
+    return { current, restored, diff: computeAuditDiff(current || {}, restored) };
+};
@@ -1,5 +1,5 @@
 
-export type ViewState = 'DASHBOARD' | 'POS' | 'ORDERS' | 'QUOTES' | 'DELIVERY_NOTES' | 'IMPORTS' | 'INVENTORY' | 'PARTNERS' | 'DEBTS' | 'TRANSACTIONS' | 'REPORTS' | 'AUDIT_LOGS' | 'SETTINGS' | 'SYSTEM_LOGS';
+export type ViewState = 'DASHBOARD' | 'POS' | 'ORDERS' | 'QUOTES' | 'DELIVERY_NOTES' | 'IMPORTS' | 'INVENTORY' | 'PARTNERS' | 'DEBTS' | 'TRANSACTIONS' | 'APPROVALS' | 'REPORTS' | 'AUDIT_LOGS' | 'SETTINGS' | 'SYSTEM_LOGS' | 'RECYCLE_BIN';
 
 export interface AppNotification {
   id: string;
@@ -28,9 +28,12 @@ export interface Partner {
   taxId?: string;
   debt?: number;
   debtLimit?: number;
+  paymentTermDays?: number; // Supplier credit terms; falls back to settings.system.debtDueDays
+  creditBalance?: number; // Overpayments held on account for this partner
   createdAt: number;
   updatedAt: number;
   isDeleted?: boolean;
+  deletedAt?: number; // When it went to the recycle bin; drives retention purge
   seedTag?: string;
 }
 
@@ -51,6 +54,7 @@ export interface Product {
   createdAt: number;
   updatedAt: number;
   isDeleted?: boolean;
+  deletedAt?: number;
   seedTag?: string;
 }
 
@@ -61,13 +65,16 @@ export interface OrderItem {
   unit: string;
   quantity: number;
   deliveredQuantity?: number; // Added for Partial Fulfillment
+  returnedQuantity?: number; // Units brought back through customer return notes
+  reservedQuantity?: number; // Units held in Product.stockReserved for this line until shipped or released
   price: number;
   total: number;
-  costPrice?: number;
+  costPrice?: number; // Unit COGS under the costing method active at sale time
+  fifoCost?: number; // Unit COGS from FIFO layers, always recorded for comparison
   maxQuantity?: number;
 }
 
-export type OrderStatus = 'PendingPayment' | 'Processing' | 'Shipping' | 'PartiallyShipped' | 'Completed' | 'Cancelled';
+export type OrderStatus = 'PendingApproval' | 'PendingPayment' | 'Processing' | 'Shipping' | 'PartiallyShipped' | 'Completed' | 'Cancelled';
 export type PaymentMethod = 'cash' | 'transfer' | 'card';
 
 export interface Order {
@@ -76,6 +83,7 @@ export interface Order {
   customerName: string;
   phone: string;
   date: string;
+  quoteId?: string; // Quote this order was converted from
   subtotal: number;
   discount: number;
   vatRate: number;
@@ -85,12 +93,14 @@ export interface Order {
   status: OrderStatus;
   paymentMethod: PaymentMethod;
   paymentStatus?: 'Paid' | 'Unpaid' | 'Partial';
-  fulfillmentStatus?: 'NotShipped' | 'PartiallyShipped' | 'Shipped' | 'Delivered' | 'Returned';
+  fulfillmentStatus?: 'NotShipped' | 'PartiallyShipped' | 'Shipped' | 'Delivered' | 'PartiallyReturned' | 'Returned';
+  returnedAmount?: number; // Total credited back to the customer through return notes
   items: OrderItem[];
   lockedAt?: number;
   createdAt: number;
   updatedAt: number;
   isDeleted?: boolean;
+  deletedAt?: number;
   seedTag?: string;
 }
 
@@ -118,6 +128,8 @@ export interface Quote {
   convertedOrderId?: string;
   createdAt: number;
   updatedAt: number;
+  isDeleted?: boolean;
+  deletedAt?: number;
   seedTag?: string;
 }
 
@@ -168,7 +180,8 @@ export interface DebtRecord {
   remainingAmount: number;
   status: DebtStatus;
   type: 'Receivable' | 'Payable';
-  payments?: { id: string; date: string; amount: number; method: string; notes?: string }[];
+  payments?: { id: string; date: string; amount: number; method: string; notes?: string; lockedAt?: number }[];
+  lockedAt?: number; // Set by a period close once the debt was settled before the cut-off
   createdAt: number;
   updatedAt: number;
   seedTag?: string;
@@ -187,10 +200,11 @@ export interface DeliveryNote {
   shipperPhone?: string;
   status: DeliveryStatus;
   notes?: string;
-  items: { id: string; productName: string; sku: string; unit: string; quantity: number; price: number; total: number; }[];
+  items: { id: string; productName: string; sku: string; unit: string; quantity: number; price: number; total: number; fromReservation?: number /* units this note took out of stock */ }[];
   createdAt: number;
   updatedAt: number;
   isDeleted?: boolean;
+  deletedAt?: number;
   seedTag?: string;
 }
 
@@ -205,9 +219,14 @@ export interface Transaction {
   method: string;
   description: string;
   referenceCode?: string;
+  code?: string; // Voucher number (phiếu thu / phiếu chi)
+  referenceCodes?: string[]; // Documents settled by a single combined receipt/payment
   partnerName?: string;
+  lockedAt?: number;
   createdAt: number;
   updatedAt: number;
+  isDeleted?: boolean;
+  deletedAt?: number;
   seedTag?: string;
 }
 
@@ -229,6 +248,44 @@ export interface InventoryLog {
   seedTag?: string;
 }
 
+export type CostMovementType = 'receipt' | 'purchase_return' | 'sale_return' | 'adjustment';
+
+export interface CostHistoryEntry {
+  id: string;
+  productId: string;
+  sku: string;
+  type: CostMovementType;
+  date: string;
+  timestamp: number;
+  quantity: number; // Signed change in units
+  unitCost: number; // Cost of the units moved
+  onHandBefore: number;
+  oldAvgCost: number;
+  newAvgCost: number;
+  referenceCode?: string;
+  createdAt: number;
+  updatedAt: number;
+  seedTag?: string;
+}
+
+export interface CostLayer {
+  id: string;
+  productId: string;
+  sku: string;
+  source: 'opening' | 'receipt' | 'return' | 'adjustment';
+  referenceCode?: string;
+  importCode?: string; // Purchase order the units came from, used to return them to the supplier
+  date: string;
+  timestamp: number;
+  quantity: number; // Units the layer was opened with
+  remaining: number;
+  unitCost: number;
+  consumptions: { quantity: number; timestamp: number; referenceCode?: string }[];
+  createdAt: number;
+  updatedAt: number;
+  seedTag?: string;
+}
+
 // --- Dynamic Template Types ---
 export type TemplateSectionType = 'header' | 'customer_info' | 'items_table' | 'payment_info' | 'totals' | 'notes' | 'signatures' | 'footer_note';
 
@@ -270,23 +327,105 @@ export interface DocPrintSettings {
   delivery: DocTypeConfig;
 }
 
+export type CostingMethod = 'average' | 'fifo';
+
+export type UserRole = 'admin' | 'staff';
+
+export type Permission =
+  'orders.create' | 'orders.cancel' | 'orders.delete' | 'returns.create' |
+  'quotes.manage' | 'delivery.manage' | 'imports.manage' |
+  'products.edit' | 'inventory.adjust' | 'partners.edit' |
+  'debts.pay' | 'transactions.manage' | 'price.override' | 'approvals.decide' |
+  'documents.lock' | 'period.close' | 'data.repair' | 'settings.edit' | 'users.manage';
+
+export interface AppUser {
+  id: string;
+  username: string; // Stored lower-case
+  name: string;
+  role: UserRole;
+  secretHash: string; // PBKDF2-SHA256 of the PIN / password
+  salt: string;
+  isActive: boolean;
+  lastLoginAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NumberedDocType = 'order' | 'quote' | 'import' | 'delivery' | 'receiving' | 'return' | 'purchaseReturn' | 'cashReceipt' | 'cashPayment';
+
+export interface NumberingRule {
+  prefix: string;
+  format: string; // Tokens: {prefix} {yyyy} {yy} {mm} {dd} {seq:N}
+  reset: 'never' | 'yearly' | 'monthly';
+}
+
+export type ApprovalRuleType = 'discount' | 'belowCost' | 'creditLimit' | 'stockAdjustment';
+
+// A rule is off when its entry is missing; thresholds are a percentage (discount) or units (stockAdjustment)
+export type ApprovalRules = Partial<Record<ApprovalRuleType, { enabled: boolean; threshold?: number }>>;
+
+export type ApprovalStatus = 'Pending' | 'Approved' | 'Rejected';
+
+export interface ApprovalRequest {
+  id: string;
+  documentType: 'Order' | 'StockAdjustment';
+  documentId: string; // Order id, or product id for stock adjustments
+  documentCode: string;
+  partnerName?: string;
+  amount?: number; // Order total, or the unit difference of an adjustment
+  reasons: { rule: ApprovalRuleType; message: string }[];
+  payload: any; // What gets posted on approval
+  status: ApprovalStatus;
+  requestedBy: { id: string; name: string };
+  requestedAt: number;
+  decidedBy?: { id: string; name: string };
+  decidedAt?: number;
+  comment?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface AppSettings {
   general: { name: string; taxId: string; phone: string; email: string; website: string; address: string; logo: string };
-  finance: { currency: string; vat: number; printInvoice: boolean };
-  system: { orderPrefix: string; importPrefix: string; minStockDefault: number; debtDueDays: number };
+  finance: { currency: string; vat: number; printInvoice: boolean; costingMethod?: CostingMethod; lockedBefore?: string /* DD/MM/YYYY cut-off of the last period close */ };
+  system: { orderPrefix: string; importPrefix: string; minStockDefault: number; debtDueDays: number; numbering?: Partial<Record<NumberedDocType, NumberingRule>>; recycleBinRetentionDays?: number /* 0 keeps deleted records until purged */; logRetention?: LogRetentionSettings };
   appearance: { theme: 'light' | 'dark'; density: 'comfortable' | 'compact' };
   documents: DocPrintSettings;
+  security?: { rolePermissions?: Partial<Record<UserRole, Permission[]>>; autoLockMinutes?: number /* 0 disables the idle lock */ };
+  approvals?: ApprovalRules;
 }
 
 export type AuditAction = 
   'Create' | 'Update' | 'Delete' | 'SoftDelete' | 
   'StatusChange' | 'Payment' | 'AddItem' | 'RemoveItem' | 
-  'Adjust' | 'Cancel' | 'Convert' | 'Approve' | 'Restore' | 'Lock';
+  'Adjust' | 'Cancel' | 'Convert' | 'Approve' | 'Reject' | 'Restore' | 'Lock' |
+  'Login' | 'Logout';
 
 export type AuditModule = 
   'Orders' | 'Inventory' | 'Debts' | 'Imports' | 'Partners' | 
   'Settings' | 'Returns' | 'Transactions' | 'Quotes' | 'Delivery' | 'System';
 
+export interface AuditFieldChange {
+  field: string; // Dotted path for nested objects, e.g. `finance.vat`
+  before: any;
+  after: any;
+}
+
+// Line items (order, quote, import lines) are matched by id
+export interface AuditItemChange {
+  action: Extract<AuditAction, 'AddItem' | 'RemoveItem' | 'Update'>;
+  key: string;
+  label: string;
+  before?: any;
+  after?: any;
+  fields?: AuditFieldChange[];
+}
+
+export interface AuditDiff {
+  fields: AuditFieldChange[];
+  items: AuditItemChange[];
+}
+
 export interface AuditLog {
   id: string;
   createdAt: number;
@@ -303,7 +442,7 @@ export interface AuditLog {
   
   before?: any; // Snapshot (partial)
   after?: any;  // Snapshot (partial)
-  diff?: any;   // Specific changes
+  diff?: AuditDiff; // Field-level changes computed from the snapshots
   
   severity: 'info' | 'warn' | 'error';
   refType?: string;
@@ -311,6 +450,29 @@ export interface AuditLog {
   
   tags?: string[]; // 'money', 'stock', 'status'
   seedTag?: string;
+
+  // Tamper-evident chain: each entry hashes its own content together with the previous entry's hash
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
+}
+
+// Run of consecutive entries moved out to an archive file; `hash` is the last entry's, which the next one links to
+export interface AuditArchivedRange {
+  from: number;
+  to: number;
+  hash: string;
+}
+
+export interface LogRetentionRule {
+  module: AuditModule | 'all';
+  severity: AuditLog['severity'] | 'all';
+  days: number;
+}
+
+export interface LogRetentionSettings {
+  audit: LogRetentionRule[]; // The most specific matching rule wins; no match keeps the entry
+  errors: Partial<Record<ErrorLog['severity'], number>>;
 }
 
 export interface ErrorLog {
@@ -376,6 +538,16 @@ export interface PurchaseReturnNote {
   seedTag?: string;
 }
 
+export type LandedCostMethod = 'value' | 'quantity' | 'manual';
+
+export interface LandedCost {
+  freight: number;
+  duty: number;
+  other: number;
+  method: LandedCostMethod;
+  manualSplit?: Record<string, number>; // itemId -> amount, must add up to the total for 'manual'
+}
+
 export interface ReceivingItem {
   id: string;
   sku: string;
@@ -398,6 +570,7 @@ export interface ReceivingNote {
   status: 'Received';
   notes?: string;
   totalLandedCost?: number;
+  landedCost?: LandedCost;
   createdAt: number;
   updatedAt: number;
   seedTag?: string;
@@ -409,6 +582,13 @@ export interface BackupData {
     schemaVersion: number;
     exportedAt: number;
     source: string;
+    // Absent on backups made before incremental exports; those are full
+    backupId?: string;
+    kind?: 'full' | 'incremental';
+    parentId?: string; // The backup an incremental continues from
+    since?: number; // Incremental: rows changed at or after this time
+    // Set while validating: pre-chain audit entries that were sealed on import without any proof of their content
+    unverifiedAuditLogs?: number;
   };
   data: {
     products: Product[];
@@ -425,17 +605,33 @@ export interface BackupData {
     returnNotes: ReturnNote[];
     purchaseReturnNotes: PurchaseReturnNote[];
     receivingNotes: ReceivingNote[];
+    costHistory: CostHistoryEntry[];
+    costLayers: CostLayer[];
     aiCache: AICacheEntry[]; // Include cache in backup
+    approvals: ApprovalRequest[];
+    users: AppUser[]; // Empty in backups made before accounts were included
+    auditArchive?: AuditArchivedRange[];
+    tombstones?: Record<string, string[]>; // Incremental: primary keys deleted since the parent backup
   };
 }
 
+export type ReconcileFixTable = 'partners' | 'products' | 'orders' | 'importOrders' | 'debtRecords' | 'transactions' | 'inventoryLogs';
+
+export interface ReconcileFix {
+  description: string; // Human readable, shown next to the "apply" button
+  table: ReconcileFixTable;
+  entityId: string;
+  patch: Record<string, any>; // Fields written verbatim on apply
+  stockAdjustment?: boolean; // Also log an 'adjustment' inventory movement for a stock patch
+}
+
 export interface ReconcileIssue {
   type: string;
   severity: 'High' | 'Medium' | 'Low';
   entityId: string;
   entityName?: string;
   message: string;
-  suggestedFix?: string;
+  suggestedFix?: ReconcileFix;
 }
 
 export type DateFilterType = 'all' | 'today' | 'week' | 'month';
@@ -135,7 +135,7 @@ export const generateUUID = (prefix: string = 'id') => {
 
 // Helper: Export Data to CSV (Legacy, simple key-value dump)
 export const exportToCSV = (data: any[], fileName: string) => {
-  if (!data || !data.length) return;
+  if (!data || !data.length) return Promise.resolve(false);
 
   // Extract headers
   const headers = Object.keys(data[0]);
@@ -154,7 +154,7 @@ export const exportToCSV = (data: any[], fileName: string) => {
   ].join('\n');
 
   // Add BOM for UTF-8 compatibility
-  downloadTextFile(`${fileName}.csv`, `\uFEFF${csvContent}`);
+  return downloadTextFile(`${fileName}.csv`, `\uFEFF${csvContent}`);
 };
 
 // Helper: Custom CSV generation with specified headers
@@ -180,8 +180,18 @@ export const toCSV = (rows: Record<string, any>[], headers: { key: string; label
 };
 
 // Helper: Trigger file download
-export const downloadTextFile = (filename: string, content: string, mime = 'text/csv;charset=utf-8') => {
-  const blob = new Blob([content], { type: mime });
+export const downloadTextFile = (filename: string, content: string, mime = 'text/csv;charset=utf-8') =>
+  downloadBlob(filename, new Blob([content], { type: mime }));
+
+// Resolves to whether the file was written. The desktop shell saves through a native dialog that can be
+// cancelled, so callers that drop data or move a checkpoint afterwards must check the result.
+// A browser download cannot be observed and always counts as written.
+export const downloadBlob = async (filename: string, blob: Blob): Promise<boolean> => {
+  if (window.erpDesktop) {
+    const result = await window.erpDesktop.saveFile({ defaultName: filename, data: await blob.arrayBuffer() });
+    return !result.canceled;
+  }
+
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
@@ -192,8 +202,24 @@ export const downloadTextFile = (filename: string, content: string, mime = 'text
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
+  return true;
+};
+
+// Picks files through the desktop shell's native dialog, or returns null in the browser, where the caller
+// opens its own <input type="file">. A cancelled dialog gives an empty list.
+export const pickDesktopFiles = async (filter: { name: string; extensions: string[] }, multiple = false): Promise<File[] | null> => {
+  if (!window.erpDesktop) return null;
+  const picked = await window.erpDesktop.openFile({ filters: [filter], multiple });
+  return picked.map(file => new File([file.data], file.name));
 };
 
+// Helper: gzip through the browser's built-in streams
+export const gzipText = (text: string): Promise<Blob> =>
+  new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))).blob();
+
+export const gunzipText = (blob: Blob): Promise<string> =>
+  new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+
 // Helper: Read Money to Vietnamese Text
 const CHU_SO = ["không", "một", "hai", "ba", "bốn", "năm", "sáu", "bảy", "tám", "chín"];
 const TEN_LOP = ["", "nghìn", "triệu", "tỷ", "nghìn tỷ", "triệu tỷ"];
@@ -30,8 +30,10 @@ const STATUS_MAP: Record<string, Record<string, StatusDefinition>> = {
         'void': { variant: 'neutral', label: 'Đã hủy', icon: 'block' },
     },
     'Order': {
+        'PendingApproval': { variant: 'warning', label: 'Chờ phê duyệt', icon: 'approval' },
         'PendingPayment': { variant: 'warning', label: 'Chờ thanh toán', icon: 'payments' },
         'Processing': { variant: 'info', label: 'Đang xử lý', icon: 'settings' },
+        'PartiallyShipped': { variant: 'warning', label: 'Giao 1 phần', icon: 'local_shipping' },
         'Shipping': { variant: 'info', label: 'Vận chuyển', icon: 'local_shipping' },
         'Completed': { variant: 'success', label: 'Hoàn thành', icon: 'check_circle' },
         'Cancelled': { variant: 'danger', label: 'Đã hủy', icon: 'cancel' },
@@ -43,8 +45,10 @@ const STATUS_MAP: Record<string, Record<string, StatusDefinition>> = {
     },
     'Fulfillment': { // For Order Fulfillment
         'NotShipped': { variant: 'neutral', label: 'Chưa giao', icon: 'inventory' },
+        'PartiallyShipped': { variant: 'warning', label: 'Giao 1 phần', icon: 'local_shipping' },
         'Shipped': { variant: 'info', label: 'Đang giao', icon: 'local_shipping' },
         'Delivered': { variant: 'success', label: 'Đã giao', icon: 'done_all' },
+        'PartiallyReturned': { variant: 'warning', label: 'Trả 1 phần', icon: 'assignment_return' },
         'Returned': { variant: 'danger', label: 'Trả hàng', icon: 'assignment_return' },
     },
     'Quote': {
@@ -76,6 +80,11 @@ const STATUS_MAP: Record<string, Record<string, StatusDefinition>> = {
         'Shipping': { variant: 'info', label: 'Đang giao', icon: 'local_shipping' },
         'Delivered': { variant: 'success', label: 'Giao thành công', icon: 'check_circle' },
         'Cancelled': { variant: 'danger', label: 'Hủy giao', icon: 'cancel' },
+    },
+    'Approval': {
+        'Pending': { variant: 'warning', label: 'Chờ duyệt', icon: 'hourglass_top' },
+        'Approved': { variant: 'success', label: 'Đã duyệt', icon: 'task_alt' },
+        'Rejected': { variant: 'danger', label: 'Từ chối', icon: 'block' },
     }
 };
 
@@ -2,6 +2,7 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
+import { readFileSync } from 'fs';
 
 export default defineConfig(({ command, mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
@@ -55,7 +56,9 @@ export default defineConfig(({ command, mode }) => {
       target: 'esnext'
     },
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // package.json is the one place the app version is kept
+      'process.env.APP_VERSION': JSON.stringify(JSON.parse(readFileSync('./package.json', 'utf-8')).version)
     }
   };
 });